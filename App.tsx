@@ -1,17 +1,62 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
-import { Zap, Play, Square, Monitor, BarChart2, Radio, Activity, Settings, AlertCircle, Loader2, Sparkles, Mic, MicOff, X, Eye, EyeOff, Sliders, Volume2, VolumeX, Volume1, User } from 'lucide-react';
-import { StreamStatus, OrganizedNote, StatPoint, AudioConfig } from './types';
-import { organizeTranscript } from './services/organizerService';
+import { Zap, Play, Square, Monitor, BarChart2, Radio, Activity, Settings, AlertCircle, Loader2, Sparkles, Mic, MicOff, X, Eye, EyeOff, Sliders, Volume2, VolumeX, Volume1, User, FileAudio, PlayCircle, PauseCircle, Users, Pencil, Trash2, Merge, Undo2 } from 'lucide-react';
+import { StreamStatus, OrganizedNote, StatPoint, AudioConfig, Session, SessionRecording, ActionItem, MeetingSummary, MeetingChatMessage, OrganizerConfig, LiveAssistantConfig, TranscriptEdit, AnalysisPolicy, SessionMetrics } from './types';
+import { organizeTranscript, labelSpeakers, updateMeetingSummary, requestOrganizedNote } from './services/organizerService';
+import { getSpeakerName, formatAttributedTranscript } from './services/speakers';
+import { setActionItemStatus } from './services/actionItems';
+import { AnalysisTrigger, decideAnalysis, DEFAULT_ANALYSIS_POLICY } from './services/analysisTrigger';
+import { canMergeWithNext, deleteSegment, editSegmentText, flagOutdatedNotes, getPendingTranscript, markAllOrganized, mergeWithNext, OrganizedOffsets, PendingTranscript, remapOrganizedOffsets, splitSegment, TranscriptEditResult, undoEdit } from './services/transcriptEditing';
+import { AnalysisJob, cancelAllAnalysisJobs, cancelAnalysisJob, cancelJobsForSegments, claimedOffsets, completeJobOffsets, createAnalysisJob, failAnalysisJob, nextRunnableJob, retryAnalysisJob, startAnalysisJob } from './services/analysisQueue';
+import { downloadSession, ExportFormat } from './services/exportService';
+import { parseSessionFile } from './services/importService';
+import { DEFAULT_TEMPLATE_ID, findTemplate } from './services/noteTemplates';
+import { SearchResult } from './services/searchIndex';
+import { createGeminiEmbeddingProvider } from './services/semanticSearch';
+import { askMeeting } from './services/meetingChat';
+import { createOrganizerProvider, DEFAULT_GEMINI_MODEL, isRetryableOrganizerError, OrganizerCallMetrics } from './services/organizerProvider';
+import { addMetrics, EMPTY_SESSION_METRICS, estimateCost, isOverBudget, ORGANIZER_PRICING, organizerCallMetrics } from './services/metrics';
+import { createGeminiLiveTransport, createWebSocketLiveTransport } from './services/liveTransport';
+import { formatGapDuration, MAX_RECONNECT_ATTEMPTS } from './services/reconnect';
+import { clampGain, DEFAULT_SOURCE_GAINS } from './services/audioDevices';
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from './services/playbackQueue';
+import { DEFAULT_LIVE_ASSISTANT } from './services/liveAssistant';
 import Visualizer from './components/Visualizer';
 import NoteCard from './components/NoteCard';
+import SessionList from './components/SessionList';
+import ExportMenu from './components/ExportMenu';
+import SpeakerList from './components/SpeakerList';
+import TasksPanel from './components/TasksPanel';
+import MeetingSummaryCard from './components/MeetingSummaryCard';
+import TemplateManager from './components/TemplateManager';
+import GlossaryManager from './components/GlossaryManager';
+import SearchPanel from './components/SearchPanel';
+import HighlightedText from './components/HighlightedText';
+import MeetingChat from './components/MeetingChat';
+import OrganizerSettings from './components/OrganizerSettings';
+import SourceMixer from './components/SourceMixer';
+import AssistantSettings from './components/AssistantSettings';
+import AnalysisSettings from './components/AnalysisSettings';
+import AnalysisJobList from './components/AnalysisJobList';
+import SegmentEditor from './components/SegmentEditor';
+import MetricsPanel from './components/MetricsPanel';
 import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer, Cell, CartesianGrid, YAxis } from 'recharts';
 import { useGeminiLive } from './hooks/useGeminiLive';
+import { useSessionLibrary } from './hooks/useSessionLibrary';
+import { useRecordingPlayback } from './hooks/useRecordingPlayback';
+import { useNoteTemplates } from './hooks/useNoteTemplates';
+import { useGlossary } from './hooks/useGlossary';
+import { useSearch } from './hooks/useSearch';
+import { useAudioDevices } from './hooks/useAudioDevices';
 
-/**
- * Character threshold to trigger automatic note analysis.
- * We wait for a sufficient buffer size to generate meaningful insights.
- */
-const AUTO_ANALYZE_THRESHOLD = 200; 
+/** Shown while the organizer runs, so it is clear why a note is being written now */
+const TRIGGER_LABELS: Record<AnalysisTrigger | 'manual', string> = {
+  manual: 'Analyzing...',
+  turn: 'Analyzing turn...',
+  silence: 'Analyzing after pause...',
+  interval: 'Analyzing...',
+  topic: 'Topic changed, analyzing...',
+  size: 'Analyzing...',
+};
 
 /**
  * Audio Feedback Utility
@@ -62,13 +107,49 @@ const playFeedback = (type: 'click' | 'success' | 'on' | 'off') => {
 export default function App() {
   // --- State ---
   const [notes, setNotes] = useState<OrganizedNote[]>([]);
+  // Real names for diarized speaker labels, e.g. { "Speaker A": "Priya" }
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  const [isLabellingSpeakers, setIsLabellingSpeakers] = useState(false);
   const [isProcessingNotes, setIsProcessingNotes] = useState(false);
+  // Organizer runs in transcript order; the head is the one in progress
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJob[]>([]);
+  // After a job is cancelled, auto-analysis waits for new speech instead of queueing the same text again
+  const [autoAnalysisHeldAt, setAutoAnalysisHeldAt] = useState(0);
+  // When the organizer runs on its own, and the clock its time-based triggers read
+  const [analysisPolicy, setAnalysisPolicy] = useState<AnalysisPolicy>(DEFAULT_ANALYSIS_POLICY);
+  const [lastActivityAt, setLastActivityAt] = useState(() => Date.now());
+  const [lastAnalysisAt, setLastAnalysisAt] = useState(() => Date.now());
+  const [analysisClock, setAnalysisClock] = useState(() => Date.now());
+  // Usage totals of the shown session, and the spend at which auto-analysis stops (0 = no cap)
+  const [sessionMetrics, setSessionMetrics] = useState<SessionMetrics>(EMPTY_SESSION_METRICS);
+  const [budgetUsd, setBudgetUsd] = useState(0);
+  // How much of each segment's text the organizer has already seen
+  const [organizedOffsets, setOrganizedOffsets] = useState<OrganizedOffsets>({});
+  // Transcript corrections, oldest first; the last one can be undone
+  const [transcriptEdits, setTranscriptEdits] = useState<TranscriptEdit[]>([]);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [regeneratingNoteId, setRegeneratingNoteId] = useState<string | null>(null);
+  const [notesView, setNotesView] = useState<'notes' | 'tasks' | 'search' | 'ask'>('notes');
+  // Ask-the-meeting Q&A; never touches the live conversation or the analysis buffer
+  const [chatMessages, setChatMessages] = useState<MeetingChatMessage[]>([]);
+  const [isAnswering, setIsAnswering] = useState(false);
+  // Segment or note a search result jumped to, with the terms to highlight in it
+  const [searchHighlight, setSearchHighlight] = useState<{ targetId: string; terms: string[] } | null>(null);
+  // Meeting Summary mode keeps one evolving summary above the per-buffer note timeline
+  const [isSummaryMode, setIsSummaryMode] = useState(true);
+  const [meetingSummary, setMeetingSummary] = useState<MeetingSummary | null>(null);
+  const [isUpdatingSummary, setIsUpdatingSummary] = useState(false);
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
   const [systemAudioEnabled, setSystemAudioEnabled] = useState(false);
   const [talkbackEnabled, setTalkbackEnabled] = useState(true);
   const [localError, setLocalError] = useState<string | null>(null);
   const [isHighContrast, setIsHighContrast] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [manualInput, setManualInput] = useState("");
+  // Set after an import to offer re-running the organizer over the full transcript
+  const [showReanalyzeOffer, setShowReanalyzeOffer] = useState(false);
+  // Recordings finished by the live hook, waiting to be attached to the active session
+  const [finishedRecordings, setFinishedRecordings] = useState<SessionRecording[]>([]);
   
   // Audio Config State
   const [audioConfig, setAudioConfig] = useState<AudioConfig>({
@@ -76,35 +157,320 @@ export default function App() {
       noiseGateThreshold: 0.01
   });
 
+  const audioDevices = useAudioDevices();
+  const sourceGains = audioConfig.sourceGains ?? DEFAULT_SOURCE_GAINS;
+
+  // Organizer backend; transcripts only leave the machine for the backend chosen here
+  const [organizerConfig, setOrganizerConfig] = useState<OrganizerConfig>({
+      backend: 'gemini',
+      model: DEFAULT_GEMINI_MODEL
+  });
+  const recordUsage = useCallback((delta: Partial<SessionMetrics>) => {
+    setSessionMetrics(prev => addMetrics(prev, delta));
+  }, []);
+  const recordOrganizerCall = useCallback(
+    (call: OrganizerCallMetrics) => recordUsage(organizerCallMetrics(call.latencyMs, call.usage)),
+    [recordUsage]
+  );
+  const organizer = useMemo(
+    () => createOrganizerProvider(organizerConfig, process.env.API_KEY, recordOrganizerCall),
+    [organizerConfig, recordOrganizerCall]
+  );
+
+  // Live model persona, languages, voice and reply mode; stored with the session
+  const [assistantConfig, setAssistantConfig] = useState<LiveAssistantConfig>(DEFAULT_LIVE_ASSISTANT);
+  // The model's voice is only heard when it is asked to speak
+  const isTalkbackActive = talkbackEnabled && assistantConfig.responseMode === 'audio';
+
+  // Team names and terms; taught to both models and used to correct the transcript
+  const { glossary, glossaryError, saveTerm, deleteTerm } = useGlossary();
+
+  // Live session backend; LIVE_MOCK_URL points at the scripted local server (`npm run mock-live`)
+  const liveTransport = useMemo(() => {
+    if (process.env.LIVE_MOCK_URL) return createWebSocketLiveTransport(process.env.LIVE_MOCK_URL);
+    return process.env.API_KEY ? createGeminiLiveTransport(process.env.API_KEY, assistantConfig, glossary) : null;
+  }, [assistantConfig, glossary]);
+
   const scrollRef = useRef<HTMLDivElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+
+  // Organized text plus text already handed to a queued job; the live glossary leaves it as it is
+  const claimed = useMemo(() => claimedOffsets(organizedOffsets, analysisJobs), [organizedOffsets, analysisJobs]);
 
   // --- Hook ---
-  // The core logic for Gemini Live is encapsulated in this hook.
+  // The core logic for the live session is encapsulated in this hook.
   const { 
     status, 
     segments, 
-    currentTranscriptBuffer, 
     analyser, 
     errorMessage, 
     isReconnecting, // Status flag for auto-retry
+    reconnectAttempt,
     connect, 
+    transcribeFile,
+    fileProgress,
     disconnect, 
-    setCurrentTranscriptBuffer,
+    setSegments,
     isMicOn,
     toggleMic,
+    isSystemMuted,
+    toggleSystemMute,
+    sourceAnalysers,
+    isSpeechDetected,
+    playbackVolume,
+    setPlaybackVolume,
+    playbackRate,
+    setPlaybackRate,
+    replayableTurnIds,
+    replayTurn,
     sendTextMessage
   } = useGeminiLive({ 
     apiKey: process.env.API_KEY, 
+    transport: liveTransport,
     systemAudioEnabled,
-    talkbackEnabled,
-    audioConfig
+    talkbackEnabled: isTalkbackActive,
+    audioConfig,
+    availableInputs: audioDevices.inputs,
+    glossary,
+    claimedOffsets: claimed,
+    onMetrics: recordUsage,
+    onRecordingComplete: useCallback((recording: SessionRecording) => {
+      setFinishedRecordings(prev => [...prev, recording]);
+    }, [])
   });
 
+  // --- Note Templates ---
+  const { templates, templateError, clearTemplateError, saveTemplate, deleteTemplate } = useNoteTemplates();
+  const activeTemplate = findTemplate(templates, templateId);
+
+  // --- Session Library ---
+  // Mirrors the live segments and notes into IndexedDB so nothing is lost on reload.
+  const {
+    sessions,
+    activeSession,
+    storageError,
+    clearStorageError,
+    beginSession,
+    endSession,
+    openSession,
+    importSession,
+    closeSession,
+    attachRecording,
+    renameSession,
+    deleteSession
+  } = useSessionLibrary({ segments, notes, audioConfig, speakerNames, meetingSummary, assistantConfig, transcriptEdits, metrics: sessionMetrics });
+
+  // --- Search ---
+  // Semantic search embeds transcripts, so it is only offered when the organizer already uses Gemini
+  const embeddingProvider = useMemo(
+    () => (organizerConfig.backend === 'gemini' && process.env.API_KEY ? createGeminiEmbeddingProvider(process.env.API_KEY) : null),
+    [organizerConfig.backend]
+  );
+  const search = useSearch({ sessions, embeddingProvider });
+
+  const { playSegment, playingSegmentId, playbackError, clearPlaybackError } = useRecordingPlayback();
+
+  useEffect(() => {
+    if (finishedRecordings.length === 0) return;
+    finishedRecordings.forEach(recording => attachRecording(recording));
+    setFinishedRecordings([]);
+  }, [finishedRecordings, attachRecording]);
+
+  const isSessionLive = status !== StreamStatus.DISCONNECTED && status !== StreamStatus.ERROR;
+
+  // Device labels are hidden until mic permission is granted, so list them again once connected
+  const refreshDevices = audioDevices.refresh;
+  useEffect(() => {
+    if (status === StreamStatus.CONNECTED) refreshDevices();
+  }, [status, refreshDevices]);
+
+  const selectedMicLabel = audioDevices.inputs.find(d => d.deviceId === audioConfig.micDeviceId)?.label
+    ?? (audioConfig.micDeviceId ? "Microphone (Disconnected)" : "Microphone (Default)");
+
   // Sync hook errors to local state for dismissal
   useEffect(() => {
     if (errorMessage) setLocalError(errorMessage);
   }, [errorMessage]);
 
+  useEffect(() => {
+    if (storageError) setLocalError(storageError);
+  }, [storageError]);
+
+  useEffect(() => {
+    if (playbackError) setLocalError(playbackError);
+  }, [playbackError]);
+
+  // Clearing the sources lets the same storage or playback error show again if it recurs
+  const handleDismissError = () => {
+    setLocalError(null);
+    clearStorageError();
+    clearPlaybackError();
+  };
+
+  const handleStartSession = () => {
+    const sessionId = beginSession();
+    setLastAnalysisAt(Date.now());
+    connect(sessionId);
+    playFeedback('on');
+  };
+
+  const handleImportRecording = (file: File) => {
+    beginSession();
+    transcribeFile(file);
+    playFeedback('on');
+  };
+
+  const handleEndSession = () => {
+    disconnect();
+    playFeedback('off');
+  };
+
+  // Stamp the end time whenever the live connection goes down, whether the user
+  // ended it or the server closed it.
+  const wasLiveRef = useRef(false);
+  useEffect(() => {
+    if (isSessionLive) {
+      wasLiveRef.current = true;
+    } else if (wasLiveRef.current) {
+      wasLiveRef.current = false;
+      endSession();
+    }
+  }, [isSessionLive, endSession]);
+
+  /**
+   * Replaces everything in the feed and notes panel with a stored session,
+   * or clears it when given null.
+   */
+  const showSession = (session: Session | null) => {
+    setSegments(session?.segments ?? []);
+    setNotes(session?.notes ?? []);
+    setSpeakerNames(session?.speakerNames ?? {});
+    setMeetingSummary(session?.meetingSummary ?? null);
+    setSearchHighlight(null);
+    setChatMessages([]);
+    setEditingSegmentId(null);
+    // Device choice and mix are preferences of this machine, not of the session
+    if (session) setAudioConfig(prev => ({ ...session.audioConfig, micDeviceId: prev.micDeviceId, sourceGains: prev.sourceGains }));
+    if (session) setAssistantConfig(session.assistantConfig ?? DEFAULT_LIVE_ASSISTANT);
+    setTranscriptEdits(session?.transcriptEdits ?? []);
+    setSessionMetrics(session?.metrics ?? EMPTY_SESSION_METRICS);
+    // A stored session's notes already cover its transcript
+    setOrganizedOffsets(markAllOrganized(session?.segments ?? []));
+    setAnalysisJobs(cancelAllAnalysisJobs);
+    setLastAnalysisAt(Date.now());
+  };
+
+  const handleOpenSession = async (id: string) => {
+    const session = await openSession(id);
+    if (!session) return;
+    setShowReanalyzeOffer(false);
+    showSession(session);
+    playFeedback('click');
+  };
+
+  /**
+   * Loads an exported session JSON into the library and the feed.
+   * Works fully offline; re-analysis is offered separately.
+   */
+  const handleImportFile = async (file: File) => {
+    let parsed: Session;
+    try {
+      parsed = parseSessionFile(await file.text());
+    } catch (e) {
+      setLocalError(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    const session = await importSession(parsed);
+    if (!session) return;
+    showSession(session);
+    setShowReanalyzeOffer(session.segments.length > 0);
+    playFeedback('success');
+  };
+
+  /**
+   * Re-runs the organizer over the whole transcript with the current prompt,
+   * replacing the notes that came with the imported file.
+   */
+  const handleReanalyzeSession = async () => {
+    if (!organizer) return;
+    setShowReanalyzeOffer(false);
+    setIsProcessingNotes(true);
+    // The whole transcript is covered here; queued runs would only duplicate it
+    setAnalysisJobs(cancelAllAnalysisJobs);
+    const fullTranscript = formatAttributedTranscript(segments, speakerNames);
+    const [note, summary] = await Promise.all([
+      organizeTranscript(fullTranscript, organizer, activeTemplate, glossary),
+      isSummaryMode ? updateMeetingSummary(null, fullTranscript, organizer) : Promise.resolve(null)
+    ]);
+    if (note) {
+      setNotes([{ ...note, segmentIds: segments.map(s => s.id) }]);
+      setOrganizedOffsets(markAllOrganized(segments));
+      if (summary) setMeetingSummary(summary);
+      playFeedback('success');
+    } else {
+      setLocalError("Re-analysis failed. The original notes were kept.");
+    }
+    setIsProcessingNotes(false);
+  };
+
+  const handleNewSession = () => {
+    setShowReanalyzeOffer(false);
+    closeSession();
+    showSession(null);
+    playFeedback('click');
+  };
+
+  /**
+   * Snapshot of what is currently on screen, used for exports.
+   * Falls back to an unsaved placeholder when no library session is active.
+   */
+  const currentSession = useMemo<Session>(() => ({
+    id: activeSession?.id ?? 'unsaved',
+    name: activeSession?.name ?? 'VibeNote Session',
+    startedAt: activeSession?.startedAt ?? segments[0]?.timestamp ?? new Date(),
+    endedAt: activeSession?.endedAt,
+    segments,
+    notes,
+    audioConfig,
+    speakerNames,
+    meetingSummary: meetingSummary ?? undefined,
+    assistantConfig,
+    transcriptEdits,
+    metrics: sessionMetrics
+  }), [activeSession, segments, notes, audioConfig, speakerNames, meetingSummary, assistantConfig, transcriptEdits, sessionMetrics]);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadSession(currentSession, format);
+    playFeedback('success');
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    const wasActive = activeSession?.id === id;
+    await deleteSession(id);
+    if (wasActive) showSession(null);
+  };
+
+  // Distinct diarized labels in order of first appearance
+  const speakerLabels = useMemo(() => {
+    return Array.from(new Set(segments.map(s => s.speaker).filter((l): l is string => !!l)));
+  }, [segments]);
+
+  /**
+   * Runs the optional speaker-labelling pass and tags each user segment with Speaker A/B/C.
+   */
+  const handleLabelSpeakers = async () => {
+    if (!organizer) return;
+    setIsLabellingSpeakers(true);
+    const labels = await labelSpeakers(segments, organizer);
+    if (labels) {
+      setSegments(prev => prev.map(s => (labels[s.id] ? { ...s, speaker: labels[s.id] } : s)));
+      playFeedback('success');
+    } else {
+      setLocalError("Speaker identification failed.");
+    }
+    setIsLabellingSpeakers(false);
+  };
+
   const scrollToBottom = () => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -115,33 +481,223 @@ export default function App() {
     scrollToBottom();
   }, [segments]);
 
+  // Bring a search hit into view once its session is loaded (runs after the autoscroll above)
+  useEffect(() => {
+    if (!searchHighlight) return;
+    document.getElementById(`search-target-${searchHighlight.targetId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [searchHighlight, segments, notes]);
+
+  /**
+   * Answers a question from the current session's transcript and notes.
+   */
+  const handleAskMeeting = async (question: string) => {
+    const asked: MeetingChatMessage = { id: `chat-${Date.now()}`, role: 'user', text: question, timestamp: new Date().toISOString() };
+    const history = chatMessages;
+    setChatMessages(prev => [...prev, asked]);
+    setIsAnswering(true);
+
+    const result = await askMeeting(question, segments, notes, speakerNames, history, organizer);
+    setChatMessages(prev => [...prev, {
+      id: `chat-${Date.now()}`,
+      role: 'assistant',
+      text: result?.answer ?? "Sorry, I couldn't answer that. Please try again.",
+      citations: result?.citations,
+      timestamp: new Date().toISOString(),
+    }]);
+    setIsAnswering(false);
+  };
+
+  /**
+   * Opens the session a search result belongs to and jumps to the matching segment or note.
+   */
+  const handleSearchResult = async (result: SearchResult) => {
+    const { document } = result;
+    if (document.sessionId !== activeSession?.id) {
+      if (isSessionLive) {
+        setLocalError("Stop the live session before opening another one.");
+        return;
+      }
+      await handleOpenSession(document.sessionId);
+    }
+    if (document.kind === 'note') setNotesView('notes');
+    setSearchHighlight({ targetId: document.targetId, terms: result.terms });
+  };
+
+  // Transcript no note or queued job covers yet, built from the (possibly corrected) segments
+  const pendingTranscript = useMemo(
+    () => getPendingTranscript(segments, claimed, speakerNames),
+    [segments, claimed, speakerNames]
+  );
+
   /**
    * "Ping Pong" Buffer Logic:
-   * 1. Takes the current accumulated buffer.
-   * 2. Sends it to Gemini Flash for summarization.
-   * 3. Clears the buffer (resets for new input).
+   * 1. Snapshots a stretch of transcript no job covers into a queued job.
+   * 2. The queue sends jobs to the organizer model one at a time.
+   * 3. A landed note marks exactly its snapshot as organized.
    */
-  const handleGenerateInsight = useCallback(async () => {
-    if (!process.env.API_KEY) return;
-    if (currentTranscriptBuffer.length < 10) return;
+  const enqueueAnalysis = useCallback((pending: PendingTranscript, trigger: AnalysisTrigger | 'manual') => {
+    if (pending.text.length < 10) return;
+    setAnalysisJobs(prev => [...prev, createAnalysisJob(pending, trigger)]);
+    setLastAnalysisAt(Date.now());
+  }, []);
 
-    playFeedback('click');
-    setIsProcessingNotes(true);
-    const note = await organizeTranscript(currentTranscriptBuffer, process.env.API_KEY);
-    if (note) {
-      setNotes(prev => [note, ...prev]);
-      setCurrentTranscriptBuffer(""); 
+  // Read when a request settles, to see whether the job was cancelled meanwhile
+  const jobsRef = useRef(analysisJobs);
+  useEffect(() => {
+    jobsRef.current = analysisJobs;
+  }, [analysisJobs]);
+
+  const runAnalysisJob = useCallback(async (job: AnalysisJob) => {
+    if (!organizer) return;
+    let note: OrganizedNote;
+    try {
+      note = await requestOrganizedNote(job.transcript, organizer, activeTemplate, glossary);
+    } catch (error) {
+      console.error("Error organizing notes:", error);
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = isRetryableOrganizerError(error);
+      const now = Date.now();
+      setAnalysisJobs(prev => prev.flatMap(j => {
+        if (j.id !== job.id) return [j];
+        return j.stale ? [] : [failAnalysisJob(j, message, retryable, now)];
+      }));
+      return;
+    }
+
+    const current = jobsRef.current.find(j => j.id === job.id);
+    if (current && !current.stale) {
+      setNotes(prev => [{ ...note, segmentIds: job.segmentIds }, ...prev]);
+      setOrganizedOffsets(prev => completeJobOffsets(prev, job));
       playFeedback('success');
+
+      // The rolling summary takes each buffer once, after its note has landed, so a
+      // retried job is never merged twice. The job holds the queue until it is done.
+      if (isSummaryMode) {
+        setIsUpdatingSummary(true);
+        const summary = await updateMeetingSummary(meetingSummary, job.transcript, organizer);
+        if (summary) setMeetingSummary(summary);
+        setIsUpdatingSummary(false);
+      }
     }
-    setIsProcessingNotes(false);
-  }, [currentTranscriptBuffer, setCurrentTranscriptBuffer]);
-  
-  // Auto-trigger insight generation when threshold is reached
+    setAnalysisJobs(prev => prev.filter(j => j.id !== job.id));
+  }, [isSummaryMode, meetingSummary, activeTemplate, organizer, glossary]);
+
+  const sessionCost = useMemo(
+    () => estimateCost(sessionMetrics, ORGANIZER_PRICING[organizerConfig.backend]),
+    [sessionMetrics, organizerConfig.backend]
+  );
+  const isBudgetReached = isOverBudget(sessionCost, budgetUsd);
+
+  // Start the head job whenever it is free to run. Once the budget is reached, automatic
+  // jobs already in the queue (retries included) wait too; manual ones still run.
   useEffect(() => {
-    if (currentTranscriptBuffer.length >= AUTO_ANALYZE_THRESHOLD && !isProcessingNotes) {
-      handleGenerateInsight();
+    const job = nextRunnableJob(analysisJobs, Date.now(), isBudgetReached);
+    if (!job || !organizer) return;
+    playFeedback('click');
+    setAnalysisJobs(prev => startAnalysisJob(prev, job.id));
+    runAnalysisJob(job);
+  }, [analysisJobs, analysisClock, organizer, runAnalysisJob, isBudgetReached]);
+
+  // Wake up when the head job's retry is due
+  useEffect(() => {
+    const head = analysisJobs[0];
+    if (head?.status !== 'waiting' || head.retryAt === undefined) return;
+    const timer = setTimeout(() => setAnalysisClock(Date.now()), Math.max(0, head.retryAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [analysisJobs]);
+
+  const handleGenerateInsight = () => enqueueAnalysis(pendingTranscript, 'manual');
+
+  const handleCancelAnalysisJob = (id: string) => {
+    setAnalysisJobs(prev => cancelAnalysisJob(prev, id));
+    setAutoAnalysisHeldAt(Date.now());
+  };
+
+  const handleRetryAnalysisJob = (id: string) => {
+    setAnalysisJobs(prev => retryAnalysisJob(prev, id));
+  };
+
+  const runningJob = analysisJobs.find(job => job.status === 'running' && !job.stale);
+
+  // Silence is measured from the last change to the transcript text
+  const transcriptLength = useMemo(() => segments.reduce((sum, s) => sum + s.text.length, 0), [segments]);
+  useEffect(() => {
+    setLastActivityAt(Date.now());
+  }, [transcriptLength]);
+
+  // Wake up when the next silence or interval deadline passes; other triggers follow the transcript
+  useEffect(() => {
+    const now = Date.now();
+    const deadlines = [
+      analysisPolicy.silenceMs > 0 ? lastActivityAt + analysisPolicy.silenceMs : Infinity,
+      analysisPolicy.intervalMs > 0 ? lastAnalysisAt + analysisPolicy.intervalMs : Infinity,
+    ].filter(deadline => deadline > now);
+    if (deadlines.length === 0) return;
+    const timer = setTimeout(() => setAnalysisClock(Date.now()), Math.min(...deadlines) - now);
+    return () => clearTimeout(timer);
+  }, [lastActivityAt, lastAnalysisAt, analysisPolicy, analysisClock]);
+
+  const analysisDecision = useMemo(
+    () => decideAnalysis(segments, claimed, speakerNames, analysisPolicy, { now: analysisClock, lastActivityAt, lastAnalysisAt }),
+    [segments, claimed, speakerNames, analysisPolicy, analysisClock, lastActivityAt, lastAnalysisAt]
+  );
+
+  // Auto-queue insight generation when the policy says so. A failed job holds the
+  // queue, so nothing more is queued behind it until it is retried or discarded.
+  const isQueueBlocked = analysisJobs.some(job => job.status === 'failed');
+  useEffect(() => {
+    if (!analysisDecision || !organizer || isProcessingNotes || isQueueBlocked || isBudgetReached) return;
+    if (lastActivityAt <= autoAnalysisHeldAt) return;
+    enqueueAnalysis(analysisDecision.pending, analysisDecision.trigger);
+  }, [analysisDecision, organizer, isProcessingNotes, isQueueBlocked, isBudgetReached, lastActivityAt, autoAnalysisHeldAt, enqueueAnalysis]);
+
+  /**
+   * Applies a transcript correction: notes written from the replaced segments are
+   * flagged outdated, and corrected text the organizer has not seen stays pending.
+   */
+  const applyTranscriptEdit = (result: TranscriptEditResult | null) => {
+    setEditingSegmentId(null);
+    if (!result) return;
+    const { edit } = result;
+    const after = result.segments.filter(s => edit.afterIds.includes(s.id));
+    setSegments(result.segments);
+    setNotes(prev => flagOutdatedNotes(prev, edit.before.map(s => s.id), edit.afterIds));
+    setOrganizedOffsets(prev => remapOrganizedOffsets(prev, edit.before, after));
+    setAnalysisJobs(prev => cancelJobsForSegments(prev, edit.before.map(s => s.id)));
+    setTranscriptEdits(prev => [...prev, edit]);
+    playFeedback('click');
+  };
+
+  const handleUndoTranscriptEdit = () => {
+    const edit = transcriptEdits[transcriptEdits.length - 1];
+    if (!edit) return;
+    const after = segments.filter(s => edit.afterIds.includes(s.id));
+    setSegments(undoEdit(segments, edit));
+    setNotes(prev => flagOutdatedNotes(prev, edit.afterIds, edit.before.map(s => s.id)));
+    setOrganizedOffsets(prev => remapOrganizedOffsets(prev, after, edit.before));
+    setAnalysisJobs(prev => cancelJobsForSegments(prev, edit.afterIds));
+    setTranscriptEdits(prev => prev.slice(0, -1));
+    playFeedback('click');
+  };
+
+  /**
+   * Rewrites an outdated note from the corrected text of the segments it came from.
+   * The note keeps its place and time in the timeline.
+   */
+  const handleRegenerateNote = async (note: OrganizedNote) => {
+    if (!organizer || !note.segmentIds) return;
+    const ids = new Set(note.segmentIds);
+    const transcript = formatAttributedTranscript(segments.filter(s => ids.has(s.id)), speakerNames);
+    setRegeneratingNoteId(note.id);
+    const regenerated = await organizeTranscript(transcript, organizer, findTemplate(templates, note.templateId), glossary);
+    if (regenerated) {
+      setNotes(prev => prev.map(n => (n.id === note.id ? { ...regenerated, timestamp: note.timestamp, segmentIds: note.segmentIds } : n)));
+      playFeedback('success');
+    } else {
+      setLocalError("Regenerating the note failed. The outdated note was kept.");
     }
-  }, [currentTranscriptBuffer, isProcessingNotes, handleGenerateInsight]);
+    setRegeneratingNoteId(null);
+  };
 
   // Aggregate stats for the bar chart
   const chartData = useMemo(() => {
@@ -157,6 +713,15 @@ export default function App() {
       .slice(0, 5);
   }, [notes]);
 
+  const handleSetTaskStatus = (itemIds: string[], status: ActionItem['status']) => {
+    setNotes(prev => setActionItemStatus(prev, itemIds, status));
+    playFeedback('click');
+  };
+
+  const handleToggleActionItem = (item: ActionItem) => {
+    handleSetTaskStatus([item.id], item.status === 'done' ? 'open' : 'done');
+  };
+
   const handleManualSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       if (!manualInput.trim()) return;
@@ -230,7 +795,7 @@ export default function App() {
             {isReconnecting && (
                  <div role="status" className="p-3 bg-yellow-900/30 border border-yellow-500 text-yellow-200 rounded-lg text-sm flex items-center gap-2 animate-pulse">
                     <Loader2 size={16} className="animate-spin" />
-                    <span>Connection lost. Retrying...</span>
+                    <span>Connection lost. Retrying ({reconnectAttempt}/{MAX_RECONNECT_ATTEMPTS}), still capturing audio...</span>
                  </div>
             )}
             
@@ -238,7 +803,7 @@ export default function App() {
               <div role="alert" className="p-3 bg-red-900/30 border border-red-500 text-red-200 rounded-lg text-sm flex items-start gap-2">
                 <AlertCircle size={16} className="mt-0.5 shrink-0" aria-hidden="true" />
                 <span className="flex-1">{localError}</span>
-                <button onClick={() => setLocalError(null)} aria-label="Dismiss error">
+                <button onClick={handleDismissError} aria-label="Dismiss error">
                   <X size={16} />
                 </button>
               </div>
@@ -246,29 +811,57 @@ export default function App() {
 
             {status === StreamStatus.DISCONNECTED || status === StreamStatus.ERROR ? (
               <button 
-                onClick={() => { connect(); playFeedback('on'); }}
+                onClick={handleStartSession}
                 className={`w-full py-3 px-4 rounded-lg font-bold transition-all flex items-center justify-center gap-2 focus-visible:ring-4 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 focus-visible:outline-none ${theme.button}`}
               >
                 <Play size={18} fill="currentColor" aria-hidden="true" /> Start Session
               </button>
             ) : (
               <button 
-                onClick={() => { disconnect(); playFeedback('off'); }}
+                onClick={handleEndSession}
                 className="w-full py-3 px-4 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition-all flex items-center justify-center gap-2 focus-visible:ring-4 focus-visible:ring-offset-2 focus-visible:ring-red-500 focus-visible:outline-none"
               >
                 <Square size={18} fill="currentColor" aria-hidden="true" /> End Session
               </button>
             )}
 
+            <button 
+                onClick={() => recordingInputRef.current?.click()}
+                disabled={isSessionLive}
+                className={`w-full py-2 px-3 text-sm rounded-md border flex items-center gap-2 transition-colors focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:outline-none disabled:opacity-50 ${theme.buttonSecondary}`}
+            >
+                <FileAudio size={16} aria-hidden="true" /> Import Recording
+            </button>
+            <input
+                ref={recordingInputRef}
+                type="file"
+                accept="audio/*,.wav,.mp3,.webm,.m4a,.ogg"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportRecording(file);
+                    e.target.value = "";
+                }}
+            />
+
+            {fileProgress !== null && (
+                <div className="space-y-1" role="status">
+                    <div className={`text-xs font-mono ${theme.subText}`}>Transcribing recording... {Math.round(fileProgress * 100)}%</div>
+                    <div className="h-1 w-full bg-zinc-800 rounded">
+                        <div className={`h-full rounded ${isHighContrast ? 'bg-yellow-400' : 'bg-indigo-500'}`} style={{ width: `${fileProgress * 100}%` }} />
+                    </div>
+                </div>
+            )}
+
             <button 
                 onClick={() => { toggleMic(); playFeedback('click'); }}
-                title="Uses System Default Microphone"
+                title={selectedMicLabel}
                 className={`w-full py-2 px-3 text-sm rounded-md border flex items-center justify-between transition-colors focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:outline-none ${theme.buttonSecondary}`}
                 aria-pressed={isMicOn}
             >
                 <span className="flex items-center gap-2">
                     {isMicOn ? <Mic size={16} aria-hidden="true"/> : <MicOff size={16} aria-hidden="true" />} 
-                    Microphone (Default)
+                    <span className="truncate">{selectedMicLabel}</span>
                 </span>
                 <span className={`w-3 h-3 rounded-full border border-white ${isMicOn ? 'bg-emerald-500' : 'bg-red-500'}`} aria-label={isMicOn ? "Microphone On" : "Microphone Off"}></span>
             </button>
@@ -283,9 +876,27 @@ export default function App() {
                 <span className={`w-3 h-3 rounded-full border border-white ${systemAudioEnabled ? theme.accentBg : 'bg-zinc-600'}`} aria-label={systemAudioEnabled ? "System Audio Enabled" : "System Audio Disabled"}></span>
             </button>
 
+            <SourceMixer
+                inputs={audioDevices.inputs}
+                micDeviceId={audioConfig.micDeviceId}
+                onSelectDevice={(micDeviceId) => setAudioConfig(prev => ({ ...prev, micDeviceId }))}
+                gains={sourceGains}
+                onGainChange={(source, gain) => setAudioConfig(prev => ({
+                    ...prev,
+                    sourceGains: { ...(prev.sourceGains ?? DEFAULT_SOURCE_GAINS), [source]: clampGain(gain) }
+                }))}
+                systemAudioEnabled={systemAudioEnabled}
+                isSystemMuted={isSystemMuted}
+                onToggleSystemMute={toggleSystemMute}
+                analysers={sourceAnalysers}
+                highContrast={isHighContrast}
+            />
+
             <button 
                 onClick={() => { setTalkbackEnabled(!talkbackEnabled); playFeedback('click'); }}
-                className={`w-full py-2 px-3 text-sm rounded-md border flex items-center justify-between transition-colors focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:outline-none ${theme.buttonSecondary}`}
+                disabled={assistantConfig.responseMode !== 'audio'}
+                title={assistantConfig.responseMode !== 'audio' ? "The live assistant is set not to speak" : undefined}
+                className={`w-full py-2 px-3 text-sm rounded-md border flex items-center justify-between transition-colors focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:outline-none disabled:opacity-50 ${theme.buttonSecondary}`}
                 aria-pressed={talkbackEnabled}
             >
                 <span className="flex items-center gap-2">
@@ -296,8 +907,83 @@ export default function App() {
                     <div className={`w-3 h-3 bg-white rounded-full shadow-sm transition-transform ${talkbackEnabled ? 'translate-x-4' : 'translate-x-0'}`} />
                 </div>
             </button>
+            {isTalkbackActive && (
+                <div className="grid grid-cols-2 gap-3 px-1">
+                    <div className="space-y-1">
+                        <div className={`flex justify-between text-[10px] ${theme.subText}`}>
+                            <label htmlFor="talkback-volume">Volume</label>
+                            <span className="font-mono">{Math.round(playbackVolume * 100)}%</span>
+                        </div>
+                        <input
+                            id="talkback-volume"
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={playbackVolume}
+                            onChange={(e) => setPlaybackVolume(parseFloat(e.target.value))}
+                            className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <div className={`flex justify-between text-[10px] ${theme.subText}`}>
+                            <label htmlFor="talkback-rate">Speed</label>
+                            <span className="font-mono">{playbackRate.toFixed(2)}x</span>
+                        </div>
+                        <input
+                            id="talkback-rate"
+                            type="range"
+                            min={MIN_PLAYBACK_RATE}
+                            max={MAX_PLAYBACK_RATE}
+                            step="0.25"
+                            value={playbackRate}
+                            onChange={(e) => setPlaybackRate(parseFloat(e.target.value))}
+                            className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                        />
+                    </div>
+                </div>
+            )}
           </section>
 
+          <SessionList
+            sessions={sessions}
+            activeSessionId={activeSession?.id ?? null}
+            locked={isSessionLive}
+            onOpen={handleOpenSession}
+            onRename={renameSession}
+            onDelete={handleDeleteSession}
+            onNew={handleNewSession}
+            onImport={handleImportFile}
+            highContrast={isHighContrast}
+          />
+
+          <TemplateManager
+            templates={templates}
+            selectedId={activeTemplate.id}
+            onSelect={(id) => { setTemplateId(id); clearTemplateError(); }}
+            onSave={saveTemplate}
+            onDelete={(id) => { deleteTemplate(id); setTemplateId(DEFAULT_TEMPLATE_ID); }}
+            error={templateError}
+            highContrast={isHighContrast}
+          />
+
+          <GlossaryManager
+            glossary={glossary}
+            onSave={saveTerm}
+            onDelete={deleteTerm}
+            error={glossaryError}
+            highContrast={isHighContrast}
+          />
+
+          {speakerLabels.length > 0 && (
+            <SpeakerList
+              labels={speakerLabels}
+              names={speakerNames}
+              onRename={(label, name) => setSpeakerNames(prev => ({ ...prev, [label]: name }))}
+              highContrast={isHighContrast}
+            />
+          )}
+
           {showSettings && (
              <section aria-labelledby="settings-heading" className={`p-4 rounded-lg space-y-4 border ${theme.border} ${isHighContrast ? 'bg-zinc-900' : 'bg-zinc-900/50'}`}>
                 <h2 id="settings-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${theme.subText}`}>
@@ -324,7 +1010,7 @@ export default function App() {
 
                 <div className="space-y-2">
                    <div className="flex justify-between">
-                       <label htmlFor="noise-gate" className={`text-xs block ${theme.subText}`}>Noise Gate (Sensitivity)</label>
+                       <label htmlFor="noise-gate" className={`text-xs block ${theme.subText}`}>Voice Detection (Sensitivity)</label>
                        <span className="text-xs font-mono">{Math.round((1 - audioConfig.noiseGateThreshold / 0.05) * 100)}%</span>
                    </div>
                    <input 
@@ -336,16 +1022,62 @@ export default function App() {
                       value={audioConfig.noiseGateThreshold}
                       onChange={(e) => setAudioConfig(prev => ({ ...prev, noiseGateThreshold: parseFloat(e.target.value) }))}
                       className="w-full h-2 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
-                      aria-label="Adjust noise gate threshold"
+                      aria-label="Adjust minimum speech level"
                    />
                    <div className="flex justify-between text-[10px] opacity-60">
                        <span>Sensitive</span>
                        <span>Strict</span>
                    </div>
+                   {status === StreamStatus.CONNECTED && (
+                      <div className="flex items-center gap-2 text-xs" role="status" aria-live="polite">
+                          <span
+                             className={`w-2 h-2 rounded-full ${isSpeechDetected ? (isHighContrast ? 'bg-yellow-400' : 'bg-emerald-500') : 'bg-zinc-600'}`}
+                             aria-hidden="true"
+                          />
+                          <span className={theme.subText}>{isSpeechDetected ? 'Speech detected' : 'No speech'}</span>
+                      </div>
+                   )}
                 </div>
+
+                <button
+                   onClick={() => setAudioConfig(prev => ({ ...prev, skipSilence: !prev.skipSilence }))}
+                   className={`w-full py-2 px-3 text-xs rounded-md border flex items-center justify-between transition-colors focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:outline-none ${theme.buttonSecondary}`}
+                   aria-pressed={!!audioConfig.skipSilence}
+                   title="Only stream audio while someone is speaking, saving bandwidth and tokens"
+                >
+                    <span>Skip Silent Audio</span>
+                    <div className={`w-8 h-4 rounded-full p-0.5 transition-colors ${audioConfig.skipSilence ? 'bg-emerald-500' : 'bg-zinc-600'}`}>
+                        <div className={`w-3 h-3 bg-white rounded-full shadow-sm transition-transform ${audioConfig.skipSilence ? 'translate-x-4' : 'translate-x-0'}`} />
+                    </div>
+                </button>
              </section>
           )}
 
+          {showSettings && (
+             <AssistantSettings
+                config={assistantConfig}
+                onChange={setAssistantConfig}
+                highContrast={isHighContrast}
+             />
+          )}
+
+          {showSettings && (
+             <AnalysisSettings
+                policy={analysisPolicy}
+                onChange={setAnalysisPolicy}
+                highContrast={isHighContrast}
+             />
+          )}
+
+          {showSettings && (
+             <OrganizerSettings
+                config={organizerConfig}
+                onChange={setOrganizerConfig}
+                isConfigured={organizer !== null}
+                highContrast={isHighContrast}
+             />
+          )}
+
           <section aria-labelledby="signal-heading" className="space-y-2">
             <h2 id="signal-heading" className={`text-xs font-bold uppercase tracking-wider flex justify-between ${theme.subText}`}>
               Signal Processing
@@ -392,6 +1124,15 @@ export default function App() {
               </div>
              </section>
           )}
+
+          <MetricsPanel
+             metrics={sessionMetrics}
+             cost={sessionCost}
+             budgetUsd={budgetUsd}
+             onBudgetChange={setBudgetUsd}
+             isOverBudget={isBudgetReached}
+             highContrast={isHighContrast}
+          />
         </div>
       </nav>
 
@@ -403,10 +1144,37 @@ export default function App() {
             <header className={`h-16 border-b ${theme.border} flex items-center justify-between px-6 bg-opacity-90 backdrop-blur-md sticky top-0 z-10 ${theme.bg}`}>
                 <div className={`flex items-center gap-2 text-sm font-bold ${theme.text}`}>
                     <Radio size={18} className={status === StreamStatus.CONNECTED ? "text-red-500 animate-pulse" : "text-zinc-600"} aria-hidden="true" />
-                    <h2>Live Transcript</h2>
+                    <h2>{activeSession ? activeSession.name : 'Live Transcript'}</h2>
                 </div>
-                <div className={`text-xs font-mono ${theme.subText}`}>
-                    {segments.length} segments
+                <div className="flex items-center gap-3">
+                    <span className={`text-xs font-mono ${theme.subText}`}>
+                        {segments.length} segments
+                    </span>
+                    <button
+                        onClick={handleUndoTranscriptEdit}
+                        disabled={transcriptEdits.length === 0}
+                        className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-50 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none"
+                        aria-label="Undo last transcript correction"
+                        title={transcriptEdits.length > 0
+                            ? `Undo ${transcriptEdits[transcriptEdits.length - 1].kind} (${transcriptEdits.length} correction${transcriptEdits.length === 1 ? '' : 's'})`
+                            : "No corrections to undo"}
+                    >
+                        <Undo2 size={16} />
+                    </button>
+                    <button
+                        onClick={handleLabelSpeakers}
+                        disabled={isLabellingSpeakers || !segments.some(s => s.sender === 'user')}
+                        className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-50 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none"
+                        aria-label="Identify speakers"
+                        title="Identify Speakers"
+                    >
+                        {isLabellingSpeakers ? <Loader2 size={16} className="animate-spin" /> : <Users size={16} />}
+                    </button>
+                    <ExportMenu
+                        onExport={handleExport}
+                        disabled={segments.length === 0 && notes.length === 0}
+                        highContrast={isHighContrast}
+                    />
                 </div>
             </header>
             
@@ -424,8 +1192,24 @@ export default function App() {
                         <p className="text-lg">Waiting for audio stream...</p>
                     </div>
                 )}
-                {segments.map((seg) => (
-                    <div key={seg.id} className={`flex ${seg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                {segments.map((seg, index) => seg.gapMs !== undefined ? (
+                    <div key={seg.id} role="note" className={`flex items-center gap-3 text-xs ${isHighContrast ? 'text-yellow-300' : 'text-amber-400/80'}`}>
+                        <div className="flex-1 border-t border-dashed border-current" aria-hidden="true" />
+                        <span>Connection lost at {seg.timestamp.toLocaleTimeString()}: {formatGapDuration(seg.gapMs)} not transcribed</span>
+                        {seg.recordingId && seg.recordingOffsetMs !== undefined && (
+                            <button
+                                onClick={() => playSegment(seg)}
+                                className="focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white rounded-full"
+                                aria-label={playingSegmentId === seg.id ? "Stop recording playback" : "Play the missed audio"}
+                                title="Play recording"
+                            >
+                                {playingSegmentId === seg.id ? <PauseCircle size={14} /> : <PlayCircle size={14} />}
+                            </button>
+                        )}
+                        <div className="flex-1 border-t border-dashed border-current" aria-hidden="true" />
+                    </div>
+                ) : (
+                    <div key={seg.id} id={`search-target-${seg.id}`} className={`flex ${seg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`flex gap-3 max-w-[85%] ${seg.sender === 'user' ? 'flex-row-reverse' : 'flex-row'}`}>
                             {/* Avatar Icon */}
                             <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 mt-1 ${
@@ -436,15 +1220,84 @@ export default function App() {
                                 {seg.sender === 'user' ? <User size={16} /> : <Sparkles size={16} />}
                             </div>
 
-                            <div className={`rounded-2xl px-6 py-4 border relative ${
+                            <div className={`rounded-2xl px-6 py-4 border relative ${searchHighlight?.targetId === seg.id ? (isHighContrast ? 'ring-2 ring-cyan-400' : 'ring-2 ring-amber-400/60') : ''} ${
                                 seg.sender === 'user' 
                                     ? `${isHighContrast ? 'bg-black border-white text-white' : 'bg-zinc-800 border-zinc-700 text-zinc-100'} rounded-tr-sm` 
                                     : `${isHighContrast ? 'bg-black border-yellow-400 text-yellow-300' : 'bg-indigo-950/40 border-indigo-500/30 text-indigo-100'} rounded-tl-sm`
                             }`}>
-                                <p className="text-base leading-relaxed">{seg.text}</p>
+                                {seg.sender === 'user' && (
+                                    <span className="block text-xs font-bold mb-1 opacity-70">{getSpeakerName(seg, speakerNames)}</span>
+                                )}
+                                {editingSegmentId === seg.id ? (
+                                    <SegmentEditor
+                                        text={seg.text}
+                                        onSave={(text) => applyTranscriptEdit(editSegmentText(segments, seg.id, text))}
+                                        onSplit={(at) => applyTranscriptEdit(splitSegment(segments, seg.id, at))}
+                                        onCancel={() => setEditingSegmentId(null)}
+                                        highContrast={isHighContrast}
+                                    />
+                                ) : (
+                                    <p className="text-base leading-relaxed">
+                                        <HighlightedText
+                                            text={seg.text}
+                                            terms={searchHighlight?.targetId === seg.id ? searchHighlight.terms : []}
+                                            highContrast={isHighContrast}
+                                        />
+                                    </p>
+                                )}
                                 <div className="flex justify-between items-center mt-2 opacity-60">
-                                    {/* Audio indicator if needed in future */}
-                                    {seg.sender === 'model' && <Volume2 size={12} aria-label="Audio response" />}
+                                    {seg.sender === 'model' && (replayableTurnIds.has(seg.id) ? (
+                                        <button
+                                            onClick={() => replayTurn(seg.id)}
+                                            className="hover:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white rounded-full"
+                                            aria-label="Replay this response"
+                                            title="Replay response"
+                                        >
+                                            <Volume2 size={12} />
+                                        </button>
+                                    ) : (
+                                        <Volume2 size={12} aria-label="Audio response" />
+                                    ))}
+                                    {seg.recordingId && seg.recordingOffsetMs !== undefined && (
+                                        <button
+                                            onClick={() => playSegment(seg)}
+                                            className="hover:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white rounded-full"
+                                            aria-label={playingSegmentId === seg.id ? "Stop recording playback" : "Play recording from this moment"}
+                                            title="Play recording"
+                                        >
+                                            {playingSegmentId === seg.id ? <PauseCircle size={14} /> : <PlayCircle size={14} />}
+                                        </button>
+                                    )}
+                                    {!seg.isPartial && editingSegmentId !== seg.id && (
+                                        <div className="flex items-center gap-2 ml-2">
+                                            <button
+                                                onClick={() => setEditingSegmentId(seg.id)}
+                                                className="hover:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white rounded"
+                                                aria-label="Correct this segment"
+                                                title="Edit or split"
+                                            >
+                                                <Pencil size={12} />
+                                            </button>
+                                            {canMergeWithNext(segments, index) && (
+                                                <button
+                                                    onClick={() => applyTranscriptEdit(mergeWithNext(segments, seg.id))}
+                                                    className="hover:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white rounded"
+                                                    aria-label="Merge with the next segment"
+                                                    title="Merge with next"
+                                                >
+                                                    <Merge size={12} />
+                                                </button>
+                                            )}
+                                            <button
+                                                onClick={() => applyTranscriptEdit(deleteSegment(segments, seg.id))}
+                                                className="hover:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white rounded"
+                                                aria-label="Delete this segment"
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                    )}
                                     <span className={`text-xs font-mono ml-auto`}>
                                         {seg.timestamp.toLocaleTimeString()}
                                     </span>
@@ -461,15 +1314,23 @@ export default function App() {
                  <div className="h-1 w-full bg-zinc-800 relative">
                      <div 
                         className={`absolute top-0 left-0 h-full transition-all duration-300 ease-out ${isHighContrast ? 'bg-yellow-400' : 'bg-indigo-500'}`}
-                        style={{ width: `${Math.min(100, (currentTranscriptBuffer.length / AUTO_ANALYZE_THRESHOLD) * 100)}%` }}
+                        style={{ width: `${Math.min(100, (pendingTranscript.text.length / analysisPolicy.minChars) * 100)}%` }}
                         role="progressbar"
-                        aria-valuenow={currentTranscriptBuffer.length}
-                        aria-valuemax={AUTO_ANALYZE_THRESHOLD}
+                        aria-valuenow={pendingTranscript.text.length}
+                        aria-valuemax={analysisPolicy.minChars}
                         aria-label="Analysis buffer progress"
                     />
                  </div>
 
                  <div className="p-4 flex flex-col gap-3">
+                     <AnalysisJobList
+                        jobs={analysisJobs}
+                        onCancel={handleCancelAnalysisJob}
+                        onRetry={handleRetryAnalysisJob}
+                        isAutoPaused={isBudgetReached}
+                        highContrast={isHighContrast}
+                     />
+
                      {/* Manual Input Form */}
                      <form onSubmit={handleManualSubmit} className="flex gap-2">
                          <input 
@@ -495,19 +1356,19 @@ export default function App() {
                      <div className="flex items-center justify-between">
                          <div className="flex items-center gap-3 overflow-hidden">
                             <span className={`text-sm font-mono truncate ${theme.subText}`} aria-live="off">
-                                Buffer: {currentTranscriptBuffer.length} / {AUTO_ANALYZE_THRESHOLD}
+                                Buffer: {pendingTranscript.text.length} / {analysisPolicy.minChars}
                             </span>
-                            {isProcessingNotes && (
+                            {(runningJob || isProcessingNotes) && (
                                 <span className={`flex items-center gap-2 text-xs font-bold px-3 py-1 rounded-full border ${isHighContrast ? 'text-black bg-yellow-400 border-yellow-400' : 'text-indigo-300 bg-indigo-500/20 border-indigo-500/30'}`} role="status">
                                     <Loader2 size={12} className="animate-spin" aria-hidden="true" />
-                                    Analyzing...
+                                    {TRIGGER_LABELS[runningJob?.trigger ?? 'manual']}
                                 </span>
                             )}
                         </div>
 
                         <button 
                             onClick={handleGenerateInsight}
-                            disabled={isProcessingNotes || currentTranscriptBuffer.length < 10}
+                            disabled={!organizer || isProcessingNotes || pendingTranscript.text.length < 10}
                             className={`text-xs font-semibold px-3 py-1.5 rounded transition-all flex items-center gap-2 focus-visible:ring-2 focus-visible:ring-offset-1 focus-visible:ring-white focus-visible:outline-none disabled:opacity-50 disabled:cursor-not-allowed ${
                                 isHighContrast 
                                 ? 'bg-white text-black border border-white hover:bg-yellow-200' 
@@ -536,13 +1397,85 @@ export default function App() {
                 <span className={`text-sm font-bold flex items-center gap-2 ${theme.text}`}>
                     <Settings size={18} aria-hidden="true" /> Intelligent Notes
                 </span>
-                <span className={`text-xs px-2 py-1 rounded-full border font-bold ${isHighContrast ? 'bg-white text-black border-black' : 'bg-indigo-500/10 text-indigo-300 border-indigo-500/20'}`}>
-                    Auto-Organizer
-                </span>
+                <div role="tablist" aria-label="Notes view" className="flex gap-1">
+                    {(['notes', 'tasks', 'search', 'ask'] as const).map(view => (
+                        <button
+                            key={view}
+                            role="tab"
+                            aria-selected={notesView === view}
+                            onClick={() => setNotesView(view)}
+                            className={`text-xs px-2 py-1 rounded-full border font-bold capitalize ${notesView === view
+                                ? (isHighContrast ? 'bg-white text-black border-black' : 'bg-indigo-500/10 text-indigo-300 border-indigo-500/20')
+                                : `border-transparent ${theme.subText}`}`}
+                        >
+                            {view}
+                        </button>
+                    ))}
+                </div>
             </header>
 
             <div className={`flex-1 overflow-y-auto p-4 ${isHighContrast ? 'bg-black' : 'bg-grid-zinc-900/50'}`}>
-                {notes.length === 0 ? (
+                {showReanalyzeOffer && (
+                    <div role="status" className={`mb-4 p-3 rounded-lg border text-sm flex items-start gap-2 ${isHighContrast ? 'border-yellow-400 text-yellow-200' : 'border-indigo-500/40 bg-indigo-500/10 text-indigo-200'}`}>
+                        <Sparkles size={16} className="mt-0.5 shrink-0" aria-hidden="true" />
+                        <span className="flex-1">Session imported. Re-run the organizer over the full transcript with the current prompt?</span>
+                        <button
+                            onClick={handleReanalyzeSession}
+                            disabled={isProcessingNotes || !organizer}
+                            className={`text-xs font-semibold px-2 py-1 rounded disabled:opacity-50 ${theme.button}`}
+                        >
+                            Re-analyze
+                        </button>
+                        <button onClick={() => setShowReanalyzeOffer(false)} aria-label="Dismiss re-analysis offer">
+                            <X size={16} />
+                        </button>
+                    </div>
+                )}
+                {notesView === 'notes' && (
+                    <div className="flex justify-end mb-3">
+                        <button
+                            onClick={() => { setIsSummaryMode(!isSummaryMode); playFeedback('click'); }}
+                            className={`text-xs flex items-center gap-2 ${theme.subText}`}
+                            aria-pressed={isSummaryMode}
+                        >
+                            Meeting Summary mode
+                            <span className={`w-8 h-4 rounded-full p-0.5 transition-colors ${isSummaryMode ? 'bg-emerald-500' : 'bg-zinc-600'}`}>
+                                <span className={`block w-3 h-3 bg-white rounded-full shadow-sm transition-transform ${isSummaryMode ? 'translate-x-4' : 'translate-x-0'}`} />
+                            </span>
+                        </button>
+                    </div>
+                )}
+                {notesView === 'notes' && isSummaryMode && meetingSummary && (
+                    <MeetingSummaryCard summary={meetingSummary} isUpdating={isUpdatingSummary} highContrast={isHighContrast} />
+                )}
+                {notesView === 'ask' ? (
+                    <MeetingChat
+                        messages={chatMessages}
+                        segments={segments}
+                        onAsk={handleAskMeeting}
+                        isAnswering={isAnswering}
+                        onCitation={(segmentId) => setSearchHighlight({ targetId: segmentId, terms: [] })}
+                        disabled={!organizer || segments.length === 0}
+                        highContrast={isHighContrast}
+                    />
+                ) : notesView === 'search' ? (
+                    <SearchPanel
+                        query={search.query}
+                        onQueryChange={search.setQuery}
+                        mode={search.mode}
+                        onModeChange={search.setMode}
+                        canSearchSemantically={search.canSearchSemantically}
+                        onSinceChange={search.setSince}
+                        results={search.results}
+                        isSearching={search.isSearching}
+                        error={search.searchError}
+                        onSubmit={search.runSearch}
+                        onSelect={handleSearchResult}
+                        highContrast={isHighContrast}
+                    />
+                ) : notesView === 'tasks' ? (
+                    <TasksPanel notes={notes} onSetStatus={handleSetTaskStatus} highContrast={isHighContrast} />
+                ) : notes.length === 0 ? (
                     <div className="mt-20 text-center px-8">
                         <div className={`inline-flex items-center justify-center w-16 h-16 rounded-full mb-4 ${isHighContrast ? 'bg-white text-black' : 'bg-zinc-800 text-zinc-500'}`}>
                             <Zap size={24} aria-hidden="true" />
@@ -554,8 +1487,20 @@ export default function App() {
                     </div>
                 ) : (
                     <div role="feed" aria-label="List of generated notes">
-                        {notes.map((note, i) => (
-                            <NoteCard key={i} note={note} highContrast={isHighContrast} />
+                        {notes.map((note) => (
+                            <div
+                                key={note.id}
+                                id={`search-target-${note.id}`}
+                                className={searchHighlight?.targetId === note.id ? (isHighContrast ? 'ring-2 ring-cyan-400' : 'ring-2 ring-amber-400/60 rounded-xl') : ''}
+                            >
+                                <NoteCard
+                                    note={note}
+                                    highContrast={isHighContrast}
+                                    onToggleActionItem={handleToggleActionItem}
+                                    onRegenerate={organizer && note.segmentIds ? handleRegenerateNote : undefined}
+                                    isRegenerating={regeneratingNoteId === note.id}
+                                />
+                            </div>
                         ))}
                     </div>
                 )}
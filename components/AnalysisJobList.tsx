@@ -0,0 +1,83 @@
+import React from 'react';
+import { AnalysisJob, isAnalysisJobPaused } from '../services/analysisQueue';
+import { AlertCircle, Clock, Loader2, PauseCircle, RotateCcw, X } from 'lucide-react';
+
+interface AnalysisJobListProps {
+  jobs: AnalysisJob[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  /** Automatic jobs are held, e.g. because the session budget is used up */
+  isAutoPaused?: boolean;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Organizer runs that are queued, in progress, waiting to retry or failed.
+ * Failed runs hold the queue until they are retried or discarded; discarded
+ * text goes back to the buffer. While auto-analysis is paused, automatic runs
+ * show as paused until the budget is raised or they are cancelled.
+ */
+const AnalysisJobList: React.FC<AnalysisJobListProps> = ({ jobs, onCancel, onRetry, isAutoPaused = false, highContrast = false }) => {
+  const visible = jobs.filter(job => !job.stale);
+  if (visible.length === 0) return null;
+
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const iconButtonClass = "p-1 rounded hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none";
+
+  const describe = (job: AnalysisJob) => {
+    if (isAnalysisJobPaused(job, isAutoPaused)) return 'Paused (budget reached)';
+    switch (job.status) {
+      case 'running': return 'Analyzing';
+      case 'queued': return 'Queued';
+      case 'waiting': return `Retrying at ${new Date(job.retryAt ?? Date.now()).toLocaleTimeString()}`;
+      case 'failed': return 'Failed';
+    }
+  };
+
+  return (
+    <ul className="space-y-1" aria-label="Analysis queue">
+      {visible.map(job => (
+        <li
+          key={job.id}
+          className={`flex items-center gap-2 text-xs px-2 py-1 rounded border ${
+            job.status === 'failed'
+              ? 'border-red-500/50 text-red-300'
+              : highContrast ? 'border-white text-white' : 'border-zinc-800 text-zinc-300'
+          }`}
+        >
+          {job.status === 'running' && <Loader2 size={12} className="animate-spin shrink-0" aria-hidden="true" />}
+          {isAnalysisJobPaused(job, isAutoPaused) ? (
+            <PauseCircle size={12} className="shrink-0" aria-hidden="true" />
+          ) : (
+            <>
+              {job.status === 'queued' && <Clock size={12} className="shrink-0" aria-hidden="true" />}
+              {job.status === 'waiting' && <RotateCcw size={12} className="shrink-0" aria-hidden="true" />}
+            </>
+          )}
+          {job.status === 'failed' && <AlertCircle size={12} className="shrink-0" aria-hidden="true" />}
+          <span className="font-semibold shrink-0" role={job.status === 'failed' ? 'alert' : undefined}>{describe(job)}</span>
+          <span className={`flex-1 truncate ${subTextClass}`} title={job.error ?? job.transcript}>
+            {job.error ?? `${job.transcript.length} chars`}
+          </span>
+          {job.status === 'failed' && (
+            <button onClick={() => onRetry(job.id)} className={iconButtonClass} aria-label="Retry analysis">
+              <RotateCcw size={12} />
+            </button>
+          )}
+          {job.status !== 'running' && (
+            <button
+              onClick={() => onCancel(job.id)}
+              className={iconButtonClass}
+              aria-label={job.status === 'failed' ? 'Discard analysis' : 'Cancel analysis'}
+            >
+              <X size={12} />
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AnalysisJobList;
@@ -0,0 +1,102 @@
+import React from 'react';
+import { AnalysisPolicy } from '../types';
+import { Timer } from 'lucide-react';
+
+interface AnalysisSettingsProps {
+  policy: AnalysisPolicy;
+  onChange: (policy: AnalysisPolicy) => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/** Parses a number input, keeping the old value while the field is empty or invalid */
+const toNumber = (value: string, fallback: number) => {
+  const parsed = Number(value);
+  return value.trim() && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Chooses when notes are written automatically: after turns, pauses, topic
+ * changes or a fixed interval, within a minimum and maximum buffer size.
+ */
+const AnalysisSettings: React.FC<AnalysisSettingsProps> = ({ policy, onChange, highContrast = false }) => {
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const labelClass = `flex items-center justify-between gap-2 text-xs ${highContrast ? 'text-white' : 'text-zinc-300'}`;
+  const inputClass = `w-20 px-2 py-1 text-sm rounded bg-transparent border text-right focus:outline-none focus:ring-2 ${
+    highContrast
+      ? "border-white text-white focus:ring-yellow-400"
+      : "border-zinc-700 text-white focus:ring-indigo-500"
+  }`;
+  const checkboxClass = highContrast ? 'accent-yellow-400' : 'accent-indigo-500';
+
+  return (
+    <section aria-labelledby="analysis-heading" className={`p-4 rounded-lg space-y-2 border ${highContrast ? 'border-white bg-zinc-900' : 'border-zinc-800 bg-zinc-900/50'}`}>
+      <h2 id="analysis-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+        <Timer size={14} aria-hidden="true" /> Auto Analysis
+      </h2>
+
+      <label className={labelClass}>
+        After each completed turn
+        <input
+          type="checkbox"
+          checked={policy.onTurnComplete}
+          onChange={(e) => onChange({ ...policy, onTurnComplete: e.target.checked })}
+          className={checkboxClass}
+        />
+      </label>
+      <label className={labelClass}>
+        When the topic changes
+        <input
+          type="checkbox"
+          checked={policy.onTopicShift}
+          onChange={(e) => onChange({ ...policy, onTopicShift: e.target.checked })}
+          className={checkboxClass}
+        />
+      </label>
+      <label className={labelClass}>
+        After a pause of (s, 0 = off)
+        <input
+          type="number"
+          min={0}
+          value={policy.silenceMs / 1000}
+          onChange={(e) => onChange({ ...policy, silenceMs: toNumber(e.target.value, policy.silenceMs / 1000) * 1000 })}
+          className={inputClass}
+        />
+      </label>
+      <label className={labelClass}>
+        At least every (s, 0 = off)
+        <input
+          type="number"
+          min={0}
+          value={policy.intervalMs / 1000}
+          onChange={(e) => onChange({ ...policy, intervalMs: toNumber(e.target.value, policy.intervalMs / 1000) * 1000 })}
+          className={inputClass}
+        />
+      </label>
+      <label className={labelClass}>
+        Minimum characters
+        <input
+          type="number"
+          min={10}
+          value={policy.minChars}
+          onChange={(e) => onChange({ ...policy, minChars: Math.max(10, toNumber(e.target.value, policy.minChars)) })}
+          className={inputClass}
+        />
+      </label>
+      <label className={labelClass}>
+        Maximum characters
+        <input
+          type="number"
+          min={policy.minChars}
+          value={policy.maxChars}
+          onChange={(e) => onChange({ ...policy, maxChars: Math.max(policy.minChars, toNumber(e.target.value, policy.maxChars)) })}
+          className={inputClass}
+        />
+      </label>
+
+      <p className={`text-[10px] ${subTextClass}`}>Notes always start and end on whole transcript segments.</p>
+    </section>
+  );
+};
+
+export default AnalysisSettings;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { LiveAssistantConfig, LiveResponseMode } from '../types';
+import { ASSISTANT_PRESETS, LIVE_VOICES } from '../services/liveAssistant';
+import { Bot } from 'lucide-react';
+
+interface AssistantSettingsProps {
+  config: LiveAssistantConfig;
+  onChange: (config: LiveAssistantConfig) => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+const RESPONSE_MODE_LABELS: Record<LiveResponseMode, string> = {
+  audio: 'Spoken replies',
+  text: 'Written replies',
+  silent: 'Silent (transcribe only)',
+};
+
+const parseLanguages = (value: string) => value.split(',').map(l => l.trim()).filter(Boolean);
+
+/**
+ * Persona, languages, voice and reply mode of the live model.
+ * Changes apply from the next connection.
+ */
+const AssistantSettings: React.FC<AssistantSettingsProps> = ({ config, onChange, highContrast = false }) => {
+  // Edited as free text and parsed on blur, so typing a comma is not swallowed
+  const [languagesDraft, setLanguagesDraft] = useState(config.languages.join(', '));
+
+  useEffect(() => {
+    setLanguagesDraft(config.languages.join(', '));
+  }, [config.languages]);
+
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const inputClass = `w-full px-2 py-1 text-sm rounded bg-transparent border focus:outline-none focus:ring-2 ${
+    highContrast
+      ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+      : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500"
+  }`;
+  const selectClass = `${inputClass} ${highContrast ? 'bg-black' : 'bg-zinc-900'}`;
+
+  return (
+    <section aria-labelledby="assistant-heading" className={`p-4 rounded-lg space-y-3 border ${highContrast ? 'border-white bg-zinc-900' : 'border-zinc-800 bg-zinc-900/50'}`}>
+      <h2 id="assistant-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+        <Bot size={14} aria-hidden="true" /> Live Assistant
+      </h2>
+
+      <div className="grid grid-cols-2 gap-2" role="group" aria-label="Assistant presets">
+        {ASSISTANT_PRESETS.map(preset => {
+          const active = preset.config.responseMode === config.responseMode && preset.config.persona === config.persona;
+          return (
+            <button
+              key={preset.id}
+              onClick={() => onChange({ ...preset.config, languages: config.languages, voice: config.voice })}
+              className={`text-xs py-1.5 px-2 rounded border ${active
+                ? (highContrast ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-indigo-600 border-indigo-500 text-white')
+                : (highContrast ? 'border-white text-white' : 'border-zinc-700 text-zinc-300 hover:bg-zinc-800')}`}
+              aria-pressed={active}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <textarea
+        value={config.persona}
+        onChange={(e) => onChange({ ...config, persona: e.target.value })}
+        rows={3}
+        placeholder="Persona and instructions"
+        className={`${inputClass} resize-y`}
+        aria-label="Assistant persona and instructions"
+      />
+
+      <input
+        value={languagesDraft}
+        onChange={(e) => setLanguagesDraft(e.target.value)}
+        onBlur={() => onChange({ ...config, languages: parseLanguages(languagesDraft) })}
+        placeholder="Expected languages, e.g. English, Hindi"
+        className={inputClass}
+        aria-label="Expected languages, comma separated"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={config.responseMode}
+          onChange={(e) => onChange({ ...config, responseMode: e.target.value as LiveResponseMode })}
+          className={selectClass}
+          aria-label="Response mode"
+        >
+          {(Object.keys(RESPONSE_MODE_LABELS) as LiveResponseMode[]).map(mode => (
+            <option key={mode} value={mode}>{RESPONSE_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <select
+          value={config.voice}
+          onChange={(e) => onChange({ ...config, voice: e.target.value })}
+          disabled={config.responseMode !== 'audio'}
+          className={`${selectClass} disabled:opacity-50`}
+          aria-label="Voice"
+        >
+          {LIVE_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+        </select>
+      </div>
+
+      <p className={`text-[10px] ${subTextClass}`}>Changes apply from the next connection.</p>
+    </section>
+  );
+};
+
+export default AssistantSettings;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  /** Called with the format the user picked */
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Meeting Minutes (.md)' },
+  { format: 'html', label: 'Printable Document (.html)' },
+  { format: 'json', label: 'Full Session (.json)' },
+  { format: 'srt', label: 'Captions (.srt)' },
+  { format: 'vtt', label: 'Captions (.vtt)' },
+];
+
+/**
+ * Small dropdown in the transcript header for downloading the session in various formats.
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled = false, highContrast = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const menuClass = highContrast
+    ? "bg-black border-2 border-white text-white"
+    : "bg-zinc-900 border border-zinc-700 text-zinc-100 shadow-lg";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-50 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        aria-label="Export session"
+        title="Export"
+      >
+        <Download size={16} />
+      </button>
+      {isOpen && (
+        <ul role="menu" className={`absolute right-0 mt-1 w-56 rounded-lg py-1 z-30 ${menuClass}`}>
+          {FORMAT_OPTIONS.map(({ format, label }) => (
+            <li key={format} role="none">
+              <button
+                role="menuitem"
+                onClick={() => { onExport(format); setIsOpen(false); }}
+                className="w-full text-left text-sm px-3 py-1.5 hover:bg-white/10 focus-visible:bg-white/10 focus-visible:outline-none"
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
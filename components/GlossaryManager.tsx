@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { GlossaryTerm } from '../types';
+import { BookA, Plus, Pencil, Trash2 } from 'lucide-react';
+
+interface GlossaryManagerProps {
+  glossary: GlossaryTerm[];
+  /** Resolves to false when the term was rejected; `error` then explains why */
+  onSave: (term: GlossaryTerm) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  error: string | null;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/** A term being edited, with its variants as free text so typing commas works */
+interface TermDraft {
+  id: string;
+  term: string;
+  variants: string;
+  definition: string;
+}
+
+const toDraft = (term: GlossaryTerm): TermDraft => ({
+  id: term.id,
+  term: term.term,
+  variants: term.variants.join(', '),
+  definition: term.definition ?? '',
+});
+
+/**
+ * Edits the team glossary: names, acronyms and product terms with the ways
+ * they tend to be mis-heard. Used by the live model, the organizer and the
+ * transcript clean-up pass.
+ */
+const GlossaryManager: React.FC<GlossaryManagerProps> = ({ glossary, onSave, onDelete, error, highContrast = false }) => {
+  const [draft, setDraft] = useState<TermDraft | null>(null);
+
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const inputClass = `w-full px-2 py-1 text-sm rounded bg-transparent border focus:outline-none focus:ring-2 ${
+    highContrast
+      ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+      : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500"
+  }`;
+  const iconButtonClass = "p-1 rounded hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none";
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const saved = await onSave({
+      id: draft.id,
+      term: draft.term,
+      variants: draft.variants.split(','),
+      definition: draft.definition,
+    });
+    if (saved) setDraft(null);
+  };
+
+  return (
+    <section aria-labelledby="glossary-heading" className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 id="glossary-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+          <BookA size={14} aria-hidden="true" /> Glossary
+        </h2>
+        <button
+          onClick={() => setDraft({ id: `term-${Date.now()}`, term: '', variants: '', definition: '' })}
+          className={iconButtonClass}
+          aria-label="New glossary term"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {glossary.length === 0 && !draft && (
+        <p className={`text-xs ${subTextClass}`}>Add names and terms the transcript keeps getting wrong.</p>
+      )}
+
+      <ul className="space-y-1">
+        {glossary.map(term => (
+          <li key={term.id} className="flex items-start gap-1">
+            <div className="flex-1 min-w-0">
+              <span className={`text-sm font-semibold ${highContrast ? 'text-white' : 'text-zinc-200'}`}>{term.term}</span>
+              {term.variants.length > 0 && (
+                <span className={`block text-xs truncate ${subTextClass}`}>heard as {term.variants.join(', ')}</span>
+              )}
+            </div>
+            <button onClick={() => setDraft(toDraft(term))} className={iconButtonClass} aria-label={`Edit term ${term.term}`}>
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => onDelete(term.id)} className={iconButtonClass} aria-label={`Delete term ${term.term}`}>
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div className={`p-3 rounded-lg border space-y-2 ${highContrast ? 'border-white' : 'border-zinc-800 bg-zinc-950/50'}`}>
+          <input
+            value={draft.term}
+            onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+            placeholder="Correct spelling, e.g. VibeNote"
+            className={inputClass}
+            aria-label="Term"
+          />
+          <input
+            value={draft.variants}
+            onChange={(e) => setDraft({ ...draft, variants: e.target.value })}
+            placeholder="Heard as, e.g. vibe note, vibe node"
+            className={inputClass}
+            aria-label="Spoken variants, comma separated"
+          />
+          <input
+            value={draft.definition}
+            onChange={(e) => setDraft({ ...draft, definition: e.target.value })}
+            placeholder="What it is (optional)"
+            className={inputClass}
+            aria-label="Definition"
+          />
+
+          {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className={`text-xs px-2 py-1 rounded ${subTextClass}`}>Cancel</button>
+            <button
+              onClick={handleSave}
+              className={`text-xs px-3 py-1 rounded font-bold ${highContrast ? 'bg-yellow-400 text-black' : 'bg-indigo-600 text-white'}`}
+            >
+              Save term
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default GlossaryManager;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { findHighlights } from '../services/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Normalized search terms to mark; renders plain text when empty */
+  terms: string[];
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Renders text with search matches wrapped in <mark>.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms, highContrast = false }) => {
+  const ranges = findHighlights(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const markClass = highContrast ? "bg-yellow-400 text-black" : "bg-amber-400/30 text-inherit rounded-sm";
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className={markClass}>{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+
+interface LevelMeterProps {
+  /** Analyser tapped after the source's gain stage */
+  analyser: AnalyserNode | null;
+  /** Accessible name, e.g. "Microphone level" */
+  label: string;
+  /** Enables accessible high-contrast color mode */
+  highContrast?: boolean;
+}
+
+/**
+ * Horizontal input level bar (RMS, scaled so normal speech sits mid-way).
+ * Updates the bar's width directly each frame instead of re-rendering.
+ */
+const LevelMeter: React.FC<LevelMeterProps> = ({ analyser, label, highContrast = false }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const bar = barRef.current;
+    if (!bar) return;
+    if (!analyser) {
+      bar.style.width = '0%';
+      return;
+    }
+
+    const data = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const draw = () => {
+      analyser.getFloatTimeDomainData(data);
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+      const rms = Math.sqrt(sum / data.length);
+      bar.style.width = `${Math.min(100, rms * 400)}%`;
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <div
+      role="img"
+      aria-label={analyser ? label : `${label} (inactive)`}
+      className={`h-1.5 w-full rounded overflow-hidden ${highContrast ? 'bg-zinc-800 border border-white' : 'bg-zinc-800'}`}
+    >
+      <div ref={barRef} className={`h-full transition-[width] duration-75 ${highContrast ? 'bg-yellow-400' : 'bg-emerald-500'}`} style={{ width: '0%' }} />
+    </div>
+  );
+};
+
+export default LevelMeter;
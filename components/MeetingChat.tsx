@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { MeetingChatMessage, TranscriptSegment } from '../types';
+import { Loader2, MessageCircleQuestion, Quote, Send } from 'lucide-react';
+
+interface MeetingChatProps {
+  messages: MeetingChatMessage[];
+  /** The session transcript, used to label citations */
+  segments: TranscriptSegment[];
+  onAsk: (question: string) => void;
+  isAnswering: boolean;
+  /** Jumps to a cited segment in the transcript feed */
+  onCitation: (segmentId: string) => void;
+  disabled?: boolean;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Ask-the-meeting Q&A. Answers come from the stored transcript and notes and
+ * cite the segments they are based on; nothing is sent to the live session.
+ */
+const MeetingChat: React.FC<MeetingChatProps> = ({
+  messages,
+  segments,
+  onAsk,
+  isAnswering,
+  onCitation,
+  disabled = false,
+  highContrast = false
+}) => {
+  const [question, setQuestion] = useState("");
+
+  const subTextClass = highContrast ? "text-yellow-300" : "text-zinc-400";
+  const inputClass = highContrast
+    ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+    : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || isAnswering) return;
+    onAsk(question.trim());
+    setQuestion("");
+  };
+
+  return (
+    <section aria-label="Ask the meeting" className="space-y-3">
+      {messages.length === 0 && (
+        <div className="mt-12 text-center px-6">
+          <MessageCircleQuestion size={24} className={`mx-auto mb-4 ${subTextClass}`} aria-hidden="true" />
+          <p className={`text-sm ${subTextClass}`}>Ask about this session, e.g. "What did Priya commit to?"</p>
+        </div>
+      )}
+
+      <ol className="space-y-3" aria-live="polite">
+        {messages.map(message => (
+          <li
+            key={message.id}
+            className={`rounded-lg p-3 text-sm ${message.role === 'user'
+              ? (highContrast ? 'border-2 border-white ml-6' : 'bg-zinc-800 ml-6')
+              : (highContrast ? 'border-2 border-yellow-400 mr-6' : 'bg-indigo-950/40 border border-indigo-500/30 mr-6')}`}
+          >
+            <p className="whitespace-pre-line">{message.text}</p>
+            {message.citations && message.citations.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {message.citations.map(id => {
+                  const segment = segments.find(s => s.id === id);
+                  if (!segment) return null;
+                  return (
+                    <button
+                      key={id}
+                      onClick={() => onCitation(id)}
+                      className={`text-[10px] font-mono inline-flex items-center gap-1 px-1.5 py-0.5 rounded border ${highContrast ? 'border-cyan-400 text-cyan-300' : 'border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/10'}`}
+                      title={segment.text}
+                      aria-label={`Show cited transcript segment from ${segment.timestamp.toLocaleTimeString()}`}
+                    >
+                      <Quote size={10} aria-hidden="true" /> {segment.timestamp.toLocaleTimeString()}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question..."
+          disabled={disabled}
+          className={`flex-1 min-w-0 px-3 py-1.5 text-sm rounded-lg bg-transparent border focus:outline-none focus:ring-2 disabled:opacity-50 ${inputClass}`}
+          aria-label="Question about this session"
+        />
+        <button
+          type="submit"
+          disabled={disabled || isAnswering || !question.trim()}
+          className={`p-2 rounded-lg disabled:opacity-50 ${highContrast ? 'bg-yellow-400 text-black' : 'bg-indigo-600 text-white'}`}
+          aria-label="Ask"
+        >
+          {isAnswering ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default MeetingChat;
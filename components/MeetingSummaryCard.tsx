@@ -0,0 +1,67 @@
+import React from 'react';
+import { MeetingSummary } from '../types';
+import { BookOpen, Lightbulb, HelpCircle, Loader2 } from 'lucide-react';
+
+interface MeetingSummaryCardProps {
+  summary: MeetingSummary;
+  /** Shows a spinner while the next buffer is being merged in */
+  isUpdating?: boolean;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * The consolidated Meeting Summary shown above the per-buffer note timeline.
+ * One evolving document: overview, cumulative decisions and open questions.
+ */
+const MeetingSummaryCard: React.FC<MeetingSummaryCardProps> = ({ summary, isUpdating = false, highContrast = false }) => {
+  const baseClasses = highContrast
+    ? "bg-black border-2 border-cyan-400 text-white mb-6 p-5"
+    : "bg-indigo-950/40 border border-indigo-500/30 rounded-xl p-5 mb-6 text-zinc-100";
+  const subTextClass = highContrast ? "text-yellow-300" : "text-zinc-400";
+  const itemClass = highContrast ? "text-white" : "text-zinc-300";
+
+  return (
+    <article className={baseClasses} aria-labelledby="meeting-summary-title" aria-busy={isUpdating}>
+      <header className="flex justify-between items-center mb-3">
+        <h3 id="meeting-summary-title" className="text-lg font-bold flex items-center gap-2">
+          <BookOpen size={18} aria-hidden="true" /> Meeting Summary
+        </h3>
+        <span className={`text-xs flex items-center gap-1 ${subTextClass}`}>
+          {isUpdating && <Loader2 size={12} className="animate-spin" aria-hidden="true" />}
+          rev. {summary.revision} · <time dateTime={summary.updatedAt}>{new Date(summary.updatedAt).toLocaleTimeString()}</time>
+        </span>
+      </header>
+
+      <p className={`text-sm mb-4 leading-relaxed ${subTextClass}`}>{summary.overview}</p>
+
+      {summary.decisions.length > 0 && (
+        <section className="mb-3">
+          <h4 className={`text-xs font-bold uppercase tracking-wider mb-2 flex items-center ${highContrast ? 'text-yellow-300' : 'text-amber-400'}`}>
+            <Lightbulb size={14} className="mr-1.5" aria-hidden="true" /> Decisions
+          </h4>
+          <ul className="space-y-1 pl-2">
+            {summary.decisions.map((decision, idx) => (
+              <li key={idx} className={`text-sm ${itemClass}`}>• {decision}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {summary.openQuestions.length > 0 && (
+        <section>
+          <h4 className={`text-xs font-bold uppercase tracking-wider mb-2 flex items-center ${highContrast ? 'text-cyan-300' : 'text-sky-400'}`}>
+            <HelpCircle size={14} className="mr-1.5" aria-hidden="true" /> Open Questions
+          </h4>
+          <ul className="space-y-1 pl-2">
+            {summary.openQuestions.map((question, idx) => (
+              <li key={idx} className={`text-sm ${itemClass}`}>• {question}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </article>
+  );
+};
+
+export default MeetingSummaryCard;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { SessionMetrics } from '../types';
+import { CostEstimate, formatCost } from '../services/metrics';
+import { Coins } from 'lucide-react';
+
+interface MetricsPanelProps {
+  metrics: SessionMetrics;
+  cost: CostEstimate;
+  /** Per-session spending cap in USD; 0 means no cap */
+  budgetUsd: number;
+  onBudgetChange: (budgetUsd: number) => void;
+  isOverBudget: boolean;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+const formatSeconds = (seconds: number) => {
+  const whole = Math.round(seconds);
+  return whole < 60 ? `${whole}s` : `${Math.floor(whole / 60)}m ${whole % 60}s`;
+};
+
+const formatTokens = (tokens: number) => (tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+/**
+ * Running usage totals and the estimated cost of the current session. Once the
+ * budget is reached, auto-analysis pauses; manual analysis still works.
+ */
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, cost, budgetUsd, onBudgetChange, isOverBudget, highContrast = false }) => {
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const valueClass = `font-mono text-right ${highContrast ? 'text-white' : 'text-zinc-200'}`;
+  const inputClass = `w-20 px-2 py-1 text-sm rounded bg-transparent border text-right focus:outline-none focus:ring-2 ${
+    highContrast
+      ? "border-white text-white focus:ring-yellow-400"
+      : "border-zinc-700 text-white focus:ring-indigo-500"
+  }`;
+
+  const averageLatency = metrics.organizerCalls > 0 ? Math.round(metrics.organizerLatencyMs / metrics.organizerCalls) : 0;
+  const rows: [string, string][] = [
+    ['Audio sent', formatSeconds(metrics.audioSecondsSent)],
+    ['Live tokens (in / out)', `${formatTokens(metrics.liveInputTokens)} / ${formatTokens(metrics.liveOutputTokens)}`],
+    ['Organizer calls', `${metrics.organizerCalls} (avg ${averageLatency} ms)`],
+    ['Organizer tokens (in / out)', `${formatTokens(metrics.organizerInputTokens)} / ${formatTokens(metrics.organizerOutputTokens)}`],
+    ['Reconnects', String(metrics.reconnects)],
+    ['Dropped sends', String(metrics.droppedSends)],
+  ];
+
+  return (
+    <section aria-labelledby="metrics-heading" className="space-y-2">
+      <h2 id="metrics-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+        <Coins size={16} aria-hidden="true" /> Usage & Cost
+      </h2>
+
+      <dl className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className={subTextClass}>{label}</dt>
+            <dd className={valueClass}>{value}</dd>
+          </React.Fragment>
+        ))}
+        <dt className={`font-bold ${highContrast ? 'text-white' : 'text-zinc-300'}`}>Estimated cost</dt>
+        <dd className={`${valueClass} font-bold`} title={`Live ${formatCost(cost.live)}, organizer ${formatCost(cost.organizer)}`}>
+          {formatCost(cost.total)}
+        </dd>
+      </dl>
+
+      <label className={`flex items-center justify-between gap-2 text-xs ${highContrast ? 'text-white' : 'text-zinc-300'}`}>
+        Session budget ($, 0 = none)
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          value={budgetUsd}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (e.target.value.trim() && Number.isFinite(value) && value >= 0) onBudgetChange(value);
+          }}
+          className={inputClass}
+        />
+      </label>
+
+      {isOverBudget && (
+        <p className="text-xs text-amber-400" role="status">Budget reached. Auto-analysis is paused; you can still analyze manually.</p>
+      )}
+    </section>
+  );
+};
+
+export default MetricsPanel;
@@ -1,20 +1,27 @@
+// @vitest-environment jsdom
 import React from 'react';
-import { render, screen } from '@testing-library/react';
-import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import NoteCard from './NoteCard';
 import { OrganizedNote } from '../types';
 
 const mockNote: OrganizedNote = {
+  id: "note-1",
   title: "Project Alpha Meeting",
   summary: "Discussed the roadmap for Q1.",
   topics: ["Roadmap", "Q1"],
-  actionItems: ["Update Jira", "Email client"],
+  actionItems: [
+    { id: "a1", text: "Update Jira", priority: "medium", status: "open", sourceNoteId: "note-1" },
+    { id: "a2", text: "Email client", owner: "Priya", dueDate: "2025-01-10", priority: "high", status: "open", sourceNoteId: "note-1" }
+  ],
   decisions: ["Go ahead with Design A"],
   sentiment: "positive",
   timestamp: new Date().toISOString()
 };
 
 describe('NoteCard Component', () => {
+  afterEach(cleanup);
+
   it('renders title and summary correctly', () => {
     render(<NoteCard note={mockNote} />);
     
@@ -35,6 +42,26 @@ describe('NoteCard Component', () => {
     expect(screen.getByText("Q1")).toBeDefined();
   });
 
+  it('renders action item owner and due date', () => {
+    render(<NoteCard note={mockNote} />);
+    expect(screen.getByText("@Priya")).toBeDefined();
+    expect(screen.getByText("2025-01-10")).toBeDefined();
+  });
+
+  it('renders custom template fields generically', () => {
+    const standupNote = {
+      ...mockNote,
+      fields: [
+        { key: 'blockers', label: 'Blockers', value: ['Waiting on API keys'] },
+        { key: 'rootCause', label: 'Root Cause', value: 'Expired certificate' },
+      ],
+    };
+    render(<NoteCard note={standupNote} />);
+    expect(screen.getByText("Blockers")).toBeDefined();
+    expect(screen.getByText("Waiting on API keys")).toBeDefined();
+    expect(screen.getByText("Expired certificate")).toBeDefined();
+  });
+
   it('does not render Action Items section if empty', () => {
     const emptyActionNote = { ...mockNote, actionItems: [] };
     render(<NoteCard note={emptyActionNote} />);
@@ -42,4 +69,12 @@ describe('NoteCard Component', () => {
     const actionHeader = screen.queryByText("Action Items");
     expect(actionHeader).toBeNull();
   });
+
+  it('offers to regenerate an outdated note', () => {
+    const onRegenerate = vi.fn();
+    render(<NoteCard note={{ ...mockNote, outdated: true }} onRegenerate={onRegenerate} />);
+
+    fireEvent.click(screen.getByText("Regenerate"));
+    expect(onRegenerate).toHaveBeenCalledWith(expect.objectContaining({ id: "note-1" }));
+  });
 });
\ No newline at end of file
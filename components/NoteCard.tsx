@@ -1,21 +1,28 @@
 import React from 'react';
-import { OrganizedNote } from '../types';
-import { CheckSquare, Hash, Lightbulb, Clock } from 'lucide-react';
+import { ActionItem, OrganizedNote } from '../types';
+import { CheckSquare, Hash, Lightbulb, Clock, Square, ListChecks, AlertTriangle, RefreshCw, Loader2 } from 'lucide-react';
 
 interface NoteCardProps {
   /** The data object containing the structured note content */
   note: OrganizedNote;
   /** Enables accessible high-contrast styling */
   highContrast?: boolean;
+  /** When provided, action items get a checkbox that toggles their status */
+  onToggleActionItem?: (item: ActionItem) => void;
+  /** When provided, an outdated note offers to be regenerated from the corrected transcript */
+  onRegenerate?: (note: OrganizedNote) => void;
+  /** Shows progress while the note is being regenerated */
+  isRegenerating?: boolean;
 }
 
 /**
  * Displays a single analyzed session note with structured sections for
- * Summary, Action Items, Decisions, and Topics.
+ * Summary, Action Items, Decisions, and Topics, followed by any custom
+ * template fields (rendered generically as text or lists).
  * 
  * Uses semantic HTML (article, header, section, ul) for screen reader accessibility.
  */
-const NoteCard: React.FC<NoteCardProps> = ({ note, highContrast = false }) => {
+const NoteCard: React.FC<NoteCardProps> = ({ note, highContrast = false, onToggleActionItem, onRegenerate, isRegenerating = false }) => {
   const baseClasses = highContrast 
     ? "bg-black border-2 border-yellow-400 text-white mb-4 shadow-none p-5"
     : "bg-zinc-900 border border-zinc-800 rounded-xl p-5 mb-4 shadow-sm hover:shadow-md transition-shadow text-zinc-100";
@@ -38,6 +45,24 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, highContrast = false }) => {
         </span>
       </header>
 
+      {note.outdated && (
+        <div role="status" className={`flex items-center justify-between gap-2 text-xs mb-3 px-3 py-2 rounded ${highContrast ? 'border border-yellow-400 text-yellow-300' : 'bg-amber-500/10 text-amber-400'}`}>
+          <span className="flex items-center gap-1.5">
+            <AlertTriangle size={12} aria-hidden="true" /> The transcript was corrected after this note was written.
+          </span>
+          {onRegenerate && (
+            <button
+              onClick={() => onRegenerate(note)}
+              disabled={isRegenerating}
+              className={`flex items-center gap-1 font-semibold underline disabled:opacity-50 ${highContrast ? 'text-yellow-300' : 'text-amber-300 hover:text-amber-200'}`}
+            >
+              {isRegenerating ? <Loader2 size={12} className="animate-spin" aria-hidden="true" /> : <RefreshCw size={12} aria-hidden="true" />}
+              Regenerate
+            </button>
+          )}
+        </div>
+      )}
+
       <p className={`text-sm mb-4 leading-relaxed ${subTextClass}`}>
         {note.summary}
       </p>
@@ -49,10 +74,34 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, highContrast = false }) => {
               <CheckSquare size={14} className="mr-1.5" aria-hidden="true" /> Action Items
             </h4>
             <ul className="space-y-1 pl-2">
-              {note.actionItems.map((item, idx) => (
-                <li key={idx} className={`text-sm flex items-start ${highContrast ? 'text-white' : 'text-zinc-300'}`}>
-                  <span className={`mr-2 ${highContrast ? 'text-cyan-400' : 'text-zinc-500'}`} aria-hidden="true">•</span>
-                  {item}
+              {note.actionItems.map((item) => (
+                <li key={item.id} className={`text-sm flex items-start ${highContrast ? 'text-white' : 'text-zinc-300'}`}>
+                  {onToggleActionItem ? (
+                    <button
+                      onClick={() => onToggleActionItem(item)}
+                      className={`mr-2 mt-0.5 ${highContrast ? 'text-cyan-400' : 'text-zinc-500'}`}
+                      role="checkbox"
+                      aria-checked={item.status === 'done'}
+                      aria-label={`Mark "${item.text}" as ${item.status === 'done' ? 'open' : 'done'}`}
+                    >
+                      {item.status === 'done' ? <CheckSquare size={14} /> : <Square size={14} />}
+                    </button>
+                  ) : (
+                    <span className={`mr-2 ${highContrast ? 'text-cyan-400' : 'text-zinc-500'}`} aria-hidden="true">•</span>
+                  )}
+                  <span className="flex-1">
+                    <span className={item.status === 'done' ? 'line-through opacity-60' : ''}>{item.text}</span>
+                    {(item.owner || item.dueDate) && (
+                      <span className={`block text-xs ${subTextClass}`}>
+                        {item.owner && <span>@{item.owner}</span>}
+                        {item.owner && item.dueDate && ' · '}
+                        {item.dueDate && <>due <time dateTime={item.dueDate}>{item.dueDate}</time></>}
+                      </span>
+                    )}
+                  </span>
+                  {item.priority === 'high' && (
+                    <span className={`ml-2 text-[10px] font-bold uppercase ${highContrast ? 'text-yellow-300' : 'text-red-400'}`}>High</span>
+                  )}
                 </li>
               ))}
             </ul>
@@ -74,6 +123,26 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, highContrast = false }) => {
             </ul>
           </section>
         )}
+
+        {note.fields?.map(field => (
+          <section key={field.key} className={`${sectionBg} p-3 rounded-lg`}>
+            <h4 className={`text-xs font-bold uppercase tracking-wider mb-2 flex items-center ${highContrast ? 'text-cyan-300' : 'text-sky-400'}`}>
+              <ListChecks size={14} className="mr-1.5" aria-hidden="true" /> {field.label}
+            </h4>
+            {Array.isArray(field.value) ? (
+              <ul className="space-y-1 pl-2">
+                {field.value.map((item, idx) => (
+                  <li key={idx} className={`text-sm flex items-start ${highContrast ? 'text-white' : 'text-zinc-300'}`}>
+                    <span className={`mr-2 ${highContrast ? 'text-cyan-400' : 'text-zinc-500'}`} aria-hidden="true">•</span>
+                    {item}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className={`text-sm pl-2 ${highContrast ? 'text-white' : 'text-zinc-300'}`}>{field.value}</p>
+            )}
+          </section>
+        ))}
       </div>
 
       {note.topics.length > 0 && (
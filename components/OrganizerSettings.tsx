@@ -0,0 +1,88 @@
+import React from 'react';
+import { OrganizerBackend, OrganizerConfig } from '../types';
+import { DEFAULT_GEMINI_MODEL, DEFAULT_OLLAMA_URL } from '../services/organizerProvider';
+import { Cpu } from 'lucide-react';
+
+interface OrganizerSettingsProps {
+  config: OrganizerConfig;
+  onChange: (config: OrganizerConfig) => void;
+  /** False while required fields (model, endpoint) are missing */
+  isConfigured: boolean;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+const BACKENDS: { id: OrganizerBackend; label: string; defaults: Partial<OrganizerConfig> }[] = [
+  { id: 'gemini', label: 'Gemini', defaults: { model: DEFAULT_GEMINI_MODEL, baseUrl: undefined } },
+  { id: 'openai', label: 'OpenAI-compatible', defaults: { model: '', baseUrl: 'https://api.openai.com/v1' } },
+  { id: 'ollama', label: 'Ollama (local)', defaults: { model: 'llama3.1', baseUrl: DEFAULT_OLLAMA_URL } },
+];
+
+/**
+ * Chooses the model backend for notes, summaries, speaker labels and Q&A.
+ * Local and self-hosted backends keep transcripts away from Google.
+ */
+const OrganizerSettings: React.FC<OrganizerSettingsProps> = ({ config, onChange, isConfigured, highContrast = false }) => {
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const inputClass = `w-full px-2 py-1 text-sm rounded bg-transparent border focus:outline-none focus:ring-2 ${
+    highContrast
+      ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+      : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500"
+  }`;
+
+  return (
+    <section aria-labelledby="organizer-heading" className={`p-4 rounded-lg space-y-3 border ${highContrast ? 'border-white bg-zinc-900' : 'border-zinc-800 bg-zinc-900/50'}`}>
+      <h2 id="organizer-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+        <Cpu size={14} aria-hidden="true" /> Organizer Model
+      </h2>
+
+      <select
+        value={config.backend}
+        onChange={(e) => {
+          const backend = BACKENDS.find(b => b.id === e.target.value)!;
+          onChange({ ...config, backend: backend.id, ...backend.defaults });
+        }}
+        className={`${inputClass} ${highContrast ? 'bg-black' : 'bg-zinc-900'}`}
+        aria-label="Organizer backend"
+      >
+        {BACKENDS.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+      </select>
+
+      {config.backend !== 'gemini' && (
+        <input
+          value={config.baseUrl ?? ''}
+          onChange={(e) => onChange({ ...config, baseUrl: e.target.value })}
+          placeholder={config.backend === 'ollama' ? DEFAULT_OLLAMA_URL : 'https://host/v1'}
+          className={inputClass}
+          aria-label="Endpoint URL"
+        />
+      )}
+
+      <input
+        value={config.model}
+        onChange={(e) => onChange({ ...config, model: e.target.value })}
+        placeholder="Model name"
+        className={inputClass}
+        aria-label="Model name"
+      />
+
+      {config.backend === 'openai' && (
+        <input
+          type="password"
+          value={config.apiKey ?? ''}
+          onChange={(e) => onChange({ ...config, apiKey: e.target.value })}
+          placeholder="API key (optional for local servers)"
+          className={inputClass}
+          aria-label="API key"
+          autoComplete="off"
+        />
+      )}
+
+      {!isConfigured && (
+        <p className="text-xs text-red-400" role="alert">Enter a model{config.backend === 'openai' ? ' and endpoint' : ''} to enable note analysis.</p>
+      )}
+    </section>
+  );
+};
+
+export default OrganizerSettings;
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { SearchResult, excerpt } from '../services/searchIndex';
+import { SearchMode } from '../hooks/useSearch';
+import HighlightedText from './HighlightedText';
+import { Search, Loader2, MessageSquare, FileText } from 'lucide-react';
+
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  mode: SearchMode;
+  onModeChange: (mode: SearchMode) => void;
+  /** False when no embedding provider is configured */
+  canSearchSemantically: boolean;
+  onSinceChange: (since: Date | undefined) => void;
+  results: SearchResult[];
+  isSearching: boolean;
+  error: string | null;
+  /** Runs the search immediately (semantic search only runs on submit) */
+  onSubmit: () => void;
+  /** Jumps to the matching segment or note */
+  onSelect: (result: SearchResult) => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGES = [
+  { id: 'any', label: 'Any time', days: null },
+  { id: 'week', label: 'Past week', days: 7 },
+  { id: 'month', label: 'Past month', days: 31 },
+] as const;
+
+/**
+ * Search across every stored session's transcript and notes, with keyword
+ * (as-you-type) and semantic (on submit) modes.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({
+  query,
+  onQueryChange,
+  mode,
+  onModeChange,
+  canSearchSemantically,
+  onSinceChange,
+  results,
+  isSearching,
+  error,
+  onSubmit,
+  onSelect,
+  highContrast = false
+}) => {
+  const subTextClass = highContrast ? "text-yellow-300" : "text-zinc-400";
+  const rowClass = highContrast ? "bg-black border-2 border-white" : "bg-zinc-900 border border-zinc-800 hover:border-zinc-600";
+  const inputClass = highContrast
+    ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+    : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500";
+  const activeToggle = highContrast ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-indigo-600 border-indigo-500 text-white';
+
+  const [rangeId, setRangeId] = useState<typeof DATE_RANGES[number]['id']>('any');
+
+  return (
+    <section aria-label="Search sessions" className="space-y-3">
+      <form onSubmit={(e) => { e.preventDefault(); onSubmit(); }} className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder={mode === 'semantic' ? "What did we decide about pricing?" : "Search transcripts and notes"}
+          className={`flex-1 min-w-0 px-3 py-1.5 text-sm rounded-lg bg-transparent border focus:outline-none focus:ring-2 ${inputClass}`}
+          aria-label="Search query"
+        />
+        <button type="submit" disabled={!query.trim() || isSearching} className={`p-2 rounded-lg disabled:opacity-50 ${activeToggle}`} aria-label="Search">
+          {isSearching ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />}
+        </button>
+      </form>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1" role="radiogroup" aria-label="Search mode">
+          {(['keyword', 'semantic'] as const).map(m => (
+            <button
+              key={m}
+              role="radio"
+              aria-checked={mode === m}
+              disabled={m === 'semantic' && !canSearchSemantically}
+              onClick={() => onModeChange(m)}
+              className={`text-xs px-2 py-1 rounded border capitalize disabled:opacity-50 ${mode === m ? activeToggle : `border-transparent ${subTextClass}`}`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+        <select
+          value={rangeId}
+          onChange={(e) => {
+            const range = DATE_RANGES.find(r => r.id === e.target.value) ?? DATE_RANGES[0];
+            setRangeId(range.id);
+            onSinceChange(range.days ? new Date(Date.now() - range.days * DAY_MS) : undefined);
+          }}
+          className={`text-xs px-2 py-1 rounded border bg-transparent ${inputClass} ${highContrast ? 'bg-black' : 'bg-zinc-900'}`}
+          aria-label="Date range"
+        >
+          {DATE_RANGES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+      {query.trim() && !isSearching && results.length === 0 && !error && (
+        <p className={`text-sm text-center mt-8 ${subTextClass}`}>
+          {mode === 'semantic' ? "Press Enter to search by meaning." : "No matches."}
+        </p>
+      )}
+
+      <ul className="space-y-2" aria-live="polite">
+        {results.map(result => (
+          <li key={result.document.id}>
+            <button onClick={() => onSelect(result)} className={`w-full text-left rounded-lg p-3 ${rowClass}`}>
+              <span className={`text-xs flex items-center gap-1.5 mb-1 ${subTextClass}`}>
+                {result.document.kind === 'segment'
+                  ? <MessageSquare size={12} aria-hidden="true" />
+                  : <FileText size={12} aria-hidden="true" />}
+                <span className="truncate">{result.document.sessionName}</span>
+                <span>·</span>
+                <span className="shrink-0">{result.document.speaker ?? result.document.field}</span>
+                <time className="ml-auto shrink-0" dateTime={result.document.timestamp.toISOString()}>
+                  {result.document.timestamp.toLocaleDateString()}
+                </time>
+              </span>
+              <span className="text-sm block whitespace-pre-line">
+                <HighlightedText text={excerpt(result.document.text, result.terms)} terms={result.terms} highContrast={highContrast} />
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default SearchPanel;
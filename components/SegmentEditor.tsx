@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Scissors, X } from 'lucide-react';
+
+interface SegmentEditorProps {
+  /** Current text of the segment */
+  text: string;
+  onSave: (text: string) => void;
+  /** Splits the unchanged text at the caret position */
+  onSplit: (at: number) => void;
+  onCancel: () => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Inline editor for one transcript segment.
+ * Enter saves, Shift+Enter adds a line break and Escape cancels.
+ */
+const SegmentEditor: React.FC<SegmentEditorProps> = ({ text, onSave, onSplit, onCancel, highContrast = false }) => {
+  const [draft, setDraft] = useState(text);
+  const [caret, setCaret] = useState(text.length);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const isChanged = draft !== text;
+  const canSplit = !isChanged && !!text.slice(0, caret).trim() && !!text.slice(caret).trim();
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSave(draft);
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  const trackCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) => setCaret(e.currentTarget.selectionStart);
+
+  const buttonClass = `flex items-center gap-1 text-xs px-2 py-1 rounded disabled:opacity-40 focus-visible:outline-none focus-visible:ring-2 ${
+    highContrast ? 'border border-white text-white focus-visible:ring-yellow-400' : 'bg-zinc-900/60 hover:bg-zinc-900 focus-visible:ring-indigo-500'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => { setDraft(e.target.value); trackCaret(e); }}
+        onSelect={trackCaret}
+        onKeyDown={handleKeyDown}
+        rows={Math.min(8, Math.max(2, Math.ceil(draft.length / 60)))}
+        className={`w-full text-base leading-relaxed rounded p-2 bg-transparent border resize-y focus:outline-none focus:ring-2 ${
+          highContrast ? 'border-white focus:ring-yellow-400' : 'border-zinc-600 focus:ring-indigo-500'
+        }`}
+        aria-label="Segment text"
+      />
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={() => onSplit(caret)}
+          disabled={!canSplit}
+          className={buttonClass}
+          title={isChanged ? "Save your changes before splitting" : "Split at the cursor"}
+        >
+          <Scissors size={12} aria-hidden="true" /> Split
+        </button>
+        <button onClick={onCancel} className={buttonClass}>
+          <X size={12} aria-hidden="true" /> Cancel
+        </button>
+        <button onClick={() => onSave(draft)} disabled={!draft.trim()} className={buttonClass}>
+          <Check size={12} aria-hidden="true" /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SegmentEditor;
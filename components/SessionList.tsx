@@ -0,0 +1,151 @@
+import React, { useState, useRef } from 'react';
+import { SessionSummary } from '../types';
+import { FolderOpen, Pencil, Trash2, Check, X, Plus, Upload } from 'lucide-react';
+
+interface SessionListProps {
+  /** Stored sessions, newest first */
+  sessions: SessionSummary[];
+  /** Id of the session currently shown in the transcript feed */
+  activeSessionId: string | null;
+  /** Disables switching sessions (e.g. while a live session is running) */
+  locked?: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  /** Called with a session JSON file picked by the user */
+  onImport: (file: File) => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Sidebar library of past sessions persisted in IndexedDB.
+ * Sessions can be reopened, renamed inline, and deleted.
+ */
+const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  activeSessionId,
+  locked = false,
+  onOpen,
+  onRename,
+  onDelete,
+  onNew,
+  onImport,
+  highContrast = false,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const activeClass = highContrast ? "border-yellow-400 bg-zinc-900" : "border-indigo-500/50 bg-indigo-500/10";
+  const idleClass = highContrast ? "border-white" : "border-zinc-800 hover:bg-zinc-900";
+
+  const startEditing = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <section aria-labelledby="sessions-heading" className="space-y-2">
+      <h2 id="sessions-heading" className={`text-xs font-bold uppercase tracking-wider flex justify-between items-center ${subTextClass}`}>
+        Sessions
+        <span className="flex gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={locked}
+            className="p-1 rounded hover:bg-white/10 disabled:opacity-50 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none"
+            aria-label="Import a session file"
+            title="Import Session (.json)"
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            onClick={onNew}
+            disabled={locked}
+            className="p-1 rounded hover:bg-white/10 disabled:opacity-50 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none"
+            aria-label="Start a new empty session"
+            title="New Session"
+          >
+            <Plus size={14} />
+          </button>
+        </span>
+      </h2>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          // Reset so picking the same file again still fires onChange
+          e.target.value = "";
+        }}
+      />
+
+      {sessions.length === 0 ? (
+        <p className={`text-xs ${subTextClass}`}>No saved sessions yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto">
+          {sessions.map((session) => (
+            <li key={session.id} className={`rounded-md border px-2 py-1.5 text-sm ${session.id === activeSessionId ? activeClass : idleClass}`}>
+              {editingId === session.id ? (
+                <form onSubmit={commitRename} className="flex items-center gap-1">
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    className="flex-1 min-w-0 bg-transparent border-b border-zinc-600 text-sm focus:outline-none"
+                    aria-label="Session name"
+                  />
+                  <button type="submit" aria-label="Save name"><Check size={14} /></button>
+                  <button type="button" onClick={() => setEditingId(null)} aria-label="Cancel rename"><X size={14} /></button>
+                </form>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onOpen(session.id)}
+                    disabled={locked}
+                    className="flex-1 min-w-0 text-left disabled:cursor-not-allowed focus-visible:outline-none focus-visible:underline"
+                    aria-current={session.id === activeSessionId ? 'true' : undefined}
+                  >
+                    <span className="flex items-center gap-1.5 truncate">
+                      <FolderOpen size={12} aria-hidden="true" className="shrink-0" />
+                      <span className="truncate">{session.name}</span>
+                    </span>
+                    <span className={`block text-[10px] font-mono ${subTextClass}`}>
+                      {session.segmentCount} segments · {session.noteCount} notes
+                    </span>
+                  </button>
+                  <button onClick={() => startEditing(session)} className="p-1 rounded hover:bg-white/10" aria-label={`Rename ${session.name}`}>
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    disabled={locked && session.id === activeSessionId}
+                    className="p-1 rounded hover:bg-white/10 disabled:opacity-50"
+                    aria-label={`Delete ${session.name}`}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { AudioSource } from '../types';
+import { AudioInputDevice, MAX_SOURCE_GAIN, MIN_SOURCE_GAIN } from '../services/audioDevices';
+import LevelMeter from './LevelMeter';
+import { Monitor, Mic, Volume2, VolumeX } from 'lucide-react';
+
+interface SourceMixerProps {
+  inputs: AudioInputDevice[];
+  /** Chosen microphone; undefined follows the system default */
+  micDeviceId?: string;
+  onSelectDevice: (deviceId: string | undefined) => void;
+  gains: Record<AudioSource, number>;
+  onGainChange: (source: AudioSource, gain: number) => void;
+  /** Whether system audio is captured, i.e. whether its channel strip is shown */
+  systemAudioEnabled: boolean;
+  isSystemMuted: boolean;
+  onToggleSystemMute: () => void;
+  analysers: Record<AudioSource, AnalyserNode | null>;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Input device picker plus a channel strip (gain, level meter) per capture source.
+ * Changes apply live; switching devices mid-session does not drop the connection.
+ */
+const SourceMixer: React.FC<SourceMixerProps> = ({
+  inputs,
+  micDeviceId,
+  onSelectDevice,
+  gains,
+  onGainChange,
+  systemAudioEnabled,
+  isSystemMuted,
+  onToggleSystemMute,
+  analysers,
+  highContrast = false
+}) => {
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const selectClass = `w-full px-2 py-1 text-sm rounded border focus:outline-none focus:ring-2 ${
+    highContrast ? "bg-black border-white text-white focus:ring-yellow-400" : "bg-zinc-900 border-zinc-700 text-white focus:ring-indigo-500"
+  }`;
+  // The chosen device may be unplugged; keep it selectable so the choice is not lost
+  const selectedMissing = micDeviceId !== undefined && !inputs.some(d => d.deviceId === micDeviceId);
+
+  const gainSlider = (source: AudioSource, label: string) => (
+    <input
+      type="range"
+      min={MIN_SOURCE_GAIN}
+      max={MAX_SOURCE_GAIN}
+      step={0.05}
+      value={gains[source]}
+      onChange={(e) => onGainChange(source, parseFloat(e.target.value))}
+      className={`w-full h-1.5 rounded-lg appearance-none cursor-pointer ${highContrast ? 'bg-white accent-yellow-400' : 'bg-zinc-700 accent-indigo-500'}`}
+      aria-label={label}
+      aria-valuetext={`${Math.round(gains[source] * 100)}%`}
+    />
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="block space-y-1">
+        <span className={`text-xs flex items-center gap-1 ${subTextClass}`}><Mic size={12} aria-hidden="true" /> Input device</span>
+        <select
+          value={micDeviceId ?? ''}
+          onChange={(e) => onSelectDevice(e.target.value || undefined)}
+          className={selectClass}
+        >
+          <option value="">System default</option>
+          {inputs.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+          {selectedMissing && <option value={micDeviceId}>Disconnected device</option>}
+        </select>
+      </label>
+
+      <div className="space-y-1">
+        <div className={`flex justify-between text-xs ${subTextClass}`}>
+          <span>Mic gain</span>
+          <span className="font-mono">{Math.round(gains.mic * 100)}%</span>
+        </div>
+        {gainSlider('mic', 'Microphone gain')}
+        <LevelMeter analyser={analysers.mic} label="Microphone level" highContrast={highContrast} />
+      </div>
+
+      {systemAudioEnabled && (
+        <div className="space-y-1">
+          <div className={`flex justify-between items-center text-xs ${subTextClass}`}>
+            <span className="flex items-center gap-1"><Monitor size={12} aria-hidden="true" /> System gain</span>
+            <span className="flex items-center gap-2">
+              <span className="font-mono">{isSystemMuted ? 'Muted' : `${Math.round(gains.system * 100)}%`}</span>
+              <button
+                onClick={onToggleSystemMute}
+                className="rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+                aria-pressed={isSystemMuted}
+                aria-label={isSystemMuted ? "Unmute system audio" : "Mute system audio"}
+              >
+                {isSystemMuted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+              </button>
+            </span>
+          </div>
+          {gainSlider('system', 'System audio gain')}
+          <LevelMeter analyser={analysers.system} label="System audio level" highContrast={highContrast} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SourceMixer;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+
+interface SpeakerListProps {
+  /** Diarized labels present in the transcript, e.g. ["Speaker A", "Speaker B"] */
+  labels: string[];
+  /** User-edited display names keyed by label */
+  names: Record<string, string>;
+  onRename: (label: string, name: string) => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Lets the user put real names on the speakers found by the labelling pass.
+ * Names apply everywhere the label is shown (feed, exports, organizer input).
+ */
+const SpeakerList: React.FC<SpeakerListProps> = ({ labels, names, onRename, highContrast = false }) => {
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const inputClass = highContrast
+    ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+    : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500";
+
+  return (
+    <section aria-labelledby="speakers-heading" className="space-y-2">
+      <h2 id="speakers-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+        <Users size={14} aria-hidden="true" /> Speakers
+      </h2>
+      <ul className="space-y-1">
+        {labels.map(label => (
+          <li key={label} className="flex items-center gap-2">
+            <label htmlFor={`speaker-${label}`} className={`text-xs w-20 shrink-0 font-mono ${subTextClass}`}>{label}</label>
+            <input
+              id={`speaker-${label}`}
+              value={names[label] ?? ""}
+              onChange={(e) => onRename(label, e.target.value)}
+              placeholder="Name"
+              className={`flex-1 min-w-0 px-2 py-1 text-sm rounded bg-transparent border focus:outline-none focus:ring-2 ${inputClass}`}
+            />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default SpeakerList;
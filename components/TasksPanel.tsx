@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { OrganizedNote } from '../types';
+import { aggregateTasks, AggregatedTask } from '../services/actionItems';
+import { CheckSquare, Square, ListTodo } from 'lucide-react';
+
+interface TasksPanelProps {
+  notes: OrganizedNote[];
+  /** Sets the status on every underlying action item of a merged task */
+  onSetStatus: (itemIds: string[], status: 'open' | 'done') => void;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Consolidated task list for the session.
+ * Aggregates action items from all notes, merging tasks mentioned in several buffers.
+ */
+const TasksPanel: React.FC<TasksPanelProps> = ({ notes, onSetStatus, highContrast = false }) => {
+  const [showDone, setShowDone] = useState(true);
+  const tasks = useMemo(() => aggregateTasks(notes), [notes]);
+  const visibleTasks = showDone ? tasks : tasks.filter(t => t.status === 'open');
+  const openCount = tasks.filter(t => t.status === 'open').length;
+
+  const subTextClass = highContrast ? "text-yellow-300" : "text-zinc-400";
+  const rowClass = highContrast ? "bg-black border-2 border-white" : "bg-zinc-900 border border-zinc-800";
+
+  const toggle = (task: AggregatedTask) => {
+    onSetStatus(task.memberIds, task.status === 'done' ? 'open' : 'done');
+  };
+
+  if (tasks.length === 0) {
+    return (
+      <div className="mt-20 text-center px-8">
+        <ListTodo size={24} className={`mx-auto mb-4 ${subTextClass}`} aria-hidden="true" />
+        <p className={`text-sm ${subTextClass}`}>No action items have been extracted yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <section aria-label="Session tasks" className="space-y-3">
+      <div className="flex justify-between items-center">
+        <span className={`text-xs font-mono ${subTextClass}`}>{openCount} open / {tasks.length} total</span>
+        <label className={`text-xs flex items-center gap-1.5 ${subTextClass}`}>
+          <input type="checkbox" checked={showDone} onChange={(e) => setShowDone(e.target.checked)} />
+          Show completed
+        </label>
+      </div>
+      <ul className="space-y-2">
+        {visibleTasks.map(task => (
+          <li key={task.id} className={`rounded-lg p-3 flex items-start gap-3 ${rowClass}`}>
+            <button
+              onClick={() => toggle(task)}
+              role="checkbox"
+              aria-checked={task.status === 'done'}
+              aria-label={`Mark "${task.text}" as ${task.status === 'done' ? 'open' : 'done'}`}
+              className={`mt-0.5 ${highContrast ? 'text-cyan-400' : 'text-emerald-400'}`}
+            >
+              {task.status === 'done' ? <CheckSquare size={16} /> : <Square size={16} />}
+            </button>
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm ${task.status === 'done' ? 'line-through opacity-60' : ''}`}>{task.text}</p>
+              <p className={`text-xs mt-1 ${subTextClass}`}>
+                {[
+                  task.owner && `@${task.owner}`,
+                  task.dueDate && `due ${task.dueDate}`,
+                  task.mentions > 1 && `mentioned ${task.mentions}×`,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            {task.priority !== 'medium' && (
+              <span className={`text-[10px] font-bold uppercase ${task.priority === 'high' ? (highContrast ? 'text-yellow-300' : 'text-red-400') : subTextClass}`}>
+                {task.priority}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default TasksPanel;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { NoteTemplate, TemplateField } from '../types';
+import { createTemplateField, toFieldKey } from '../services/noteTemplates';
+import { LayoutTemplate, Plus, Pencil, Trash2, X } from 'lucide-react';
+
+interface TemplateManagerProps {
+  templates: NoteTemplate[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  /** Resolves to false when the template was rejected; `error` then explains why */
+  onSave: (template: NoteTemplate) => Promise<boolean>;
+  onDelete: (id: string) => void;
+  error: string | null;
+  /** Enables accessible high-contrast styling */
+  highContrast?: boolean;
+}
+
+/**
+ * Picks the note template used by the organizer and edits custom templates:
+ * a name, an instruction and any number of text or list fields.
+ */
+const TemplateManager: React.FC<TemplateManagerProps> = ({
+  templates,
+  selectedId,
+  onSelect,
+  onSave,
+  onDelete,
+  error,
+  highContrast = false
+}) => {
+  const [draft, setDraft] = useState<NoteTemplate | null>(null);
+  const selected = templates.find(t => t.id === selectedId) ?? templates[0];
+
+  const subTextClass = highContrast ? "text-yellow-200" : "text-zinc-400";
+  const inputClass = `w-full px-2 py-1 text-sm rounded bg-transparent border focus:outline-none focus:ring-2 ${
+    highContrast
+      ? "border-white text-white placeholder-zinc-400 focus:ring-yellow-400"
+      : "border-zinc-700 text-white placeholder-zinc-500 focus:ring-indigo-500"
+  }`;
+  const iconButtonClass = "p-1 rounded hover:bg-white/10 focus-visible:ring-2 focus-visible:ring-white focus-visible:outline-none";
+
+  const startNew = () => setDraft({
+    id: `template-${Date.now()}`,
+    name: '',
+    instruction: '',
+    fields: [createTemplateField('')],
+  });
+
+  const updateField = (index: number, changes: Partial<TemplateField>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      fields: draft.fields.map((field, i) => {
+        if (i !== index) return field;
+        const next = { ...field, ...changes };
+        // Keys follow the label so the extraction schema stays readable
+        return changes.label !== undefined ? { ...next, key: toFieldKey(changes.label) } : next;
+      }),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (await onSave(draft)) {
+      onSelect(draft.id);
+      setDraft(null);
+    }
+  };
+
+  return (
+    <section aria-labelledby="templates-heading" className="space-y-2">
+      <h2 id="templates-heading" className={`text-xs font-bold uppercase tracking-wider flex items-center gap-2 ${subTextClass}`}>
+        <LayoutTemplate size={14} aria-hidden="true" /> Note Template
+      </h2>
+
+      <div className="flex items-center gap-1">
+        <select
+          value={selected.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className={`${inputClass} flex-1 min-w-0 ${highContrast ? 'bg-black' : 'bg-zinc-900'}`}
+          aria-label="Note template"
+        >
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        {!selected.builtIn && (
+          <>
+            <button onClick={() => setDraft(selected)} className={iconButtonClass} aria-label={`Edit template ${selected.name}`}>
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => onDelete(selected.id)} className={iconButtonClass} aria-label={`Delete template ${selected.name}`}>
+              <Trash2 size={14} />
+            </button>
+          </>
+        )}
+        <button onClick={startNew} className={iconButtonClass} aria-label="New template">
+          <Plus size={14} />
+        </button>
+      </div>
+
+      {!draft && selected.fields.length > 0 && (
+        <p className={`text-xs ${subTextClass}`}>Extracts: {selected.fields.map(f => f.label).join(', ')}</p>
+      )}
+
+      {draft && (
+        <div className={`p-3 rounded-lg border space-y-2 ${highContrast ? 'border-white' : 'border-zinc-800 bg-zinc-950/50'}`}>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Template name"
+            className={inputClass}
+            aria-label="Template name"
+          />
+          <textarea
+            value={draft.instruction}
+            onChange={(e) => setDraft({ ...draft, instruction: e.target.value })}
+            placeholder="How should the organizer read this kind of conversation?"
+            rows={3}
+            className={inputClass}
+            aria-label="Organizer instruction"
+          />
+
+          <ul className="space-y-2">
+            {draft.fields.map((field, i) => (
+              <li key={i} className="space-y-1">
+                <div className="flex items-center gap-1">
+                  <input
+                    value={field.label}
+                    onChange={(e) => updateField(i, { label: e.target.value })}
+                    placeholder="Field label, e.g. Blockers"
+                    className={`${inputClass} flex-1 min-w-0`}
+                    aria-label={`Field ${i + 1} label`}
+                  />
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateField(i, { type: e.target.value as TemplateField['type'] })}
+                    className={`${inputClass} w-20 ${highContrast ? 'bg-black' : 'bg-zinc-900'}`}
+                    aria-label={`Field ${i + 1} type`}
+                  >
+                    <option value="list">List</option>
+                    <option value="text">Text</option>
+                  </select>
+                  <button
+                    onClick={() => setDraft({ ...draft, fields: draft.fields.filter((_, j) => j !== i) })}
+                    className={iconButtonClass}
+                    aria-label={`Remove field ${field.label || i + 1}`}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+                <input
+                  value={field.description}
+                  onChange={(e) => updateField(i, { description: e.target.value })}
+                  placeholder="What should go here? (optional)"
+                  className={`${inputClass} text-xs`}
+                  aria-label={`Field ${i + 1} description`}
+                />
+              </li>
+            ))}
+          </ul>
+
+          <button
+            onClick={() => setDraft({ ...draft, fields: [...draft.fields, createTemplateField('')] })}
+            className={`text-xs flex items-center gap-1 ${subTextClass}`}
+          >
+            <Plus size={12} aria-hidden="true" /> Add field
+          </button>
+
+          {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className={`text-xs px-2 py-1 rounded ${subTextClass}`}>Cancel</button>
+            <button
+              onClick={handleSave}
+              className={`text-xs px-3 py-1 rounded font-bold ${highContrast ? 'bg-yellow-400 text-black' : 'bg-indigo-600 text-white'}`}
+            >
+              Save template
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TemplateManager;
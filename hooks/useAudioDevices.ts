@@ -0,0 +1,32 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AudioInputDevice, listAudioInputs } from '../services/audioDevices';
+
+/**
+ * Tracks the available audio inputs, refreshing on `devicechange`
+ * (USB mics plugged in or removed, headsets connecting).
+ *
+ * Labels are only exposed after microphone permission is granted, so call
+ * `refresh` once a session has started.
+ */
+export const useAudioDevices = () => {
+  const [inputs, setInputs] = useState<AudioInputDevice[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      setInputs(listAudioInputs(await navigator.mediaDevices.enumerateDevices()));
+    } catch (e) {
+      console.warn("Could not list audio devices", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { inputs, refresh };
+};
@@ -1,7 +1,18 @@
+// @vitest-environment jsdom
 import { renderHook, act } from '@testing-library/react';
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useGeminiLive } from './useGeminiLive';
 import { AudioConfig } from '../types';
+import { LiveConnectOptions, LiveEvent, LiveTransport, LiveTransportCallbacks } from '../services/liveTransport';
+import { CaptureChunk } from '../services/captureEncoder';
+import { resample } from '../services/audioUtils';
+import { getPendingTranscript, OrganizedOffsets } from '../services/transcriptEditing';
+
+// Passes through, so tests can see how much audio is resampled at once
+vi.mock('../services/audioUtils', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../services/audioUtils')>();
+  return { ...actual, resample: vi.fn(actual.resample) };
+});
 
 // Mock Browser APIs
 const mockGetAudioTracks = vi.fn().mockReturnValue([{ enabled: true }]);
@@ -13,21 +24,80 @@ const mockMediaStream = {
 } as unknown as MediaStream;
 
 // Setup global mocks
-vi.stubGlobal('MediaStream', vi.fn().mockImplementation(() => mockMediaStream));
-
-// Robust AudioContext Mock supporting the new processing chain
-vi.stubGlobal('AudioContext', vi.fn().mockImplementation(() => ({
-  createMediaStreamSource: vi.fn().mockReturnValue({ connect: vi.fn() }),
-  createAnalyser: vi.fn().mockReturnValue({ connect: vi.fn(), fftSize: 2048 }),
-  createScriptProcessor: vi.fn().mockReturnValue({ connect: vi.fn(), onaudioprocess: null, disconnect: vi.fn() }),
-  createBiquadFilter: vi.fn().mockReturnValue({ connect: vi.fn(), frequency: { value: 0 }, type: '', Q: { value: 0 }, gain: { value: 0 } }),
-  createDynamicsCompressor: vi.fn().mockReturnValue({ connect: vi.fn(), threshold: { value: 0 }, knee: { value: 0 }, ratio: { value: 0 }, attack: { value: 0 }, release: { value: 0 } }),
-  createGain: vi.fn().mockReturnValue({ connect: vi.fn(), gain: { value: 1 } }),
-  state: 'suspended',
-  resume: vi.fn().mockResolvedValue(undefined),
-  close: vi.fn().mockResolvedValue(undefined),
-  destination: {},
-})));
+vi.stubGlobal('MediaStream', vi.fn(function () { return mockMediaStream; }));
+
+const audioParam = (value: number) => ({ value, setTargetAtTime: vi.fn() });
+const audioNode = <T extends object>(extra?: T) => ({ connect: vi.fn(), disconnect: vi.fn(), ...extra });
+
+/**
+ * AudioContext stand-in supporting the processing chain and the worklet capture node.
+ * A class, so `new AudioContext()` works like in the browser.
+ */
+class MockAudioContext {
+  state = 'suspended';
+  sampleRate = 48000;
+  currentTime = 0;
+  destination = {};
+  audioWorklet = { addModule: vi.fn().mockResolvedValue(undefined) };
+  resume = vi.fn().mockResolvedValue(undefined);
+  close = vi.fn().mockResolvedValue(undefined);
+  createMediaStreamSource = vi.fn(() => audioNode());
+  createMediaStreamDestination = vi.fn(() => audioNode({ stream: mockMediaStream }));
+  createAnalyser = vi.fn(() => audioNode({ fftSize: 2048, smoothingTimeConstant: 0 }));
+  createBiquadFilter = vi.fn(() => audioNode({ type: '', frequency: audioParam(0), Q: audioParam(0), gain: audioParam(0) }));
+  createDynamicsCompressor = vi.fn(() => audioNode({
+    threshold: audioParam(0), knee: audioParam(0), ratio: audioParam(0), attack: audioParam(0), release: audioParam(0),
+  }));
+  createGain = vi.fn(() => audioNode({ gain: audioParam(1) }));
+  createChannelMerger = vi.fn(() => audioNode());
+  /** Decodes any file to 3s of 48kHz silence */
+  decodeAudioData = vi.fn(async () => ({
+    numberOfChannels: 1,
+    sampleRate: 48000,
+    getChannelData: () => new Float32Array(48000 * 3),
+  }));
+}
+
+/** The capture worklet; tests push chunks through `emit` as if the audio thread produced them */
+class MockAudioWorkletNode {
+  static last: MockAudioWorkletNode;
+  port = { onmessage: null as ((e: { data: CaptureChunk }) => void) | null, postMessage: vi.fn(), close: vi.fn() };
+  connect = vi.fn();
+  disconnect = vi.fn();
+  constructor() {
+    MockAudioWorkletNode.last = this;
+  }
+  emit(chunk: CaptureChunk) {
+    this.port.onmessage?.({ data: chunk });
+  }
+}
+
+vi.stubGlobal('AudioContext', MockAudioContext);
+vi.stubGlobal('AudioWorkletNode', MockAudioWorkletNode);
+
+/**
+ * In-memory transport that plays back a fixed list of server events once connected,
+ * standing in for the mock live server in end-to-end pipeline tests.
+ */
+const createScriptedTransport = (events: LiveEvent[]) => {
+  const sentText: string[] = [];
+  let handlers: LiveTransportCallbacks | null = null;
+  const transport: LiveTransport = {
+    id: 'scripted',
+    connect: async (callbacks) => {
+      handlers = callbacks;
+      callbacks.onOpen();
+      return {
+        sendAudio: vi.fn(),
+        sendText: (text) => sentText.push(text),
+        endAudioStream: vi.fn(),
+        close: () => handlers?.onClose(),
+      };
+    },
+  };
+  const play = (batch = events) => batch.forEach(event => handlers?.onEvent(event));
+  return { transport, play, sentText };
+};
 
 const defaultAudioConfig: AudioConfig = {
   latencyMode: 'interactive',
@@ -88,4 +158,212 @@ describe('useGeminiLive Hook', () => {
 
     expect(result.current.errorMessage).toBe("API Key is missing.");
   });
-});
\ No newline at end of file
+
+  it('turns scripted transport events into transcript segments', async () => {
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: vi.fn().mockResolvedValue(mockMediaStream) },
+    });
+    const { transport, play, sentText } = createScriptedTransport([
+      { inputTranscription: 'Ship it ' },
+      { inputTranscription: 'on Friday.' },
+      { turnComplete: true },
+      { outputTranscription: 'Noted.' },
+      { turnComplete: true },
+    ]);
+
+    const { result } = renderHook(() => useGeminiLive({
+      apiKey: undefined,
+      transport,
+      systemAudioEnabled: false,
+      talkbackEnabled: false,
+      audioConfig: defaultAudioConfig
+    }));
+
+    await act(async () => {
+      await result.current.connect();
+    });
+    expect(result.current.status).toBe('CONNECTED');
+
+    await act(async () => {
+      play();
+    });
+
+    expect(result.current.segments.map(s => [s.sender, s.text, s.isPartial])).toEqual([
+      ['user', 'Ship it on Friday.', false],
+      ['model', 'Noted.', false],
+    ]);
+
+    act(() => {
+      result.current.sendTextMessage('Summarize please');
+    });
+    expect(sentText).toEqual(['Summarize please']);
+  });
+
+  it('applies the glossary to the segment text, including terms split across chunks', async () => {
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: vi.fn().mockResolvedValue(mockMediaStream) },
+    });
+    const { transport, play } = createScriptedTransport([
+      { inputTranscription: 'We shipped vibe ' },
+      { inputTranscription: 'note today.' },
+      { turnComplete: true },
+    ]);
+
+    const { result } = renderHook(() => useGeminiLive({
+      apiKey: undefined,
+      transport,
+      systemAudioEnabled: false,
+      talkbackEnabled: false,
+      audioConfig: defaultAudioConfig,
+      glossary: [{ id: '1', term: 'VibeNote', variants: ['vibe note'] }],
+    }));
+
+    await act(async () => {
+      await result.current.connect();
+    });
+    await act(async () => {
+      play();
+    });
+
+    expect(result.current.segments.map(s => s.text)).toEqual(['We shipped VibeNote today.']);
+  });
+
+  it('leaves text the organizer has claimed when a later chunk completes a glossary variant', async () => {
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: vi.fn().mockResolvedValue(mockMediaStream) },
+    });
+    const { transport, play } = createScriptedTransport([]);
+    const glossary = [{ id: '1', term: 'VibeNote', variants: ['vibe note'] }];
+
+    const { result, rerender } = renderHook((claimedOffsets: OrganizedOffsets) => useGeminiLive({
+      apiKey: undefined,
+      transport,
+      systemAudioEnabled: false,
+      talkbackEnabled: false,
+      audioConfig: defaultAudioConfig,
+      glossary,
+      claimedOffsets,
+    }), { initialProps: {} });
+
+    await act(async () => {
+      await result.current.connect();
+    });
+    await act(async () => {
+      play([{ inputTranscription: 'We shipped vibe ' }]);
+    });
+
+    // A manual analysis takes the open segment's text so far
+    const first = getPendingTranscript(result.current.segments, {});
+    expect(first.text).toBe('Me: We shipped vibe');
+    rerender(first.offsets);
+
+    await act(async () => {
+      play([{ inputTranscription: 'note today.' }]);
+    });
+
+    expect(result.current.segments.map(s => s.text)).toEqual(['We shipped vibe note today.']);
+    expect(getPendingTranscript(result.current.segments, first.offsets).text).toBe('Me: note today.');
+  });
+
+  it('resumes a dropped session, replays buffered audio and marks the overflow as a gap', async () => {
+    vi.useFakeTimers();
+    const getUserMedia = vi.fn().mockResolvedValue(mockMediaStream);
+    Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: { getUserMedia } });
+
+    const connections: LiveTransportCallbacks[] = [];
+    const connectOptions: (LiveConnectOptions | undefined)[] = [];
+    const sends: ReturnType<typeof vi.fn>[] = [];
+    const transport: LiveTransport = {
+      id: 'flaky',
+      connect: async (callbacks, options) => {
+        const sendAudio = vi.fn();
+        connections.push(callbacks);
+        connectOptions.push(options);
+        sends.push(sendAudio);
+        callbacks.onOpen();
+        return { sendAudio, sendText: vi.fn(), endAudioStream: vi.fn(), close: vi.fn() };
+      },
+    };
+
+    const { result } = renderHook(() => useGeminiLive({
+      apiKey: undefined,
+      transport,
+      systemAudioEnabled: false,
+      talkbackEnabled: false,
+      audioConfig: defaultAudioConfig
+    }));
+
+    await act(async () => {
+      await result.current.connect();
+    });
+
+    await act(async () => {
+      connections[0].onEvent({ resumptionHandle: 'handle-1' });
+    });
+    act(() => {
+      connections[0].onError(new Error('socket dropped'));
+    });
+    expect(result.current.isReconnecting).toBe(true);
+    expect(result.current.reconnectAttempt).toBe(1);
+
+    // 17s of audio while down: the outage buffer keeps the newest 15s
+    act(() => {
+      for (let i = 0; i < 17; i++) {
+        MockAudioWorkletNode.last.emit({ data: 'AAAA', samples: 16000, micRms: 0.1, systemRms: 0, speech: false });
+      }
+    });
+
+    await act(async () => {
+      await vi.runOnlyPendingTimersAsync();
+    });
+
+    expect(connections).toHaveLength(2);
+    expect(connectOptions.map(o => o?.resumptionHandle)).toEqual([undefined, 'handle-1']);
+    expect(result.current.status).toBe('CONNECTED');
+    expect(result.current.isReconnecting).toBe(false);
+    expect(getUserMedia).toHaveBeenCalledTimes(1);
+    expect(sends[0]).not.toHaveBeenCalled();
+    expect(sends[1]).toHaveBeenCalledTimes(15);
+    expect(result.current.segments.filter(s => s.gapMs !== undefined).map(s => s.gapMs)).toEqual([2000]);
+    vi.useRealTimers();
+  });
+
+  it('resamples an uploaded file block by block while streaming it', async () => {
+    vi.useFakeTimers();
+    const sendAudio = vi.fn();
+    const endAudioStream = vi.fn();
+    const transport: LiveTransport = {
+      id: 'file',
+      connect: async (callbacks) => {
+        callbacks.onOpen();
+        return { sendAudio, sendText: vi.fn(), endAudioStream, close: vi.fn() };
+      },
+    };
+
+    const { result } = renderHook(() => useGeminiLive({
+      apiKey: undefined,
+      transport,
+      systemAudioEnabled: false,
+      talkbackEnabled: false,
+      audioConfig: defaultAudioConfig
+    }));
+
+    const file = { arrayBuffer: async () => new ArrayBuffer(0) } as unknown as File;
+    await act(async () => {
+      const done = result.current.transcribeFile(file);
+      await vi.advanceTimersByTimeAsync(10000);
+      await done;
+    });
+
+    // 3s at 48kHz in 0.5s blocks, plus the resampler's tail
+    const blockSizes = vi.mocked(resample).mock.calls.map(([, input]) => input.length);
+    expect(blockSizes.slice(0, 6)).toEqual([24000, 24000, 24000, 24000, 24000, 24000]);
+    expect(Math.max(...blockSizes)).toBe(24000);
+    expect(sendAudio).toHaveBeenCalledTimes(7);
+    expect(endAudioStream).toHaveBeenCalledTimes(1);
+    vi.useRealTimers();
+  });
+});
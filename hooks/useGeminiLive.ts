@@ -1,90 +1,318 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { StreamStatus, TranscriptSegment, AudioConfig } from '../types';
-import { createBlob, decode, decodeAudioData, downsampleTo16k } from '../services/audioUtils';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { StreamStatus, TranscriptSegment, AudioConfig, SessionRecording, AudioSource, GlossaryTerm, SessionMetrics } from '../types';
+import { createBlob, createResampler, decode, decodeAudioData, decodeAudioFile, flushResampler, PCM_MIME_TYPE, PCM_SAMPLE_RATE, resample } from '../services/audioUtils';
+import { attributeSource, updateSourceEnergy, EMPTY_SOURCE_ENERGY, SourceEnergy } from '../services/speakers';
+import { createGeminiLiveTransport, LiveConnection, LiveEvent, LiveTransport } from '../services/liveTransport';
+import { backoffDelay, bufferOutageAudio, createOutageBuffer, drainOutageBuffer, MAX_RECONNECT_ATTEMPTS } from '../services/reconnect';
+import { AudioInputDevice, buildMicConstraints, DEFAULT_SOURCE_GAINS, resolveInputDevice } from '../services/audioDevices';
+import { CAPTURE_CHUNK_MS, CaptureChunk, chunkDurationMs } from '../services/captureEncoder';
+import { CaptureNode, createCaptureNode } from '../services/captureNode';
+import { applyGlossary } from '../services/glossary';
+import { OrganizedOffsets } from '../services/transcriptEditing';
+import { addMetrics, EMPTY_SESSION_METRICS } from '../services/metrics';
+import { createPlaybackQueue, enqueuePlayback, flushPlayback, PlaybackQueue, setPlaybackRate as applyPlaybackRate, setPlaybackVolume as applyPlaybackVolume } from '../services/playbackQueue';
 
 export interface UseGeminiLiveProps {
   apiKey: string | undefined;
+  /** Live session backend (e.g. the local mock server). Defaults to Gemini Live with `apiKey` */
+  transport?: LiveTransport | null;
   /** Whether to capture and stream system audio (if supported) */
   systemAudioEnabled: boolean;
   /** Whether the AI's voice response should be played back */
   talkbackEnabled: boolean;
   /** Audio quality configuration */
   audioConfig: AudioConfig;
+  /** Connected audio inputs; when this changes mid-session the microphone is hot-swapped */
+  availableInputs?: AudioInputDevice[];
+  /** Receives the local recording of the processed input audio when capture stops */
+  onRecordingComplete?: (recording: SessionRecording) => void;
+  /** Known mis-hearings in the input transcription are rewritten to these terms */
+  glossary?: GlossaryTerm[];
+  /** Characters of each segment already handed to the organizer; the glossary never rewrites them */
+  claimedOffsets?: OrganizedOffsets;
+  /** Receives usage counters (audio sent, tokens, reconnects, dropped sends) to add to the session totals */
+  onMetrics?: (delta: SessionMetrics) => void;
 }
 
+/** Samples per chunk when streaming an uploaded recording (0.5s at 16kHz) */
+const FILE_CHUNK_SAMPLES = 8000;
+/** How much faster than real time uploaded recordings are streamed */
+const FILE_STREAM_SPEED = 2;
+/** Grace period after the last chunk so trailing transcriptions can arrive */
+const FILE_TAIL_MS = 4000;
+/** Time constant for gain changes, short enough to feel instant without clicks */
+const GAIN_RAMP_SECONDS = 0.02;
+
+const NO_SOURCE_ANALYSERS: Record<AudioSource, AnalyserNode | null> = { mic: null, system: null };
+const NO_GLOSSARY: GlossaryTerm[] = [];
+const NO_CLAIMED_OFFSETS: OrganizedOffsets = {};
+/** Model turns whose audio is kept for replay (about 100KB per second of speech) */
+const MAX_REPLAYABLE_TURNS = 20;
+/** Usage counters change with every audio chunk, so they are handed over at most this often */
+const METRICS_FLUSH_MS = 1000;
+
+/**
+ * Opens the microphone, falling back to the default device when the chosen one
+ * is unplugged or no longer matches. Returns the device id actually requested.
+ */
+const openMicrophone = async (deviceId?: string) => {
+  try {
+    return { stream: await navigator.mediaDevices.getUserMedia({ audio: buildMicConstraints(deviceId) }), deviceId };
+  } catch (e) {
+    const name = (e as Error)?.name;
+    if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw e;
+    console.warn(`Microphone ${deviceId} unavailable, using the default device`, e);
+    return { stream: await navigator.mediaDevices.getUserMedia({ audio: buildMicConstraints() }), deviceId: undefined };
+  }
+};
+
 /**
  * A comprehensive hook that manages the Gemini Live API session.
  * 
  * Responsibilities:
- * 1. Manages WebSocket connection state (connect/disconnect/reconnect).
+ * 1. Manages the live connection state (connect/disconnect/reconnect) over a LiveTransport.
  * 2. Sets up the Web Audio API graph (Microphone -> Processing -> API).
  * 3. Applies a professional "Vocal Chain" (EQ, Compressor, Gate) to input.
  * 4. Handles real-time audio streaming and transcript buffering.
  * 5. Manages audio playback of the model's response.
  */
-export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, audioConfig }: UseGeminiLiveProps) => {
+export const useGeminiLive = ({ apiKey, transport, systemAudioEnabled, talkbackEnabled, audioConfig, availableInputs = [], onRecordingComplete, glossary = NO_GLOSSARY, claimedOffsets = NO_CLAIMED_OFFSETS, onMetrics }: UseGeminiLiveProps) => {
   const [status, setStatus] = useState<StreamStatus>(StreamStatus.DISCONNECTED);
   const [segments, setSegments] = useState<TranscriptSegment[]>([]);
-  const [currentTranscriptBuffer, setCurrentTranscriptBuffer] = useState("");
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [isMicOn, setIsMicOn] = useState(true);
+  const [isSystemMuted, setIsSystemMuted] = useState(false);
+  // Post-gain level meters per capture channel
+  const [sourceAnalysers, setSourceAnalysers] = useState(NO_SOURCE_ANALYSERS);
+  // Voice activity detector's verdict for the latest captured chunk
+  const [isSpeechDetected, setIsSpeechDetected] = useState(false);
+  // Talkback output controls
+  const [playbackVolume, setPlaybackVolume] = useState(1);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  // Model segments whose audio can be replayed
+  const [replayableTurnIds, setReplayableTurnIds] = useState<Set<string>>(() => new Set());
   
   // State to track if the system is currently trying to recover from a dropped connection
   const [isReconnecting, setIsReconnecting] = useState(false);
+  // 1-based number of the reconnection attempt in progress, 0 when connected
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  // Upload progress (0-1) while an imported recording is being streamed, null otherwise
+  const [fileProgress, setFileProgress] = useState<number | null>(null);
 
-  // Buffer Debounce Refs
-  const bufferAccumulatorRef = useRef("");
-  const bufferDebounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Speaker Attribution Refs
+  const sourceEnergyRef = useRef<SourceEnergy>(EMPTY_SOURCE_ENERGY);
+  const hasSystemAudioRef = useRef(false);
+  const isSpeechDetectedRef = useRef(false);
 
   // Audio Context & Pipeline Refs
   const audioContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const systemStreamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const captureNodeRef = useRef<CaptureNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const systemSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const sessionRef = useRef<any>(null);
-  const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const sessionRef = useRef<LiveConnection | null>(null);
+
+  // Talkback Refs
+  // Own context, so replies can still be replayed after capture has stopped
+  const playbackQueueRef = useRef<PlaybackQueue | null>(null);
+  // Segment id of the model turn in progress; its audio is stored under it for replay
+  const modelTurnIdRef = useRef<string | null>(null);
+  const turnAudioRef = useRef<Map<string, AudioBuffer[]>>(new Map());
+
+  // Device & Mixing Refs
+  // First node of the mic vocal chain; a hot-swapped microphone is connected here
+  const micChainInputRef = useRef<AudioNode | null>(null);
+  const sourceGainNodesRef = useRef<Partial<Record<AudioSource, GainNode>>>({});
+  // Device id the current mic stream was requested with (undefined = system default)
+  const activeMicRequestRef = useRef<string | undefined>(undefined);
+  // Latest `swapMicrophone`, so track `ended` handlers always call the current one
+  const swapMicrophoneRef = useRef<((deviceId?: string) => Promise<void>) | null>(null);
+  const isMicOnRef = useRef(isMicOn);
+  const isSystemMutedRef = useRef(isSystemMuted);
+
+  // Local Recording Refs
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordingIdRef = useRef<string | null>(null);
+  const recordingStartRef = useRef(0);
+  const onRecordingCompleteRef = useRef(onRecordingComplete);
+
+  // Usage Metrics Refs
+  const pendingMetricsRef = useRef<SessionMetrics>(EMPTY_SESSION_METRICS);
+  const metricsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onMetricsRef = useRef(onMetrics);
   
   // Ref to hold latest config without triggering re-connects
   const configRef = useRef<AudioConfig>(audioConfig);
   // Ref to hold latest talkback setting to avoid stale closures in callbacks
   const talkbackRef = useRef(talkbackEnabled);
+  const playbackVolumeRef = useRef(playbackVolume);
+  const playbackRateRef = useRef(playbackRate);
+  const glossaryRef = useRef(glossary);
+  const claimedOffsetsRef = useRef(claimedOffsets);
   
   // Strict flag to control data flow. 
   // Prevents sending data to a closed socket during race conditions.
   const isLiveRef = useRef(false);
-  // Flag to track if we should auto-reconnect on error/close
-  const shouldReconnectRef = useRef(false);
+  // Reconnection state: attempts so far, the pending retry, and audio captured while down
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const outageBufferRef = useRef(createOutageBuffer());
+  // Incremented per opened session; callbacks from older sessions are ignored
+  const sessionGenerationRef = useRef(0);
+  // Where the audio being sent comes from: live devices or an uploaded recording
+  const sourceModeRef = useRef<'live' | 'file'>('live');
+  // Latest server handle for resuming the conversation after a drop
+  const resumptionHandleRef = useRef<string | null>(null);
+  // Latest `resumeSession`, so session callbacks can reconnect without a circular dependency
+  const reconnectRef = useRef<(() => void) | null>(null);
 
   // Update refs when props change
   useEffect(() => {
     configRef.current = audioConfig;
   }, [audioConfig]);
 
+  useEffect(() => {
+    glossaryRef.current = glossary;
+  }, [glossary]);
+
+  useEffect(() => {
+    claimedOffsetsRef.current = claimedOffsets;
+  }, [claimedOffsets]);
+
   useEffect(() => {
     talkbackRef.current = talkbackEnabled;
+    if (!talkbackEnabled && playbackQueueRef.current) flushPlayback(playbackQueueRef.current);
   }, [talkbackEnabled]);
+
+  useEffect(() => {
+    playbackVolumeRef.current = playbackVolume;
+    if (playbackQueueRef.current) applyPlaybackVolume(playbackQueueRef.current, playbackVolume);
+  }, [playbackVolume]);
+
+  useEffect(() => {
+    playbackRateRef.current = playbackRate;
+    if (playbackQueueRef.current) applyPlaybackRate(playbackQueueRef.current, playbackRate);
+  }, [playbackRate]);
+
+  useEffect(() => {
+    isMicOnRef.current = isMicOn;
+  }, [isMicOn]);
+
+  useEffect(() => {
+    isSystemMutedRef.current = isSystemMuted;
+  }, [isSystemMuted]);
+
+  useEffect(() => {
+    onRecordingCompleteRef.current = onRecordingComplete;
+  }, [onRecordingComplete]);
+
+  useEffect(() => {
+    onMetricsRef.current = onMetrics;
+  }, [onMetrics]);
+
+  /**
+   * Adds to the usage counters and hands them to `onMetrics` in batches.
+   */
+  const recordMetrics = useCallback((delta: Partial<SessionMetrics>) => {
+    pendingMetricsRef.current = addMetrics(pendingMetricsRef.current, delta);
+    if (metricsTimerRef.current) return;
+    metricsTimerRef.current = setTimeout(() => {
+      metricsTimerRef.current = null;
+      const pending = pendingMetricsRef.current;
+      pendingMetricsRef.current = EMPTY_SESSION_METRICS;
+      onMetricsRef.current?.(pending);
+    }, METRICS_FLUSH_MS);
+  }, []);
+
+  const liveTransport = useMemo(
+    () => transport ?? (apiKey ? createGeminiLiveTransport(apiKey) : null),
+    [transport, apiKey]
+  );
+
+  /**
+   * Returns the recording position for a segment starting now, so the transcript
+   * can seek into the local recording. Empty when nothing is being recorded.
+   */
+  const currentRecordingPosition = (): Pick<TranscriptSegment, 'recordingId' | 'recordingOffsetMs'> => {
+    if (!recordingIdRef.current) return {};
+    return {
+      recordingId: recordingIdRef.current,
+      recordingOffsetMs: Date.now() - recordingStartRef.current,
+    };
+  };
   
   /**
-   * Batches incoming text chunks to prevent excessive React state updates.
-   * Flushes to state every 200ms.
+   * Which channel the user speech currently being transcribed came from.
+   * Without system audio everything is attributed to the mic.
    */
-  const queueTranscriptUpdate = useCallback((text: string) => {
-    bufferAccumulatorRef.current += " " + text;
-
-    if (!bufferDebounceTimerRef.current) {
-      bufferDebounceTimerRef.current = setTimeout(() => {
-        const textToFlush = bufferAccumulatorRef.current;
-        if (textToFlush) {
-           setCurrentTranscriptBuffer((prev) => prev + textToFlush);
-           bufferAccumulatorRef.current = "";
+  const currentInputSource = (): AudioSource =>
+    hasSystemAudioRef.current ? attributeSource(sourceEnergyRef.current) : 'mic';
+
+  /**
+   * Receives a finished chunk from the capture node: updates speaker attribution,
+   * then streams it, or holds it while the session is reconnecting.
+   */
+  const handleCaptureChunk = (chunk: CaptureChunk) => {
+    if (!isLiveRef.current || !audioContextRef.current) return;
+
+    if (hasSystemAudioRef.current) {
+      sourceEnergyRef.current = updateSourceEnergy(sourceEnergyRef.current, chunk.micRms, chunk.systemRms, chunkDurationMs(chunk));
+    }
+
+    const session = sessionRef.current;
+    if (chunk.speech !== isSpeechDetectedRef.current) {
+      isSpeechDetectedRef.current = chunk.speech;
+      setIsSpeechDetected(chunk.speech);
+      // Barge-in: stop talking as soon as the user does, before the server notices
+      if (chunk.speech && chunk.micRms >= chunk.systemRms && playbackQueueRef.current) {
+        flushPlayback(playbackQueueRef.current);
+      }
+      // Silence is no longer streamed, so tell the model the audio paused and let it flush
+      if (!chunk.speech && configRef.current.skipSilence && session) {
+        try {
+          session.endAudioStream();
+        } catch (e) {
+          console.debug("Audio stream end error (ignoring):", e);
+          recordMetrics({ droppedSends: 1 });
         }
-        bufferDebounceTimerRef.current = null;
-      }, 200); // 200ms debounce
+      }
+    }
+    if (chunk.samples === 0) return;
+
+    const pcmBlob = { data: chunk.data, mimeType: PCM_MIME_TYPE };
+    if (!session) {
+      bufferOutageAudio(outageBufferRef.current, pcmBlob, chunkDurationMs(chunk));
+      return;
+    }
+    try {
+      session.sendAudio(pcmBlob);
+      recordMetrics({ audioSecondsSent: chunkDurationMs(chunk) / 1000 });
+    } catch (e) {
+      console.debug("Send error (ignoring):", e);
+      recordMetrics({ droppedSends: 1 });
     }
+  };
+
+  /**
+   * Re-opens the microphone when its track ends (device unplugged, or the OS
+   * default changed). Tracks stopped by us do not fire `ended`.
+   */
+  const watchMicTrack = (stream: MediaStream) => {
+    stream.getAudioTracks().forEach(track => {
+      track.onended = () => {
+        console.log("Microphone track ended, re-opening input");
+        swapMicrophoneRef.current?.(activeMicRequestRef.current);
+      };
+    });
+  };
+
+  /**
+   * Mutes system audio at its gain stage; the mic is muted at the track (`toggleMic`).
+   */
+  const toggleSystemMute = useCallback(() => {
+    setIsSystemMuted(prev => !prev);
   }, []);
 
   /**
@@ -119,17 +347,66 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
          sender: 'user', 
          text: text, 
          timestamp: new Date(), 
-         isPartial: false 
+         isPartial: false,
+         source: 'mic'
      }]);
-     queueTranscriptUpdate(text);
 
      // Send to API if connected
      if (sessionRef.current && isLiveRef.current) {
-         sessionRef.current.sendRealtimeInput({
-             text: text
-         });
+         sessionRef.current.sendText(text);
      }
-  }, [queueTranscriptUpdate]);
+  }, []);
+
+  /**
+   * Returns the talkback queue, creating its AudioContext on first use. Called from
+   * user gestures (connect, replay) so the context is allowed to start.
+   */
+  const ensurePlaybackQueue = useCallback(() => {
+    if (!playbackQueueRef.current) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const queue = createPlaybackQueue(new AudioContextClass());
+      applyPlaybackVolume(queue, playbackVolumeRef.current);
+      applyPlaybackRate(queue, playbackRateRef.current);
+      playbackQueueRef.current = queue;
+    }
+    const queue = playbackQueueRef.current;
+    if (queue.ctx.state === 'suspended') {
+      queue.ctx.resume().catch(e => console.warn("Playback context resume error", e));
+    }
+    return queue;
+  }, []);
+
+  /** Id of the model turn in progress, starting one if needed; also used as its segment id */
+  const currentModelTurnId = () => {
+    if (!modelTurnIdRef.current) modelTurnIdRef.current = Date.now().toString();
+    return modelTurnIdRef.current;
+  };
+
+  const storeTurnAudio = (turnId: string, buffer: AudioBuffer) => {
+    const turns = turnAudioRef.current;
+    const buffers = turns.get(turnId);
+    if (buffers) buffers.push(buffer);
+    else turns.set(turnId, [buffer]);
+    // Maps iterate in insertion order, so the first key is the oldest turn
+    while (turns.size > MAX_REPLAYABLE_TURNS) turns.delete(turns.keys().next().value!);
+  };
+
+  /** Closes the model turn in progress and makes its audio available for replay */
+  const endModelTurn = () => {
+    modelTurnIdRef.current = null;
+    setReplayableTurnIds(new Set(turnAudioRef.current.keys()));
+  };
+
+  /**
+   * Plays a model turn's audio again, replacing anything currently playing.
+   */
+  const replayTurn = useCallback((segmentId: string) => {
+    const buffers = turnAudioRef.current.get(segmentId);
+    if (!buffers) return;
+    const queue = ensurePlaybackQueue();
+    flushPlayback(queue);
+    buffers.forEach(buffer => enqueuePlayback(queue, buffer));
+  }, [ensurePlaybackQueue]);
 
   /**
    * Gracefully shuts down the entire audio pipeline and WebSocket.
@@ -138,27 +415,24 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
   const stopAudioPipeline = useCallback(() => {
     isLiveRef.current = false; // Immediately stop sending data
 
-    // Clear debounce timer and pending buffer
-    if (bufferDebounceTimerRef.current) {
-      clearTimeout(bufferDebounceTimerRef.current);
-      bufferDebounceTimerRef.current = null;
+    // Finalize the local recording; the blob is assembled asynchronously in onstop
+    if (recorderRef.current) {
+      if (recorderRef.current.state !== 'inactive') {
+        recorderRef.current.stop();
+      }
+      recorderRef.current = null;
     }
-    bufferAccumulatorRef.current = "";
+    recordingIdRef.current = null;
 
-    // Stop all currently playing audio sources
-    if (audioSourcesRef.current) {
-      audioSourcesRef.current.forEach(source => {
-        try {
-          source.stop();
-        } catch (e) { /* ignore */ }
-      });
-      audioSourcesRef.current.clear();
+    // Stop the model mid-sentence rather than letting queued audio play out
+    if (playbackQueueRef.current) {
+      flushPlayback(playbackQueueRef.current);
     }
+    modelTurnIdRef.current = null;
 
-    if (processorRef.current) {
-      processorRef.current.disconnect();
-      processorRef.current.onaudioprocess = null;
-      processorRef.current = null;
+    if (captureNodeRef.current) {
+      captureNodeRef.current.dispose();
+      captureNodeRef.current = null;
     }
     if (sourceRef.current) {
       sourceRef.current.disconnect();
@@ -168,6 +442,12 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
       systemSourceRef.current.disconnect();
       systemSourceRef.current = null;
     }
+    micChainInputRef.current = null;
+    sourceGainNodesRef.current = {};
+    activeMicRequestRef.current = undefined;
+    setSourceAnalysers(NO_SOURCE_ANALYSERS);
+    isSpeechDetectedRef.current = false;
+    setIsSpeechDetected(false);
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(t => t.stop());
       streamRef.current = null;
@@ -183,20 +463,130 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
     setAnalyser(null);
   }, []);
 
+  /**
+   * Records the processed input mix (vocal chain + system audio) locally with MediaRecorder.
+   * The recording belongs to the session that was active when it started, even if another
+   * session is open by the time it finishes. Silently skipped on browsers without
+   * MediaRecorder support.
+   */
+  const startLocalRecording = useCallback((ctx: AudioContext, source: AudioNode, sessionId: string) => {
+    if (typeof MediaRecorder === 'undefined') return;
+
+    try {
+      const destination = ctx.createMediaStreamDestination();
+      source.connect(destination);
+
+      const mimeType = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4']
+        .find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+      const recorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+
+      const id = `recording-${Date.now()}`;
+      const startedAt = new Date();
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        if (chunks.length === 0) return;
+        const blob = new Blob(chunks, { type: recorder.mimeType || mimeType });
+        onRecordingCompleteRef.current?.({
+          id,
+          sessionId,
+          blob,
+          mimeType: blob.type,
+          startedAt,
+          durationMs: Date.now() - startedAt.getTime(),
+        });
+      };
+
+      // Collect data every second instead of in one large flush at stop()
+      recorder.start(1000);
+      recorderRef.current = recorder;
+      recordingIdRef.current = id;
+      recordingStartRef.current = startedAt.getTime();
+    } catch (e) {
+      console.warn("Local recording unavailable", e);
+    }
+  }, []);
+
+  /**
+   * Stops any pending retry and forgets audio buffered during an outage.
+   */
+  const cancelReconnect = useCallback(() => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    drainOutageBuffer(outageBufferRef.current);
+    setReconnectAttempt(0);
+    setIsReconnecting(false);
+  }, []);
+
+  /**
+   * Adds a transcript marker for audio that was never transcribed. It points into
+   * the local recording (when one is running) so the missed audio can still be played.
+   */
+  const addGapMarker = useCallback((startedAt: Date, durationMs: number) => {
+    const recording = recordingIdRef.current
+      ? { recordingId: recordingIdRef.current, recordingOffsetMs: startedAt.getTime() - recordingStartRef.current }
+      : {};
+    setSegments(prev => [...prev, {
+      id: `gap-${startedAt.getTime()}`,
+      sender: 'user',
+      text: '',
+      timestamp: startedAt,
+      isPartial: false,
+      gapMs: Math.round(durationMs),
+      ...recording,
+    }]);
+  }, []);
+
+  /**
+   * Schedules the next reconnection attempt with capped exponential backoff.
+   * After MAX_RECONNECT_ATTEMPTS the session ends in ERROR, marking everything
+   * captured since the drop as a gap.
+   */
+  const scheduleReconnect = useCallback(() => {
+    const attempt = reconnectAttemptRef.current;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn(`Giving up after ${attempt} reconnection attempts`);
+      const { bufferedMs, droppedMs, startedAt } = drainOutageBuffer(outageBufferRef.current);
+      if (startedAt) addGapMarker(startedAt, bufferedMs + droppedMs);
+      cancelReconnect();
+      isLiveRef.current = false;
+      setErrorMessage("Connection lost. Could not reconnect to the live session.");
+      setStatus(StreamStatus.ERROR);
+      stopAudioPipeline();
+      return;
+    }
+
+    reconnectAttemptRef.current = attempt + 1;
+    recordMetrics({ reconnects: 1 });
+    setReconnectAttempt(attempt + 1);
+    setIsReconnecting(true);
+    setStatus(StreamStatus.CONNECTING);
+
+    const delay = backoffDelay(attempt);
+    console.log(`Reconnecting in ${delay}ms (attempt ${attempt + 1} of ${MAX_RECONNECT_ATTEMPTS})`);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      reconnectRef.current?.();
+    }, delay);
+  }, [addGapMarker, cancelReconnect, stopAudioPipeline, recordMetrics]);
+
   /**
    * Manually disconnects the session (User interaction).
    * Disables auto-reconnection logic.
    */
   const disconnect = useCallback(() => {
-    shouldReconnectRef.current = false; // User explicitly stopped, do not reconnect
     isLiveRef.current = false;
-    setIsReconnecting(false);
+    cancelReconnect();
     
     if (sessionRef.current) {
       try {
-        if (typeof sessionRef.current.close === 'function') {
-           sessionRef.current.close();
-        }
+        sessionRef.current.close();
       } catch (e) {
         console.warn("Could not close session explicitly", e);
       }
@@ -204,32 +594,176 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
     }
     stopAudioPipeline();
     setStatus(StreamStatus.DISCONNECTED);
-  }, [stopAudioPipeline]);
+  }, [stopAudioPipeline, cancelReconnect]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       isLiveRef.current = false;
-      shouldReconnectRef.current = false;
-      if (bufferDebounceTimerRef.current) {
-        clearTimeout(bufferDebounceTimerRef.current);
+      if (metricsTimerRef.current) {
+        clearTimeout(metricsTimerRef.current);
       }
       disconnect();
+      playbackQueueRef.current?.ctx.close().catch(e => console.warn("Context close error", e));
+      playbackQueueRef.current = null;
     };
   }, [disconnect]);
 
+  /**
+   * Opens a live session on the given transport, wired to the transcript/playback callbacks.
+   * Shared by live capture (`connect`) and recording upload (`transcribeFile`).
+   * With a resumption handle, the server restores that session's conversation.
+   */
+  const openLiveSession = useCallback((transport: LiveTransport, resumptionHandle?: string) => {
+    const generation = ++sessionGenerationRef.current;
+    const isCurrent = () => generation === sessionGenerationRef.current;
+
+    /**
+     * A live capture session dropped: keep the audio pipeline (and its granted
+     * streams) running, buffer what it captures and reconnect in the background.
+     */
+    const handleConnectionLost = () => {
+      // Close and error usually both fire; only the first one counts
+      sessionGenerationRef.current++;
+      sessionRef.current = null;
+      // The next session starts a fresh turn, so nothing will complete these
+      setSegments(prev => prev.map(s => s.isPartial ? { ...s, isPartial: false } : s));
+      scheduleReconnect();
+    };
+
+    return transport.connect({
+        onOpen: () => {
+          if (!isCurrent()) return;
+           // If user disconnected while connecting, abort
+          if (!isLiveRef.current) {
+               console.log("Connection opened but user cancelled. Closing.");
+               return;
+          }
+          console.log(`Live session connected (${transport.id})`);
+          setStatus(StreamStatus.CONNECTED);
+        },
+        onEvent: async (event: LiveEvent) => {
+          if (!isCurrent()) return;
+          try {
+            if (event.usage) {
+              recordMetrics({ liveInputTokens: event.usage.inputTokens, liveOutputTokens: event.usage.outputTokens });
+            }
+            if (event.resumptionHandle) resumptionHandleRef.current = event.resumptionHandle;
+
+            // Handle Interruption: the user talked over the model, so drop the rest of its reply
+            if (event.interrupted) {
+              if (playbackQueueRef.current) flushPlayback(playbackQueueRef.current);
+              setSegments(prev => prev.map(s => s.sender === 'model' && s.isPartial ? { ...s, isPartial: false } : s));
+              endModelTurn();
+            }
+
+            // Handle User Transcription
+            if (event.inputTranscription) {
+              const text = event.inputTranscription;
+              const source = currentInputSource();
+              const glossaryTerms = glossaryRef.current;
+              setSegments(prev => {
+                const last = prev[prev.length - 1];
+                // Append to partial segment if it exists and the same channel is still talking.
+                // The glossary runs over the whole text, as a mis-heard term can span two chunks,
+                // but leaves text the organizer already has so its offsets stay valid.
+                if (last && last.sender === 'user' && last.isPartial && last.source === source) {
+                  const updated = [...prev];
+                  updated[updated.length - 1] = { ...last, text: applyGlossary(last.text + text, glossaryTerms, claimedOffsetsRef.current[last.id] ?? 0) };
+                  return updated;
+                }
+                // Start new segment
+                return [...prev, { id: Date.now().toString(), sender: 'user', text: applyGlossary(text, glossaryTerms), timestamp: new Date(), isPartial: true, source, ...currentRecordingPosition() }];
+              });
+            }
+
+            // Spoken replies arrive as output transcription, text-mode replies as text
+            const modelText = event.outputTranscription ?? event.text;
+            // Audio and transcription of one reply share the turn id
+            const modelTurnId = modelText || event.audio ? currentModelTurnId() : null;
+
+            // Handle Model Transcription
+            if (modelText && modelTurnId) {
+              const text = modelText;
+              setSegments(prev => {
+                const last = prev[prev.length - 1];
+                if (last && last.sender === 'model' && last.isPartial) {
+                  const updated = [...prev];
+                  updated[updated.length - 1] = { ...last, text: last.text + text };
+                  return updated;
+                }
+                return [...prev, { id: modelTurnId, sender: 'model', text, timestamp: new Date(), isPartial: true }];
+              });
+            }
+
+            // Handle Audio Output: queue it gaplessly and keep it for replay
+            const audioData = event.audio;
+            const queue = playbackQueueRef.current;
+            if (audioData && modelTurnId && queue && sourceModeRef.current === 'live') {
+              try {
+                const audioBuffer = await decodeAudioData(decode(audioData), queue.ctx);
+                storeTurnAudio(modelTurnId, audioBuffer);
+                if (talkbackRef.current && isCurrent()) enqueuePlayback(queue, audioBuffer);
+              } catch (decodeErr) {
+                console.error("Audio decode error:", decodeErr);
+              }
+            }
+
+            // Handle Turn Completion (after the audio, which belongs to the turn being closed)
+            if (event.turnComplete) {
+              setSegments(prev => prev.map(s => ({ ...s, isPartial: false })));
+              endModelTurn();
+            }
+          } catch (err) {
+            console.error("Error processing message:", err);
+          }
+        },
+        onClose: () => {
+          if (!isCurrent()) return;
+          console.log("Live session closed");
+          // Servers also end sessions cleanly (e.g. on time limits); live capture resumes either way
+          if (isLiveRef.current && sourceModeRef.current === 'live') {
+              handleConnectionLost();
+              return;
+          }
+          setStatus(StreamStatus.DISCONNECTED);
+          stopAudioPipeline();
+        },
+        onError: (err: unknown) => {
+          if (!isCurrent()) return;
+          console.error("Live session error", err);
+          
+          if (isLiveRef.current && sourceModeRef.current === 'file') {
+              // Recordings are re-uploaded from the start rather than resumed mid-file
+              setErrorMessage("Connection lost while transcribing the recording.");
+              setStatus(StreamStatus.ERROR);
+              isLiveRef.current = false;
+              stopAudioPipeline();
+          } else if (isLiveRef.current) {
+              // Auto-retry: don't show error UI, keep capturing and reconnect in the background
+              console.log("Connection dropped while active. Initiating auto-reconnect...");
+              handleConnectionLost();
+          } else {
+               stopAudioPipeline();
+          }
+        }
+    }, { resumptionHandle });
+  }, [stopAudioPipeline, scheduleReconnect, recordMetrics]);
+
   /**
    * Main function to establish the connection and start the session.
+   * The input audio is recorded locally for `sessionId`; without one nothing is recorded.
    */
-  const connect = useCallback(async () => {
-    if (!apiKey) {
+  const connect = useCallback(async (sessionId?: string) => {
+    if (!liveTransport) {
       setErrorMessage("API Key is missing.");
       return;
     }
     
     // Reset flags
     isLiveRef.current = true;
-    shouldReconnectRef.current = false;
+    cancelReconnect();
+    sourceModeRef.current = 'live';
     
     setErrorMessage(null);
     setStatus(StreamStatus.CONNECTING);
@@ -245,19 +779,13 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
         await ctx.resume();
       }
       audioContextRef.current = ctx;
+      ensurePlaybackQueue();
 
       // 2. Setup Audio Inputs (Microphone) with Speech Optimization constraints
-      const micStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          echoCancellation: true,
-          autoGainControl: true,
-          noiseSuppression: true,
-          // @ts-ignore - Experimental constraint for better voice isolation on supported devices
-          voiceIsolation: true 
-        }
-      });
+      const { stream: micStream, deviceId: micDeviceId } = await openMicrophone(configRef.current.micDeviceId);
       streamRef.current = micStream;
+      activeMicRequestRef.current = micDeviceId;
+      watchMicTrack(micStream);
       
       micStream.getAudioTracks().forEach(track => {
         track.enabled = isMicOn;
@@ -277,131 +805,11 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
         }
       }
 
-      // 4. Connect to Gemini Live API
-      const ai = new GoogleGenAI({ apiKey });
-      const config = {
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          systemInstruction: "You are a helpful, concise assistant participating in a meeting or brainstorming session. You understand English, Telugu, and Hindi. Listen carefully. When you speak, be brief and professional.",
-        },
-        callbacks: {
-          onopen: () => {
-             // If user disconnected while connecting, abort
-            if (!isLiveRef.current) {
-                 console.log("Connection opened but user cancelled. Closing.");
-                 return;
-            }
-            console.log("Gemini Live Connected");
-            setStatus(StreamStatus.CONNECTED);
-            setIsReconnecting(false); // Clear reconnecting flag on success
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            try {
-              // Handle User Transcription
-              const inputTranscript = msg.serverContent?.inputTranscription;
-              if (inputTranscript?.text) {
-                const text = inputTranscript.text;
-                setSegments(prev => {
-                  const last = prev[prev.length - 1];
-                  // Append to partial segment if it exists
-                  if (last && last.sender === 'user' && last.isPartial) {
-                    const updated = [...prev];
-                    updated[updated.length - 1] = { ...last, text: last.text + text };
-                    return updated;
-                  }
-                  // Start new segment
-                  return [...prev, { id: Date.now().toString(), sender: 'user', text, timestamp: new Date(), isPartial: true }];
-                });
-                queueTranscriptUpdate(text);
-              }
-
-              // Handle Model Transcription
-              const outputTranscript = msg.serverContent?.outputTranscription;
-              if (outputTranscript?.text) {
-                const text = outputTranscript.text;
-                setSegments(prev => {
-                  const last = prev[prev.length - 1];
-                  if (last && last.sender === 'model' && last.isPartial) {
-                    const updated = [...prev];
-                    updated[updated.length - 1] = { ...last, text: last.text + text };
-                    return updated;
-                  }
-                  return [...prev, { id: Date.now().toString(), sender: 'model', text, timestamp: new Date(), isPartial: true }];
-                });
-                queueTranscriptUpdate(text);
-              }
-
-              // Handle Turn Completion
-              if (msg.serverContent?.turnComplete) {
-                setSegments(prev => prev.map(s => ({ ...s, isPartial: false })));
-              }
-
-              // Handle Audio Output
-              const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-              if (audioData && audioContextRef.current && talkbackRef.current) {
-                try {
-                  const audioBuffer = await decodeAudioData(decode(audioData), audioContextRef.current);
-                  const source = audioContextRef.current.createBufferSource();
-                  source.buffer = audioBuffer;
-                  source.connect(audioContextRef.current.destination);
-                  
-                  source.onended = () => {
-                    audioSourcesRef.current.delete(source);
-                  };
-                  audioSourcesRef.current.add(source);
-                  
-                  source.start();
-                } catch (decodeErr) {
-                  console.error("Audio decode error:", decodeErr);
-                }
-              }
-            } catch (err) {
-              console.error("Error processing message:", err);
-            }
-          },
-          onclose: () => {
-            console.log("Gemini Live Closed");
-            if (shouldReconnectRef.current) {
-                console.log("Reconnecting flag set, skipping disconnect status update.");
-                return;
-            }
-            setStatus(StreamStatus.DISCONNECTED);
-            stopAudioPipeline();
-          },
-          onerror: (err: any) => {
-            console.error("Gemini Live Error", err);
-            
-            if (isLiveRef.current) {
-                // Auto-retry logic: don't show error UI, just try to reconnect
-                console.log("Connection dropped while active. Initiating auto-reconnect...");
-                shouldReconnectRef.current = true;
-                setIsReconnecting(true);
-                // Keep status as CONNECTING or transition to it to show retry UI
-                setStatus(StreamStatus.CONNECTING);
-                
-                stopAudioPipeline();
-                
-                // Exponential backoff or simple delay
-                setTimeout(() => {
-                    console.log("Reconnecting now...");
-                    connect();
-                }, 1500); 
-            } else {
-                 stopAudioPipeline();
-            }
-          }
-        }
-      };
-
-      const sessionPromise = ai.live.connect(config);
-      sessionRef.current = await sessionPromise;
+      // 4. Connect the live session
+      resumptionHandleRef.current = null;
+      sessionRef.current = await openLiveSession(liveTransport);
 
       // 5. Audio Pipeline Setup
-      const effectiveSampleRate = ctx.sampleRate;
-      
       const analyserNode = ctx.createAnalyser();
       analyserNode.fftSize = 256;
       analyserNode.smoothingTimeConstant = 0.5;
@@ -447,64 +855,72 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
       midBoost.connect(lowPass);
       lowPass.connect(compressor);
       compressor.connect(makeupGain);
+      micChainInputRef.current = highPass;
+
+      // Per-source gain stages (user mix) with a level meter after each
+      const gains = configRef.current.sourceGains ?? DEFAULT_SOURCE_GAINS;
+      const createMeter = (input: AudioNode) => {
+        const meter = ctx.createAnalyser();
+        meter.fftSize = 512;
+        input.connect(meter);
+        return meter;
+      };
+      const micGain = ctx.createGain();
+      micGain.gain.value = gains.mic;
+      makeupGain.connect(micGain);
+      sourceGainNodesRef.current = { mic: micGain };
+      const analysers: Record<AudioSource, AnalyserNode | null> = { mic: createMeter(micGain), system: null };
+
+      let finalSource: AudioNode = micGain; 
 
-      let finalSource: AudioNode = makeupGain; 
+      // The processor sees mic and system audio on separate channels (0 and 1)
+      // so each transcription can be attributed to "Me" or "Remote".
+      const channelMerger = ctx.createChannelMerger(2);
+      micGain.connect(channelMerger, 0, 0);
 
       // Mix in system audio if enabled
+      hasSystemAudioRef.current = false;
+      sourceEnergyRef.current = EMPTY_SOURCE_ENERGY;
       if (sysStream && sysStream.getAudioTracks().length > 0) {
         const sysSource = ctx.createMediaStreamSource(sysStream);
         systemSourceRef.current = sysSource;
+        const systemGain = ctx.createGain();
+        systemGain.gain.value = isSystemMutedRef.current ? 0 : gains.system;
+        sysSource.connect(systemGain);
+        sourceGainNodesRef.current.system = systemGain;
+        analysers.system = createMeter(systemGain);
+
         const mixNode = ctx.createGain();
-        makeupGain.connect(mixNode);
-        sysSource.connect(mixNode);
+        micGain.connect(mixNode);
+        systemGain.connect(mixNode);
+        systemGain.connect(channelMerger, 0, 1);
         finalSource = mixNode;
+        hasSystemAudioRef.current = true;
       }
+      setSourceAnalysers(analysers);
 
       // Connect to Analyser for Visualizer
       finalSource.connect(analyserNode);
 
-      // ScriptProcessor for raw PCM access (deprecated but reliable for this use case)
-      const processor = ctx.createScriptProcessor(4096, 1, 1);
-      processorRef.current = processor;
-
-      processor.onaudioprocess = (e) => {
-        if (!isLiveRef.current || !processorRef.current || !audioContextRef.current) return;
+      // Keep a local copy of exactly what the model hears
+      if (sessionId) startLocalRecording(ctx, finalSource, sessionId);
 
-        const inputData = e.inputBuffer.getChannelData(0);
-        
-        // --- Noise Gate ---
-        let sumSquares = 0;
-        for (let i = 0; i < inputData.length; i++) {
-           sumSquares += inputData[i] * inputData[i];
-        }
-        const rms = Math.sqrt(sumSquares / inputData.length);
-        const threshold = configRef.current.noiseGateThreshold;
-        
-        // If below threshold, silence the buffer
-        if (rms < threshold) {
-             inputData.fill(0);
-        }
-
-        // --- Downsampling ---
-        const downsampledData = downsampleTo16k(inputData, effectiveSampleRate);
-        const pcmBlob = createBlob(downsampledData);
-
-        // --- Send to API ---
-        sessionPromise.then((session) => {
-          if (!isLiveRef.current) return;
-          try {
-            session.sendRealtimeInput({ media: pcmBlob });
-          } catch (e) {
-            console.debug("Send error (ignoring):", e);
-          }
-        }).catch(() => {
-           // Ignore promise rejection
-        });
-      };
+      // Resampling, voice detection and PCM packing run in an AudioWorklet, off the main thread
+      const capture = await createCaptureNode(ctx, {
+        chunkMs: CAPTURE_CHUNK_MS[configRef.current.latencyMode],
+        minSpeechRms: configRef.current.noiseGateThreshold,
+        skipSilence: configRef.current.skipSilence ?? false,
+      }, handleCaptureChunk);
+      // User stopped while the worklet module was loading
+      if (!isLiveRef.current) {
+        capture.dispose();
+        return;
+      }
+      captureNodeRef.current = capture;
 
-      finalSource.connect(processor);
-      // Processor must be connected to destination to run, even if we don't want to hear it
-      processor.connect(ctx.destination);
+      channelMerger.connect(capture.node);
+      // Capture node must be connected to destination to run, even if we don't want to hear it
+      capture.node.connect(ctx.destination);
 
     } catch (e) {
       console.error(e);
@@ -516,20 +932,202 @@ export const useGeminiLive = ({ apiKey, systemAudioEnabled, talkbackEnabled, aud
       setStatus(StreamStatus.ERROR);
       stopAudioPipeline();
     }
-  }, [apiKey, systemAudioEnabled, stopAudioPipeline, isMicOn, queueTranscriptUpdate]);
+  }, [liveTransport, systemAudioEnabled, stopAudioPipeline, isMicOn, openLiveSession, startLocalRecording, cancelReconnect, ensurePlaybackQueue]);
+
+  /**
+   * Replaces the microphone mid-session without touching the live connection:
+   * the new device feeds the same vocal chain, so recording and streaming carry on.
+   */
+  const swapMicrophone = useCallback(async (deviceId?: string) => {
+    const ctx = audioContextRef.current;
+    if (!ctx || !micChainInputRef.current || !isLiveRef.current || sourceModeRef.current !== 'live') return;
+    activeMicRequestRef.current = deviceId;
+
+    try {
+      const { stream, deviceId: opened } = await openMicrophone(deviceId);
+      // Session ended while the device was opening
+      if (!isLiveRef.current || audioContextRef.current !== ctx || !micChainInputRef.current) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      activeMicRequestRef.current = opened;
+      stream.getAudioTracks().forEach(track => {
+        track.enabled = isMicOnRef.current;
+      });
+      watchMicTrack(stream);
+
+      const source = ctx.createMediaStreamSource(stream);
+      source.connect(micChainInputRef.current);
+      sourceRef.current?.disconnect();
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      sourceRef.current = source;
+      streamRef.current = stream;
+      console.log(`Microphone switched to ${opened ?? 'the default device'}`);
+    } catch (e) {
+      console.warn("Could not switch microphone", e);
+      setErrorMessage("Could not switch microphone.");
+    }
+  }, []);
+
+  useEffect(() => {
+    swapMicrophoneRef.current = swapMicrophone;
+  }, [swapMicrophone]);
+
+  // Follow device changes: the chosen mic when it is connected, otherwise the default
+  useEffect(() => {
+    if (!micChainInputRef.current || !isLiveRef.current || sourceModeRef.current !== 'live') return;
+    const wanted = availableInputs.length > 0
+      ? resolveInputDevice(audioConfig.micDeviceId, availableInputs)
+      : audioConfig.micDeviceId;
+    if (wanted !== activeMicRequestRef.current) swapMicrophone(wanted);
+  }, [availableInputs, audioConfig.micDeviceId, swapMicrophone]);
+
+  useEffect(() => {
+    captureNodeRef.current?.setVadSettings({
+      minSpeechRms: audioConfig.noiseGateThreshold,
+      skipSilence: audioConfig.skipSilence ?? false,
+    });
+  }, [audioConfig.noiseGateThreshold, audioConfig.skipSilence]);
+
+  // Apply mix changes live
+  useEffect(() => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    const gains = audioConfig.sourceGains ?? DEFAULT_SOURCE_GAINS;
+    const { mic, system } = sourceGainNodesRef.current;
+    mic?.gain.setTargetAtTime(gains.mic, ctx.currentTime, GAIN_RAMP_SECONDS);
+    system?.gain.setTargetAtTime(isSystemMuted ? 0 : gains.system, ctx.currentTime, GAIN_RAMP_SECONDS);
+  }, [audioConfig.sourceGains, isSystemMuted]);
+
+  /**
+   * Opens a new session for a capture that is still running (after a drop), resuming
+   * the dropped conversation when the server gave us a handle, then replays the audio
+   * buffered meanwhile and marks whatever did not fit as a gap.
+   */
+  const resumeSession = useCallback(async () => {
+    if (!isLiveRef.current || !liveTransport) return;
+    try {
+      const session = await openLiveSession(liveTransport, resumptionHandleRef.current ?? undefined);
+      if (!isLiveRef.current) {
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+
+      const { chunks, bufferedMs, droppedMs, startedAt } = drainOutageBuffer(outageBufferRef.current);
+      if (droppedMs > 0 && startedAt) addGapMarker(startedAt, droppedMs);
+      chunks.forEach(chunk => session.sendAudio(chunk));
+      recordMetrics({ audioSecondsSent: bufferedMs / 1000 });
+      console.log(`Session resumed; replayed ${chunks.length} buffered chunks`);
+
+      reconnectAttemptRef.current = 0;
+      setReconnectAttempt(0);
+      setIsReconnecting(false);
+      setStatus(StreamStatus.CONNECTED);
+    } catch (e) {
+      console.warn("Reconnection attempt failed", e);
+      if (isLiveRef.current) scheduleReconnect();
+    }
+  }, [liveTransport, openLiveSession, addGapMarker, scheduleReconnect, recordMetrics]);
+
+  useEffect(() => {
+    reconnectRef.current = resumeSession;
+  }, [resumeSession]);
+
+  /**
+   * Transcribes a pre-recorded audio file (WAV/MP3/WebM, anything the browser can decode).
+   * The file is decoded and streamed through the same live session pipeline as the
+   * microphone, so it yields the same segments and auto-notes. Each block is resampled
+   * to 16kHz just before it is sent, so long files never hold a second full copy.
+   */
+  const transcribeFile = useCallback(async (file: File) => {
+    if (!liveTransport) {
+      setErrorMessage("API Key is missing.");
+      return;
+    }
+
+    isLiveRef.current = true;
+    cancelReconnect();
+    sourceModeRef.current = 'file';
+
+    setErrorMessage(null);
+    setStatus(StreamStatus.CONNECTING);
+    setFileProgress(0);
+
+    try {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const ctx = new AudioContextClass();
+      audioContextRef.current = ctx;
+
+      const { samples, sampleRate } = await decodeAudioFile(await file.arrayBuffer(), ctx);
+
+      resumptionHandleRef.current = null;
+      const session = await openLiveSession(liveTransport);
+      sessionRef.current = session;
+
+      const sendChunk = (chunk: Float32Array) => {
+        if (chunk.length === 0) return;
+        try {
+          session.sendAudio(createBlob(chunk));
+          recordMetrics({ audioSecondsSent: chunk.length / PCM_SAMPLE_RATE });
+        } catch (e) {
+          console.debug("Send error (ignoring):", e);
+          recordMetrics({ droppedSends: 1 });
+        }
+      };
+
+      const resampler = createResampler(sampleRate);
+      // Input samples that resample to one FILE_CHUNK_SAMPLES block
+      const inputChunkSamples = Math.round(FILE_CHUNK_SAMPLES * sampleRate / PCM_SAMPLE_RATE);
+      const chunkIntervalMs = (FILE_CHUNK_SAMPLES / PCM_SAMPLE_RATE) * 1000 / FILE_STREAM_SPEED;
+      for (let offset = 0; offset < samples.length; offset += inputChunkSamples) {
+        // User ended the session mid-upload
+        if (!isLiveRef.current) return;
+        sendChunk(resample(resampler, samples.subarray(offset, offset + inputChunkSamples)));
+        setFileProgress(Math.min(1, (offset + inputChunkSamples) / samples.length));
+        await new Promise(resolve => setTimeout(resolve, chunkIntervalMs));
+      }
+
+      if (!isLiveRef.current) return;
+      sendChunk(flushResampler(resampler));
+      session.endAudioStream();
+      await new Promise(resolve => setTimeout(resolve, FILE_TAIL_MS));
+      if (isLiveRef.current) disconnect();
+    } catch (e) {
+      console.error(e);
+      setErrorMessage("Could not decode or transcribe the recording.");
+      setStatus(StreamStatus.ERROR);
+      isLiveRef.current = false;
+      stopAudioPipeline();
+    } finally {
+      setFileProgress(null);
+    }
+  }, [liveTransport, openLiveSession, disconnect, stopAudioPipeline, cancelReconnect, recordMetrics]);
 
   return {
     status,
     segments,
-    currentTranscriptBuffer,
     analyser,
     errorMessage,
     isReconnecting,
+    reconnectAttempt,
     connect,
+    transcribeFile,
+    fileProgress,
     disconnect,
-    setCurrentTranscriptBuffer,
+    setSegments,
     isMicOn,
     toggleMic,
+    isSystemMuted,
+    toggleSystemMute,
+    sourceAnalysers,
+    isSpeechDetected,
+    playbackVolume,
+    setPlaybackVolume,
+    playbackRate,
+    setPlaybackRate,
+    replayableTurnIds,
+    replayTurn,
     setTalkbackEnabled,
     sendTextMessage
   };
@@ -0,0 +1,66 @@
+import { useState, useCallback, useEffect } from 'react';
+import { GlossaryTerm } from '../types';
+import * as sessionStore from '../services/sessionStore';
+import { normalizeGlossaryTerm, validateGlossaryTerm } from '../services/glossary';
+
+/**
+ * Exposes the team glossary stored in IndexedDB.
+ */
+export const useGlossary = () => {
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+  const [glossaryError, setGlossaryError] = useState<string | null>(null);
+
+  const refreshGlossary = useCallback(async () => {
+    try {
+      setGlossary(await sessionStore.listGlossary());
+    } catch (e) {
+      console.error("Failed to list glossary", e);
+      setGlossaryError("The glossary is unavailable.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshGlossary();
+  }, [refreshGlossary]);
+
+  /**
+   * Cleans up, validates and stores a term.
+   * @returns true if saved; otherwise `glossaryError` explains why not.
+   */
+  const saveTerm = useCallback(async (term: GlossaryTerm): Promise<boolean> => {
+    const normalized = normalizeGlossaryTerm(term);
+    const problem = validateGlossaryTerm(normalized, glossary);
+    if (problem) {
+      setGlossaryError(problem);
+      return false;
+    }
+    try {
+      await sessionStore.saveGlossaryTerm(normalized);
+      setGlossaryError(null);
+      await refreshGlossary();
+      return true;
+    } catch (e) {
+      console.error("Failed to save glossary term", e);
+      setGlossaryError("Could not save the term.");
+      return false;
+    }
+  }, [glossary, refreshGlossary]);
+
+  const deleteTerm = useCallback(async (id: string) => {
+    try {
+      await sessionStore.deleteGlossaryTerm(id);
+      await refreshGlossary();
+    } catch (e) {
+      console.error("Failed to delete glossary term", e);
+      setGlossaryError("Could not delete the term.");
+    }
+  }, [refreshGlossary]);
+
+  return {
+    glossary,
+    glossaryError,
+    clearGlossaryError: () => setGlossaryError(null),
+    saveTerm,
+    deleteTerm,
+  };
+};
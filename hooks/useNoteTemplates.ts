@@ -0,0 +1,67 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { NoteTemplate } from '../types';
+import * as sessionStore from '../services/sessionStore';
+import { BUILT_IN_TEMPLATES, validateTemplate } from '../services/noteTemplates';
+
+/**
+ * Exposes the built-in note templates plus the user's custom templates from IndexedDB.
+ */
+export const useNoteTemplates = () => {
+  const [customTemplates, setCustomTemplates] = useState<NoteTemplate[]>([]);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  const refreshTemplates = useCallback(async () => {
+    try {
+      setCustomTemplates(await sessionStore.listTemplates());
+    } catch (e) {
+      console.error("Failed to list templates", e);
+      setTemplateError("Custom templates are unavailable.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTemplates();
+  }, [refreshTemplates]);
+
+  const templates = useMemo(() => [...BUILT_IN_TEMPLATES, ...customTemplates], [customTemplates]);
+
+  /**
+   * Validates and stores a custom template.
+   * @returns true if saved; otherwise `templateError` explains why not.
+   */
+  const saveTemplate = useCallback(async (template: NoteTemplate): Promise<boolean> => {
+    const problem = validateTemplate(template);
+    if (problem) {
+      setTemplateError(problem);
+      return false;
+    }
+    try {
+      await sessionStore.saveTemplate({ ...template, builtIn: false });
+      setTemplateError(null);
+      await refreshTemplates();
+      return true;
+    } catch (e) {
+      console.error("Failed to save template", e);
+      setTemplateError("Could not save template.");
+      return false;
+    }
+  }, [refreshTemplates]);
+
+  const deleteTemplate = useCallback(async (id: string) => {
+    try {
+      await sessionStore.deleteTemplate(id);
+      await refreshTemplates();
+    } catch (e) {
+      console.error("Failed to delete template", e);
+      setTemplateError("Could not delete template.");
+    }
+  }, [refreshTemplates]);
+
+  return {
+    templates,
+    templateError,
+    clearTemplateError: () => setTemplateError(null),
+    saveTemplate,
+    deleteTemplate,
+  };
+};
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { useRecordingPlayback } from './useRecordingPlayback';
+import { TranscriptSegment } from '../types';
+
+vi.mock('../services/sessionStore', () => ({
+  getRecording: vi.fn(async (id: string) => ({
+    id,
+    sessionId: 'session-1',
+    blob: new Blob(['not audio']),
+    mimeType: 'audio/webm',
+    startedAt: new Date(),
+    durationMs: 1000,
+  })),
+}));
+
+/** An audio element that cannot decode anything */
+class BrokenAudio extends EventTarget {
+  error = { code: 4, message: 'MEDIA_ERR_SRC_NOT_SUPPORTED' };
+  currentTime = 0;
+  onended: (() => void) | null = null;
+  private source = '';
+  get src() { return this.source; }
+  set src(value: string) {
+    this.source = value;
+    setTimeout(() => this.dispatchEvent(new Event('error')));
+  }
+  play = vi.fn().mockResolvedValue(undefined);
+  pause = vi.fn();
+}
+
+vi.stubGlobal('Audio', BrokenAudio);
+URL.createObjectURL = vi.fn(() => 'blob:recording-1');
+URL.revokeObjectURL = vi.fn();
+
+const segment: TranscriptSegment = {
+  id: 'seg-1',
+  sender: 'user',
+  text: 'Hello',
+  timestamp: new Date(),
+  isPartial: false,
+  recordingId: 'recording-1',
+  recordingOffsetMs: 4000,
+};
+
+describe('useRecordingPlayback', () => {
+  it('reports a recording that cannot be decoded instead of waiting forever', async () => {
+    const { result } = renderHook(() => useRecordingPlayback());
+
+    await act(() => result.current.playSegment(segment));
+
+    expect(result.current.playbackError).toBe("Could not play the recording.");
+    expect(result.current.playingSegmentId).toBeNull();
+
+    act(() => result.current.clearPlaybackError());
+    expect(result.current.playbackError).toBeNull();
+  });
+});
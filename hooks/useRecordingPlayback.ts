@@ -0,0 +1,91 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { TranscriptSegment } from '../types';
+import { getRecording } from '../services/sessionStore';
+
+/**
+ * Transcriptions arrive a moment after the words were spoken,
+ * so playback starts slightly before the stored offset.
+ */
+const PLAYBACK_PREROLL_MS = 1500;
+
+/**
+ * Plays back the local recording at the moment a transcript segment was captured.
+ * Object URLs are cached per recording and revoked on unmount.
+ */
+export const useRecordingPlayback = () => {
+  const [playingSegmentId, setPlayingSegmentId] = useState<string | null>(null);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlCacheRef = useRef<Map<string, string>>(new Map());
+
+  const stop = useCallback(() => {
+    audioRef.current?.pause();
+    setPlayingSegmentId(null);
+  }, []);
+
+  /**
+   * Seeks the segment's recording to its offset and starts playback.
+   * Clicking the segment that is already playing stops it.
+   */
+  const playSegment = useCallback(async (segment: TranscriptSegment) => {
+    if (!segment.recordingId || segment.recordingOffsetMs === undefined) return;
+    if (playingSegmentId === segment.id) {
+      stop();
+      return;
+    }
+
+    try {
+      let url = urlCacheRef.current.get(segment.recordingId);
+      if (!url) {
+        const recording = await getRecording(segment.recordingId);
+        if (!recording) {
+          setPlaybackError("The recording for this segment is not available.");
+          return;
+        }
+        url = URL.createObjectURL(recording.blob);
+        urlCacheRef.current.set(segment.recordingId, url);
+      }
+
+      if (!audioRef.current) {
+        audioRef.current = new Audio();
+        audioRef.current.onended = () => setPlayingSegmentId(null);
+      }
+      const audio = audioRef.current;
+      if (audio.src !== url) {
+        audio.src = url;
+        // A blob the browser cannot decode fires `error` instead of `loadedmetadata`
+        await new Promise<void>((resolve, reject) => {
+          const onLoaded = () => {
+            audio.removeEventListener('error', onError);
+            resolve();
+          };
+          const onError = () => {
+            audio.removeEventListener('loadedmetadata', onLoaded);
+            reject(audio.error ?? new Error('Recording could not be loaded'));
+          };
+          audio.addEventListener('loadedmetadata', onLoaded, { once: true });
+          audio.addEventListener('error', onError, { once: true });
+        });
+      }
+      audio.currentTime = Math.max(0, segment.recordingOffsetMs - PLAYBACK_PREROLL_MS) / 1000;
+      await audio.play();
+      setPlaybackError(null);
+      setPlayingSegmentId(segment.id);
+    } catch (e) {
+      console.error("Recording playback failed", e);
+      setPlaybackError("Could not play the recording.");
+    }
+  }, [playingSegmentId, stop]);
+
+  useEffect(() => {
+    const urlCache = urlCacheRef.current;
+    return () => {
+      audioRef.current?.pause();
+      urlCache.forEach(url => URL.revokeObjectURL(url));
+      urlCache.clear();
+    };
+  }, []);
+
+  return { playSegment, stop, playingSegmentId, playbackError, clearPlaybackError: () => setPlaybackError(null) };
+};
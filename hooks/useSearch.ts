@@ -0,0 +1,105 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { SessionSummary } from '../types';
+import * as sessionStore from '../services/sessionStore';
+import { createSearchIndex, indexSession, removeSessionFromIndex, searchIndex, SearchIndex, SearchResult } from '../services/searchIndex';
+import { EmbeddingCache, EmbeddingProvider, semanticSearch } from '../services/semanticSearch';
+
+export type SearchMode = 'keyword' | 'semantic';
+
+export interface UseSearchProps {
+  /** The session library; sessions are (re-)indexed when their summary changes */
+  sessions: SessionSummary[];
+  /** Enables semantic search when provided */
+  embeddingProvider: EmbeddingProvider | null;
+}
+
+/** Debounce for keyword search while typing */
+const SEARCH_DELAY_MS = 200;
+
+// Summaries change whenever a session gains segments or notes, so they double as a cheap version stamp
+const signature = (s: SessionSummary) =>
+  `${s.name}|${s.segmentCount}|${s.noteCount}|${s.endedAt?.getTime() ?? ''}`;
+
+/**
+ * Searches every stored session's transcript and notes.
+ *
+ * Keyword search runs against a local inverted index kept in memory; semantic search
+ * embeds the same documents through the given provider and runs on demand.
+ */
+export const useSearch = ({ sessions, embeddingProvider }: UseSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<SearchMode>('keyword');
+  const [since, setSince] = useState<Date | undefined>(undefined);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const indexRef = useRef<SearchIndex>(createSearchIndex());
+  const signaturesRef = useRef(new Map<string, string>());
+  const embeddingCacheRef = useRef<EmbeddingCache>(new Map());
+
+  /**
+   * Brings the index in line with the library: loads new or changed sessions, drops deleted ones.
+   */
+  const syncIndex = useCallback(async () => {
+    const known = signaturesRef.current;
+    const listed = new Set(sessions.map(s => s.id));
+
+    known.forEach((_, id) => {
+      if (listed.has(id)) return;
+      removeSessionFromIndex(indexRef.current, id);
+      known.delete(id);
+    });
+
+    for (const summary of sessions) {
+      const sig = signature(summary);
+      if (known.get(summary.id) === sig) continue;
+      const session = await sessionStore.getSession(summary.id);
+      if (session) indexSession(indexRef.current, session);
+      known.set(summary.id, sig);
+    }
+  }, [sessions]);
+
+  const runSearch = useCallback(async () => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      await syncIndex();
+      if (mode === 'semantic' && embeddingProvider) {
+        const documents = [...indexRef.current.documents.values()];
+        setResults(await semanticSearch(query, documents, embeddingProvider, embeddingCacheRef.current, { since }));
+      } else {
+        setResults(searchIndex(indexRef.current, query, { since }));
+      }
+    } catch (e) {
+      console.error("Search failed", e);
+      setSearchError(mode === 'semantic' ? "Semantic search failed. Try keyword search." : "Search failed.");
+    } finally {
+      setIsSearching(false);
+    }
+  }, [query, mode, since, embeddingProvider, syncIndex]);
+
+  // Keyword search is cheap enough to run as the user types; semantic search waits for submit
+  useEffect(() => {
+    if (mode !== 'keyword') return;
+    const timer = setTimeout(runSearch, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [mode, runSearch]);
+
+  return {
+    query,
+    setQuery,
+    mode,
+    setMode,
+    setSince,
+    results,
+    isSearching,
+    searchError,
+    runSearch,
+    canSearchSemantically: embeddingProvider !== null,
+  };
+};
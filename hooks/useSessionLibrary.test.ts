@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useSessionLibrary, UseSessionLibraryProps } from './useSessionLibrary';
+import { EMPTY_SESSION_METRICS } from '../services/metrics';
+import { DEFAULT_LIVE_ASSISTANT } from '../services/liveAssistant';
+import * as sessionStore from '../services/sessionStore';
+import { TranscriptSegment } from '../types';
+
+const baseProps: UseSessionLibraryProps = {
+  segments: [],
+  notes: [],
+  audioConfig: { latencyMode: 'interactive', noiseGateThreshold: 0.01 },
+  speakerNames: {},
+  meetingSummary: null,
+  assistantConfig: DEFAULT_LIVE_ASSISTANT,
+  transcriptEdits: [],
+  metrics: EMPTY_SESSION_METRICS,
+};
+
+const segment = (text: string): TranscriptSegment => ({ id: text, sender: 'user', text, timestamp: new Date(), isPartial: false });
+
+describe('useSessionLibrary', () => {
+  it('writes pending changes when the session is closed before the autosave fires', async () => {
+    const { result, rerender } = renderHook((props: UseSessionLibraryProps) => useSessionLibrary(props), { initialProps: baseProps });
+
+    act(() => result.current.beginSession());
+    const id = result.current.activeSession!.id;
+    rerender({ ...baseProps, segments: [segment('Ship on Friday.')] });
+    act(() => result.current.closeSession());
+
+    expect(result.current.activeSession).toBeNull();
+    await waitFor(async () => {
+      expect((await sessionStore.getSession(id))?.segments.map(s => s.text)).toEqual(['Ship on Friday.']);
+    });
+    await waitFor(() => expect(result.current.sessions.map(s => s.id)).toEqual([id]));
+  });
+
+  it('saves at least every ten seconds while changes keep arriving', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    const { result, rerender } = renderHook((props: UseSessionLibraryProps) => useSessionLibrary(props), { initialProps: baseProps });
+
+    act(() => result.current.beginSession());
+    const id = result.current.activeSession!.id;
+    const texts: string[] = [];
+    for (let i = 0; i < 21; i++) {
+      texts.push(`Chunk ${i}`);
+      rerender({ ...baseProps, segments: texts.map(segment) });
+      act(() => { vi.advanceTimersByTime(500); });
+    }
+    vi.useRealTimers();
+
+    await waitFor(async () => {
+      expect((await sessionStore.getSession(id))?.segments.length).toBeGreaterThanOrEqual(20);
+    });
+  });
+
+  it('does not save a session that was deleted while a save was pending', async () => {
+    const { result, rerender } = renderHook((props: UseSessionLibraryProps) => useSessionLibrary(props), { initialProps: baseProps });
+
+    act(() => result.current.beginSession());
+    const id = result.current.activeSession!.id;
+    rerender({ ...baseProps, segments: [segment('Draft')] });
+    await act(() => result.current.deleteSession(id));
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    expect(await sessionStore.getSession(id)).toBeNull();
+  });
+
+  it('stores a recording under the session it started in after that session was closed', async () => {
+    const { result } = renderHook((props: UseSessionLibraryProps) => useSessionLibrary(props), { initialProps: baseProps });
+
+    let id = '';
+    act(() => { id = result.current.beginSession(); });
+    act(() => result.current.closeSession());
+    await act(() => result.current.attachRecording({
+      id: 'recording-1',
+      sessionId: id,
+      blob: new Blob(['audio']),
+      mimeType: 'audio/webm',
+      startedAt: new Date(),
+      durationMs: 1000,
+    }));
+
+    expect((await sessionStore.getRecording('recording-1'))?.sessionId).toBe(id);
+  });
+});
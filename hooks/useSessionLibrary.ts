@@ -0,0 +1,243 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { AudioConfig, LiveAssistantConfig, MeetingSummary, OrganizedNote, Session, SessionMetrics, SessionRecording, SessionSummary, TranscriptEdit, TranscriptSegment } from '../types';
+import * as sessionStore from '../services/sessionStore';
+
+export interface UseSessionLibraryProps {
+  segments: TranscriptSegment[];
+  notes: OrganizedNote[];
+  audioConfig: AudioConfig;
+  speakerNames: Record<string, string>;
+  meetingSummary: MeetingSummary | null;
+  assistantConfig: LiveAssistantConfig;
+  transcriptEdits: TranscriptEdit[];
+  metrics: SessionMetrics;
+}
+
+/** Session identity and timing; the content fields are owned by the caller */
+type SessionMeta = Pick<Session, 'id' | 'name' | 'startedAt' | 'endedAt'>;
+
+const toMeta = ({ id, name, startedAt, endedAt }: Session): SessionMeta => ({ id, name, startedAt, endedAt });
+
+/** Debounce window for autosaving to IndexedDB */
+const AUTOSAVE_DELAY_MS = 1000;
+/** Longest a change waits while a live meeting keeps resetting the debounce */
+const AUTOSAVE_MAX_WAIT_MS = 10000;
+
+/**
+ * Keeps the active session persisted in IndexedDB and exposes the session library.
+ *
+ * The hook does not own transcript or note state; it mirrors whatever the caller
+ * passes in into the store. Saves are debounced but happen at least every
+ * AUTOSAVE_MAX_WAIT_MS while a meeting streams in, so a tab crash loses at most that much.
+ * Pending changes are written right away when the session is closed or the page is hidden.
+ */
+export const useSessionLibrary = ({ segments, notes, audioConfig, speakerNames, meetingSummary, assistantConfig, transcriptEdits, metrics }: UseSessionLibraryProps) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSession, setActiveSession] = useState<SessionMeta | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Content of the active session waiting for the autosave timer
+  const pendingSaveRef = useRef<Session | null>(null);
+  // When the oldest change not yet written was made
+  const unsavedSinceRef = useRef<number | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await sessionStore.listSessions());
+    } catch (e) {
+      console.error("Failed to list sessions", e);
+      setStorageError("Session storage is unavailable.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions]);
+
+  /**
+   * Writes the pending autosave now instead of waiting for its timer.
+   * The write is started synchronously, so it also goes out when the page is being hidden.
+   */
+  const flushSave = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const session = pendingSaveRef.current;
+    if (!session) return;
+    pendingSaveRef.current = null;
+    unsavedSinceRef.current = null;
+    try {
+      await sessionStore.saveSession(session);
+      await refreshSessions();
+    } catch (e) {
+      console.error("Failed to save session", e);
+      setStorageError("Could not save session. Changes may be lost on reload.");
+    }
+  }, [refreshSessions]);
+
+  /** Forgets the pending autosave, e.g. for a session that is being deleted */
+  const discardPendingSave = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    pendingSaveRef.current = null;
+    unsavedSinceRef.current = null;
+  }, []);
+
+  // Autosave whenever the active session's content changes
+  useEffect(() => {
+    if (!activeSession) return;
+
+    pendingSaveRef.current = {
+      ...activeSession,
+      segments,
+      notes,
+      audioConfig,
+      speakerNames,
+      meetingSummary: meetingSummary ?? undefined,
+      assistantConfig,
+      transcriptEdits,
+      metrics,
+    };
+    // Each change pushes the save back, but never past the max wait
+    const now = Date.now();
+    unsavedSinceRef.current ??= now;
+    const delay = Math.min(AUTOSAVE_DELAY_MS, unsavedSinceRef.current + AUTOSAVE_MAX_WAIT_MS - now);
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flushSave, Math.max(0, delay));
+  }, [activeSession, segments, notes, audioConfig, speakerNames, meetingSummary, assistantConfig, transcriptEdits, metrics, flushSave]);
+
+  // Save what is pending when the tab is closed or reloaded, and on unmount
+  useEffect(() => {
+    const handlePageHide = () => { flushSave(); };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      flushSave();
+    };
+  }, [flushSave]);
+
+  /**
+   * Marks the start of live recording. Creates a new session unless one is already open,
+   * in which case recording resumes into it and its end time is cleared.
+   * Returns the id of the session being recorded.
+   */
+  const beginSession = useCallback((): string => {
+    const session = activeSession
+      ? { ...activeSession, endedAt: undefined }
+      : toMeta(sessionStore.createSession(audioConfig));
+    setActiveSession(session);
+    return session.id;
+  }, [activeSession, audioConfig]);
+
+  /**
+   * Stamps the end time on the active session (the autosave persists it).
+   */
+  const endSession = useCallback(() => {
+    setActiveSession(prev => (prev ? { ...prev, endedAt: new Date() } : prev));
+  }, []);
+
+  /**
+   * Loads a stored session and makes it the active one.
+   * Returns the full session so the caller can restore segments, notes and config.
+   */
+  const openSession = useCallback(async (id: string): Promise<Session | null> => {
+    flushSave();
+    try {
+      const session = await sessionStore.getSession(id);
+      if (!session) return null;
+      setActiveSession(toMeta(session));
+      return session;
+    } catch (e) {
+      console.error("Failed to open session", e);
+      setStorageError("Could not open session.");
+      return null;
+    }
+  }, [flushSave]);
+
+  /**
+   * Stores an externally loaded session (e.g. from a JSON import) and makes it active.
+   * A fresh id is assigned if it would overwrite an existing library entry.
+   */
+  const importSession = useCallback(async (session: Session): Promise<Session | null> => {
+    flushSave();
+    try {
+      const existing = await sessionStore.getSession(session.id);
+      const toSave = existing ? { ...session, id: `session-${Date.now()}` } : session;
+      await sessionStore.saveSession(toSave);
+      setActiveSession(toMeta(toSave));
+      await refreshSessions();
+      return toSave;
+    } catch (e) {
+      console.error("Failed to import session", e);
+      setStorageError("Could not save the imported session.");
+      return null;
+    }
+  }, [flushSave, refreshSessions]);
+
+  /**
+   * Detaches from the active session so the next recording starts a fresh one.
+   * Changes still waiting for the autosave are written first.
+   */
+  const closeSession = useCallback(() => {
+    flushSave();
+    setActiveSession(null);
+  }, [flushSave]);
+
+  /**
+   * Persists a finished local recording under the session it was recorded for,
+   * which need not be the active one any more.
+   */
+  const attachRecording = useCallback(async (recording: SessionRecording) => {
+    try {
+      await sessionStore.saveRecording(recording);
+    } catch (e) {
+      console.error("Failed to save recording", e);
+      setStorageError("Could not save the session recording.");
+    }
+  }, []);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    setActiveSession(prev => (prev && prev.id === id ? { ...prev, name } : prev));
+    try {
+      await sessionStore.renameSession(id, name);
+      await refreshSessions();
+    } catch (e) {
+      console.error("Failed to rename session", e);
+      setStorageError("Could not rename session.");
+    }
+  }, [refreshSessions]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    if (activeSession?.id === id) {
+      // Saving first would only resurrect the session after the delete
+      discardPendingSave();
+      setActiveSession(null);
+    }
+    try {
+      await sessionStore.deleteSession(id);
+      await refreshSessions();
+    } catch (e) {
+      console.error("Failed to delete session", e);
+      setStorageError("Could not delete session.");
+    }
+  }, [activeSession, discardPendingSave, refreshSessions]);
+
+  return {
+    sessions,
+    activeSession,
+    storageError,
+    clearStorageError: () => setStorageError(null),
+    beginSession,
+    endSession,
+    openSession,
+    importSession,
+    closeSession,
+    attachRecording,
+    renameSession,
+    deleteSession,
+  };
+};
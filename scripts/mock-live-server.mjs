@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the Gemini Live API.
+ *
+ * Speaks the same server message format over a plain WebSocket and replays a scripted
+ * meeting, so the app can be demoed and tested end to end without network access.
+ * No dependencies: the WebSocket handshake and framing are implemented on node:http.
+ *
+ * Usage: node scripts/mock-live-server.mjs [script.json] [--port 8765] [--loop]
+ * Then start the app with LIVE_MOCK_URL=ws://localhost:8765
+ *
+ * Script steps (all optional except one payload field):
+ *   { "delayMs": 400, "input": "user speech" }          -> serverContent.inputTranscription
+ *   { "delayMs": 400, "output": "model speech" }        -> serverContent.outputTranscription
+ *   { "delayMs": 0, "turnComplete": true }              -> serverContent.turnComplete
+ *   { "delayMs": 0, "interrupted": true }               -> serverContent.interrupted
+ *   { "delayMs": 0, "tone": { "frequency": 440, "durationMs": 500 } } -> 24kHz PCM audio
+ *   { "delayMs": 0, "message": { ...raw server message } }
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OUTPUT_SAMPLE_RATE = 24000;
+
+const args = process.argv.slice(2);
+const flag = (name) => {
+  const i = args.indexOf(name);
+  return i === -1 ? undefined : args[i + 1];
+};
+const port = Number(flag('--port') ?? process.env.MOCK_LIVE_PORT ?? 8765);
+const loop = args.includes('--loop');
+const scriptPath = args.find((a, i) => !a.startsWith('--') && args[i - 1] !== '--port')
+  ?? path.join(path.dirname(fileURLToPath(import.meta.url)), 'mock-live-script.json');
+const script = JSON.parse(readFileSync(scriptPath, 'utf8'));
+
+/** Base64 16-bit little-endian PCM sine tone at the Live API's output rate */
+const tone = ({ frequency = 440, durationMs = 500 }) => {
+  const samples = Math.round(OUTPUT_SAMPLE_RATE * durationMs / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin(2 * Math.PI * frequency * i / OUTPUT_SAMPLE_RATE) * 0.3;
+    pcm.writeInt16LE(Math.round(value * 0x7fff), i * 2);
+  }
+  return pcm.toString('base64');
+};
+
+/** Converts a script step into a Gemini Live server message */
+const toServerMessage = (step) => {
+  if (step.message) return step.message;
+  if (step.input) return { serverContent: { inputTranscription: { text: step.input } } };
+  if (step.output) return { serverContent: { outputTranscription: { text: step.output } } };
+  if (step.tone) {
+    return {
+      serverContent: {
+        modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: tone(step.tone) } }] },
+      },
+    };
+  }
+  if (step.turnComplete) return { serverContent: { turnComplete: true } };
+  if (step.interrupted) return { serverContent: { interrupted: true } };
+  return null;
+};
+
+/** Encodes an unmasked server frame (text or close) */
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * Decodes complete (masked) client frames from the buffer.
+ * Returns the frames and whatever bytes belong to a frame that has not fully arrived.
+ */
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Mock Gemini Live server: connect over WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  let open = true;
+  let pending = Buffer.alloc(0);
+  let audioChunks = 0;
+  const timers = new Set();
+
+  const send = (message) => {
+    if (open) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  };
+  const shutdown = () => {
+    if (!open) return;
+    open = false;
+    timers.forEach(clearTimeout);
+    console.log(`Client disconnected after ${audioChunks} audio chunks`);
+  };
+
+  const replay = (index = 0) => {
+    if (!open) return;
+    if (index >= script.length) {
+      if (loop) replay(0);
+      return;
+    }
+    const step = script[index];
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      const message = toServerMessage(step);
+      if (message) send(message);
+      replay(index + 1);
+    }, step.delayMs ?? 0);
+    timers.add(timer);
+  };
+
+  socket.on('data', (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8));
+        shutdown();
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode !== 0x1) continue;
+      try {
+        const message = JSON.parse(payload.toString('utf8'));
+        if (message.type === 'audio') audioChunks++;
+        // Typed messages are acknowledged so the talkback path can be exercised too
+        if (message.type === 'text') {
+          send({ serverContent: { outputTranscription: { text: `You said: ${message.text}` } } });
+          send({ serverContent: { turnComplete: true } });
+        }
+        if (message.type === 'audioStreamEnd') console.log(`Audio stream ended after ${audioChunks} chunks`);
+      } catch {
+        console.warn('Ignoring malformed client message');
+      }
+    }
+  });
+  socket.on('close', shutdown);
+  socket.on('error', shutdown);
+
+  console.log(`Client connected; replaying ${script.length} steps from ${path.basename(scriptPath)}`);
+  replay();
+});
+
+server.listen(port, () => {
+  console.log(`Mock Gemini Live server listening on ws://localhost:${port}`);
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateTasks, normalizeActionItem, setActionItemStatus, taskSimilarity } from './actionItems';
+import { ActionItem, OrganizedNote } from '../types';
+
+const item = (id: string, text: string, overrides: Partial<ActionItem> = {}): ActionItem => ({
+  id,
+  text,
+  priority: 'medium',
+  status: 'open',
+  sourceNoteId: 'n',
+  ...overrides,
+});
+
+const note = (id: string, actionItems: ActionItem[]): OrganizedNote => ({
+  id,
+  title: id,
+  summary: '',
+  topics: [],
+  actionItems,
+  decisions: [],
+  sentiment: 'neutral',
+  timestamp: new Date().toISOString(),
+});
+
+describe('actionItems', () => {
+  it('scores paraphrases higher than unrelated tasks', () => {
+    expect(taskSimilarity('Send the pricing deck to Acme', 'Send pricing deck to Acme')).toBeGreaterThan(0.7);
+    expect(taskSimilarity('Send the pricing deck', 'Book the offsite venue')).toBeLessThan(0.2);
+  });
+
+  it('upgrades plain strings and fills defaults', () => {
+    expect(normalizeActionItem('Email client', 'note-1', 0)).toEqual({
+      id: 'note-1-item-0',
+      text: 'Email client',
+      priority: 'medium',
+      status: 'open',
+      sourceNoteId: 'note-1',
+    });
+    expect(normalizeActionItem({ text: '' }, 'note-1', 1)).toBeNull();
+  });
+
+  it('merges duplicate mentions across notes and keeps the earliest wording', () => {
+    // Newest note first, as stored in App state
+    const notes = [
+      note('n2', [item('b', 'Send pricing deck to Acme', { owner: 'Priya', priority: 'high' })]),
+      note('n1', [item('a', 'Send the pricing deck to Acme'), item('c', 'Book venue')]),
+    ];
+    const tasks = aggregateTasks(notes);
+
+    expect(tasks).toHaveLength(2);
+    expect(tasks[0]).toMatchObject({
+      text: 'Send the pricing deck to Acme',
+      owner: 'Priya',
+      priority: 'high',
+      mentions: 2,
+      memberIds: ['a', 'b'],
+    });
+  });
+
+  it('only marks a merged task done when every mention is done', () => {
+    let notes = [note('n1', [item('a', 'Book the venue'), item('b', 'Book the venue today')])];
+    notes = setActionItemStatus(notes, ['a'], 'done');
+    expect(aggregateTasks(notes)[0].status).toBe('open');
+
+    notes = setActionItemStatus(notes, ['a', 'b'], 'done');
+    expect(aggregateTasks(notes)[0].status).toBe('done');
+  });
+});
@@ -0,0 +1,126 @@
+import { ActionItem, OrganizedNote } from "../types";
+
+const PRIORITIES: ActionItem['priority'][] = ['low', 'medium', 'high'];
+
+/**
+ * Token overlap (Jaccard) above which two items are treated as the same task.
+ * Repeated mentions across buffers are usually paraphrases, not exact copies.
+ */
+const DUPLICATE_SIMILARITY = 0.7;
+
+/**
+ * A task as shown in the consolidated Tasks panel.
+ * Duplicate mentions across notes are merged into one entry.
+ */
+export interface AggregatedTask extends ActionItem {
+  /** Ids of every underlying ActionItem merged into this entry */
+  memberIds: string[];
+  /** How many notes mentioned this task */
+  mentions: number;
+}
+
+const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1)
+  );
+
+/**
+ * Jaccard similarity between the word sets of two task descriptions (0-1).
+ */
+export function taskSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Coerces legacy (plain string) or partial action items into the structured shape.
+ * Sessions saved before action items were structured stored them as `string[]`.
+ */
+export function normalizeActionItem(value: unknown, sourceNoteId: string, index: number): ActionItem | null {
+  if (typeof value === 'string') {
+    return value.trim()
+      ? { id: `${sourceNoteId}-item-${index}`, text: value, priority: 'medium', status: 'open', sourceNoteId }
+      : null;
+  }
+  if (typeof value !== 'object' || value === null) return null;
+
+  const item = value as Partial<ActionItem>;
+  if (typeof item.text !== 'string' || !item.text.trim()) return null;
+
+  return {
+    id: typeof item.id === 'string' && item.id ? item.id : `${sourceNoteId}-item-${index}`,
+    text: item.text,
+    ...(typeof item.owner === 'string' && item.owner.trim() ? { owner: item.owner.trim() } : {}),
+    ...(typeof item.dueDate === 'string' && item.dueDate.trim() ? { dueDate: item.dueDate.trim() } : {}),
+    priority: PRIORITIES.includes(item.priority as ActionItem['priority']) ? item.priority as ActionItem['priority'] : 'medium',
+    status: item.status === 'done' ? 'done' : 'open',
+    sourceNoteId,
+  };
+}
+
+/**
+ * Upgrades a stored note to the current shape (note id, structured action items).
+ */
+export function normalizeNote(note: OrganizedNote): OrganizedNote {
+  const id = note.id || `note-${note.timestamp}`;
+  return {
+    ...note,
+    id,
+    actionItems: (note.actionItems as unknown[])
+      .map((item, i) => normalizeActionItem(item, id, i))
+      .filter((item): item is ActionItem => item !== null),
+  };
+}
+
+/**
+ * Collects action items from every note, oldest first, merging near-duplicates.
+ * The merged entry keeps the earliest wording and fills in owner/due date from later
+ * mentions; it only counts as done once every mention is done.
+ */
+export function aggregateTasks(notes: OrganizedNote[]): AggregatedTask[] {
+  const tasks: AggregatedTask[] = [];
+
+  // Notes are stored newest-first
+  [...notes].reverse().forEach(note => {
+    note.actionItems.forEach(item => {
+      const existing = tasks.find(task => taskSimilarity(task.text, item.text) >= DUPLICATE_SIMILARITY);
+      if (!existing) {
+        tasks.push({ ...item, memberIds: [item.id], mentions: 1 });
+        return;
+      }
+      existing.memberIds.push(item.id);
+      existing.mentions++;
+      existing.owner = existing.owner ?? item.owner;
+      existing.dueDate = existing.dueDate ?? item.dueDate;
+      if (PRIORITIES.indexOf(item.priority) > PRIORITIES.indexOf(existing.priority)) {
+        existing.priority = item.priority;
+      }
+      if (item.status === 'open') existing.status = 'open';
+    });
+  });
+
+  return tasks;
+}
+
+/**
+ * Returns notes with the given action items set to a new status.
+ */
+export function setActionItemStatus(notes: OrganizedNote[], itemIds: string[], status: ActionItem['status']): OrganizedNote[] {
+  const ids = new Set(itemIds);
+  return notes.map(note =>
+    note.actionItems.some(item => ids.has(item.id))
+      ? { ...note, actionItems: note.actionItems.map(item => (ids.has(item.id) ? { ...item, status } : item)) }
+      : note
+  );
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AnalysisJob,
+  cancelAllAnalysisJobs,
+  cancelAnalysisJob,
+  cancelJobsForSegments,
+  claimedOffsets,
+  completeJobOffsets,
+  createAnalysisJob,
+  failAnalysisJob,
+  isAnalysisJobPaused,
+  MAX_ANALYSIS_ATTEMPTS,
+  nextRunnableJob,
+  retryAnalysisJob,
+  startAnalysisJob,
+} from './analysisQueue';
+import { getPendingTranscript } from './transcriptEditing';
+import { TranscriptSegment } from '../types';
+
+const segment = (id: string, text: string, isPartial = false): TranscriptSegment => ({
+  id,
+  sender: 'user',
+  text,
+  timestamp: new Date(),
+  isPartial,
+  source: 'mic',
+});
+
+const job = (id: string, segmentIds: string[], overrides: Partial<AnalysisJob> = {}): AnalysisJob => ({
+  id,
+  trigger: 'turn',
+  transcript: 'Me: text',
+  segmentIds,
+  offsets: Object.fromEntries(segmentIds.map(s => [s, 10])),
+  status: 'queued',
+  attempts: 0,
+  ...overrides,
+});
+
+describe('analysisQueue', () => {
+  it('hands text that arrives during a job to the next job, exactly once', () => {
+    const segments = [segment('1', 'Budget is approved.', true)];
+    const first = createAnalysisJob(getPendingTranscript(segments, {}), 'manual');
+
+    segments[0] = { ...segments[0], text: 'Budget is approved. Hiring starts in May.' };
+    const pending = getPendingTranscript(segments, claimedOffsets({}, [first]));
+    expect(pending.text).toBe('Me: Hiring starts in May.');
+
+    const second = createAnalysisJob(pending, 'turn');
+    const organized = completeJobOffsets(completeJobOffsets({}, first), second);
+    expect(getPendingTranscript(segments, organized).text).toBe('');
+  });
+
+  it('runs only the head of the queue', () => {
+    const jobs = [job('a', ['1']), job('b', ['2'])];
+    expect(nextRunnableJob(jobs, 0)?.id).toBe('a');
+    expect(nextRunnableJob(startAnalysisJob(jobs, 'a'), 0)).toBeNull();
+    expect(nextRunnableJob([job('a', ['1'], { status: 'waiting', retryAt: 500 })], 499)).toBeNull();
+    expect(nextRunnableJob([job('a', ['1'], { status: 'waiting', retryAt: 500 })], 500)?.id).toBe('a');
+    expect(nextRunnableJob([job('a', ['1'], { status: 'failed' }), job('b', ['2'])], 0)).toBeNull();
+  });
+
+  it('holds queued and retrying automatic jobs while auto-analysis is paused', () => {
+    const waiting = job('a', ['1'], { status: 'waiting', retryAt: 500 });
+    expect(nextRunnableJob([job('a', ['1'])], 0, true)).toBeNull();
+    expect(nextRunnableJob([waiting], 1000, true)).toBeNull();
+    expect(nextRunnableJob([job('a', ['1'], { trigger: 'manual' })], 0, true)?.id).toBe('a');
+    expect(nextRunnableJob([job('a', ['1']), job('b', ['2'], { trigger: 'manual' })], 0, true)).toBeNull();
+    expect(isAnalysisJobPaused(waiting, true)).toBe(true);
+    expect(isAnalysisJobPaused(job('a', ['1'], { status: 'running' }), true)).toBe(false);
+    expect(isAnalysisJobPaused(waiting, false)).toBe(false);
+  });
+
+  it('backs off on transient errors and gives up on permanent ones', () => {
+    const waiting = failAnalysisJob(job('a', ['1']), 'HTTP 429', true, 1000, () => 0);
+    expect(waiting).toMatchObject({ status: 'waiting', attempts: 1, retryAt: 3000, error: 'HTTP 429' });
+    expect(failAnalysisJob(job('a', ['1']), 'HTTP 401', false, 1000).status).toBe('failed');
+    expect(failAnalysisJob(job('a', ['1'], { attempts: MAX_ANALYSIS_ATTEMPTS - 1 }), 'HTTP 503', true, 1000).status).toBe('failed');
+
+    const retried = retryAnalysisJob([{ ...waiting, status: 'failed' }], 'a')[0];
+    expect(retried).toMatchObject({ status: 'queued', attempts: 0, error: undefined });
+  });
+
+  it('cancels later jobs that continue a cancelled job\'s segments', () => {
+    const jobs = [job('a', ['1', '2']), job('b', ['2', '3']), job('c', ['4'])];
+    expect(cancelAnalysisJob(jobs, 'a').map(j => j.id)).toEqual(['c']);
+    expect(cancelAnalysisJob(jobs, 'b').map(j => j.id)).toEqual(['a', 'c']);
+    expect(cancelAnalysisJob(startAnalysisJob(jobs, 'a'), 'a')).toHaveLength(3);
+  });
+
+  it('marks a running job stale when its text is edited and stops counting it', () => {
+    const jobs = cancelJobsForSegments([job('a', ['1'], { status: 'running' }), job('b', ['1', '2']), job('c', ['3'])], ['1']);
+    expect(jobs.map(j => [j.id, j.stale ?? false])).toEqual([['a', true], ['c', false]]);
+    expect(claimedOffsets({}, jobs)).toEqual({ '3': 10 });
+    expect(cancelAllAnalysisJobs(jobs).map(j => j.id)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,144 @@
+import { AnalysisTrigger } from "./analysisTrigger";
+import { OrganizedOffsets, PendingTranscript } from "./transcriptEditing";
+import { backoffDelay, BackoffOptions } from "./reconnect";
+
+/**
+ * Queue of organizer runs waiting for, or recovering from, the model.
+ *
+ * Each job snapshots the exact stretch of every segment it covers when it is
+ * queued, so text that arrives while it waits or runs belongs to the next job.
+ * Jobs run strictly one at a time from the head: notes land in transcript order
+ * and a segment's organized offset only ever moves over text a note was written
+ * from. A job that fails for good stays at the head until it is retried or
+ * discarded, so nothing behind it can skip over its text.
+ */
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'waiting' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  trigger: AnalysisTrigger | 'manual';
+  /** "Speaker: text" lines sent to the organizer */
+  transcript: string;
+  segmentIds: string[];
+  /** Where each covered segment's organized text ends once this job lands */
+  offsets: OrganizedOffsets;
+  status: AnalysisJobStatus;
+  /** Failed attempts so far */
+  attempts: number;
+  /** When a waiting job is tried again (epoch ms) */
+  retryAt?: number;
+  /** Last failure, shown while waiting or failed */
+  error?: string;
+  /** Set when the transcript under a running job changed; its note is thrown away */
+  stale?: boolean;
+}
+
+/** Attempts before a transient failure is reported as permanent */
+export const MAX_ANALYSIS_ATTEMPTS = 4;
+
+export const ANALYSIS_BACKOFF: BackoffOptions = { baseMs: 2000, maxMs: 60000, jitter: 0.3 };
+
+export const createAnalysisJob = (pending: PendingTranscript, trigger: AnalysisTrigger | 'manual'): AnalysisJob => ({
+  id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  trigger,
+  transcript: pending.text,
+  segmentIds: pending.segmentIds,
+  offsets: Object.fromEntries(pending.segmentIds.map(id => [id, pending.offsets[id]])),
+  status: 'queued',
+  attempts: 0,
+});
+
+/**
+ * Offsets with every queued job's text counted as taken, so new jobs and the
+ * auto-analysis triggers only see text no job covers yet.
+ */
+export const claimedOffsets = (organized: OrganizedOffsets, jobs: AnalysisJob[]): OrganizedOffsets => {
+  const claimed = { ...organized };
+  jobs.filter(job => !job.stale).forEach(job => {
+    Object.entries(job.offsets).forEach(([id, offset]) => {
+      claimed[id] = Math.max(claimed[id] ?? 0, offset);
+    });
+  });
+  return claimed;
+};
+
+/** Organized offsets after `job`'s note has landed */
+export const completeJobOffsets = (organized: OrganizedOffsets, job: AnalysisJob): OrganizedOffsets => {
+  const next = { ...organized };
+  Object.entries(job.offsets).forEach(([id, offset]) => {
+    next[id] = Math.max(next[id] ?? 0, offset);
+  });
+  return next;
+};
+
+/** Whether a job is held back because auto-analysis is paused (e.g. the budget is used up) */
+export const isAnalysisJobPaused = (job: AnalysisJob, autoPaused: boolean): boolean =>
+  autoPaused && job.trigger !== 'manual' && (job.status === 'queued' || job.status === 'waiting');
+
+/**
+ * The head job if it may start now; null while it runs, waits for its retry, has failed,
+ * or is an automatic job while auto-analysis is paused. Later jobs continue the head's
+ * text, so they wait behind it either way.
+ */
+export const nextRunnableJob = (jobs: AnalysisJob[], now: number, autoPaused = false): AnalysisJob | null => {
+  const head = jobs[0];
+  if (!head || isAnalysisJobPaused(head, autoPaused)) return null;
+  if (head.status === 'queued') return head;
+  if (head.status === 'waiting' && (head.retryAt ?? 0) <= now) return head;
+  return null;
+};
+
+export const startAnalysisJob = (jobs: AnalysisJob[], id: string): AnalysisJob[] =>
+  jobs.map(job => (job.id === id ? { ...job, status: 'running' as const, retryAt: undefined } : job));
+
+/**
+ * Records a failed attempt: a transient error waits for a backoff delay,
+ * anything else (or too many attempts) marks the job failed.
+ */
+export const failAnalysisJob = (
+  job: AnalysisJob,
+  error: string,
+  retryable: boolean,
+  now: number,
+  random = Math.random
+): AnalysisJob => {
+  const attempts = job.attempts + 1;
+  if (retryable && attempts < MAX_ANALYSIS_ATTEMPTS) {
+    return { ...job, status: 'waiting', attempts, error, retryAt: now + backoffDelay(attempts - 1, ANALYSIS_BACKOFF, random) };
+  }
+  return { ...job, status: 'failed', attempts, error, retryAt: undefined };
+};
+
+/** Puts a failed job back in line with a fresh set of attempts */
+export const retryAnalysisJob = (jobs: AnalysisJob[], id: string): AnalysisJob[] =>
+  jobs.map(job => (job.id === id && job.status === 'failed'
+    ? { ...job, status: 'queued' as const, attempts: 0, error: undefined }
+    : job));
+
+/**
+ * Drops the selected jobs and hands their text back to the buffer. Later jobs
+ * that continue one of their segments go too, since they start where the
+ * dropped text ends. A running job cannot be recalled, so it is marked stale.
+ */
+const releaseJobs = (jobs: AnalysisJob[], selected: (job: AnalysisJob) => boolean): AnalysisJob[] => {
+  const released = new Set<string>();
+  return jobs.flatMap(job => {
+    if (!selected(job) && !job.segmentIds.some(id => released.has(id))) return [job];
+    job.segmentIds.forEach(id => released.add(id));
+    return job.status === 'running' ? [{ ...job, stale: true }] : [];
+  });
+};
+
+/** Cancels a job that has not started; its text stays pending for the next analysis */
+export const cancelAnalysisJob = (jobs: AnalysisJob[], id: string): AnalysisJob[] =>
+  jobs.some(job => job.id === id && job.status !== 'running') ? releaseJobs(jobs, job => job.id === id) : jobs;
+
+/** Cancels every job built from text that has since been edited */
+export const cancelJobsForSegments = (jobs: AnalysisJob[], segmentIds: string[]): AnalysisJob[] => {
+  const ids = new Set(segmentIds);
+  return releaseJobs(jobs, job => job.segmentIds.some(id => ids.has(id)));
+};
+
+/** Cancels everything, e.g. when another session is shown or the transcript is re-analyzed whole */
+export const cancelAllAnalysisJobs = (jobs: AnalysisJob[]): AnalysisJob[] => releaseJobs(jobs, () => true);
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ANALYSIS_POLICY, decideAnalysis, findTopicShift, termSimilarity } from './analysisTrigger';
+import { AnalysisPolicy, TranscriptSegment } from '../types';
+
+const segment = (id: string, text: string, isPartial = false): TranscriptSegment => ({
+  id,
+  sender: 'user',
+  text,
+  timestamp: new Date(),
+  isPartial,
+  source: 'mic',
+});
+
+const policy = (overrides: Partial<AnalysisPolicy> = {}): AnalysisPolicy => ({
+  ...DEFAULT_ANALYSIS_POLICY,
+  onTurnComplete: false,
+  silenceMs: 0,
+  intervalMs: 0,
+  onTopicShift: false,
+  minChars: 40,
+  maxChars: 1000,
+  ...overrides,
+});
+
+const clock = { now: 100000, lastActivityAt: 100000, lastAnalysisAt: 100000 };
+
+const BUDGET = [
+  'The marketing budget for the spring campaign needs another review before finance signs off.',
+  'Finance wants the campaign budget split between paid search and social advertising spend.',
+];
+const HIRING = [
+  'Moving on, the engineering hiring plan includes two backend engineers and one designer.',
+  'Interviews for the backend engineers start next month with the platform team leading them.',
+];
+
+describe('analysisTrigger', () => {
+  it('scores shared vocabulary', () => {
+    expect(termSimilarity(['budget', 'campaign'], ['budget', 'campaign'])).toBeCloseTo(1);
+    expect(termSimilarity(['budget'], ['hiring'])).toBe(0);
+    expect(termSimilarity([], ['hiring'])).toBe(0);
+  });
+
+  it('finds the boundary where the topic changes', () => {
+    expect(findTopicShift([...BUDGET, ...HIRING])).toBe(2);
+    expect(findTopicShift(BUDGET)).toBe(-1);
+  });
+
+  it('never hands over the segment that is still being transcribed', () => {
+    const segments = [segment('1', BUDGET[0]), segment('2', BUDGET[1], true)];
+    const decision = decideAnalysis(segments, {}, {}, policy({ intervalMs: 1000 }), { ...clock, lastAnalysisAt: 0 });
+    expect(decision).toMatchObject({ trigger: 'interval', pending: { segmentIds: ['1'] } });
+  });
+
+  it('fires on a completed turn once enough text is waiting', () => {
+    const segments = [segment('1', 'Short one.'), segment('2', BUDGET[0])];
+    expect(decideAnalysis(segments.slice(0, 1), {}, {}, policy({ onTurnComplete: true }), clock)).toBeNull();
+    expect(decideAnalysis(segments, {}, {}, policy({ onTurnComplete: true }), clock)).toMatchObject({
+      trigger: 'turn',
+      pending: { segmentIds: ['1', '2'] },
+    });
+  });
+
+  it('treats the open segment as finished after a silence', () => {
+    const segments = [segment('1', BUDGET[0], true)];
+    const quiet = { ...clock, now: clock.lastActivityAt + 9000 };
+    expect(decideAnalysis(segments, {}, {}, policy(), quiet)).toBeNull();
+    expect(decideAnalysis(segments, {}, {}, policy({ silenceMs: 8000 }), quiet)).toMatchObject({ trigger: 'silence' });
+  });
+
+  it('analyzes the previous topic when the conversation moves on', () => {
+    const segments = [...BUDGET, ...HIRING].map((text, i) => segment(String(i), text));
+    const decision = decideAnalysis(segments, {}, {}, policy({ onTopicShift: true }), clock);
+    expect(decision).toMatchObject({ trigger: 'topic', pending: { segmentIds: ['0', '1'] } });
+  });
+
+  it('cuts oversized buffers on segment boundaries', () => {
+    const segments = [segment('1', BUDGET[0]), segment('2', BUDGET[1]), segment('3', HIRING[0])];
+    const decision = decideAnalysis(segments, {}, {}, policy({ maxChars: 200 }), clock);
+    expect(decision?.trigger).toBe('size');
+    expect(decision?.pending.segmentIds).toEqual(['1', '2']);
+    expect(decision?.pending.text.length).toBeLessThanOrEqual(200);
+  });
+
+  it('skips text that was already organized', () => {
+    const segments = [segment('1', BUDGET[0]), segment('2', BUDGET[1])];
+    const decision = decideAnalysis(segments, { '1': BUDGET[0].length }, {}, policy({ onTurnComplete: true }), clock);
+    expect(decision?.pending.segmentIds).toEqual(['2']);
+  });
+});
@@ -0,0 +1,145 @@
+import { AnalysisPolicy, TranscriptSegment } from "../types";
+import { getPendingTranscript, OrganizedOffsets, PendingTranscript } from "./transcriptEditing";
+import { tokenizeForSearch } from "./searchIndex";
+
+/**
+ * Decides when the organizer runs automatically and which segments it gets.
+ *
+ * Only segments that will not grow any more are handed over, so every note
+ * starts and ends on a segment boundary. The one exception is a single open
+ * segment that outgrows `maxChars` without a pause.
+ */
+
+export const DEFAULT_ANALYSIS_POLICY: AnalysisPolicy = {
+  onTurnComplete: true,
+  silenceMs: 8000,
+  intervalMs: 120000,
+  onTopicShift: true,
+  minChars: 200,
+  maxChars: 4000,
+};
+
+export type AnalysisTrigger = 'turn' | 'silence' | 'interval' | 'topic' | 'size';
+
+export interface AnalysisClock {
+  now: number;
+  /** When the transcript last changed */
+  lastActivityAt: number;
+  /** When the organizer last ran, or when the session started */
+  lastAnalysisAt: number;
+}
+
+export interface AnalysisDecision {
+  trigger: AnalysisTrigger;
+  pending: PendingTranscript;
+}
+
+/** Below this similarity between two stretches of talk, the topic has changed */
+const TOPIC_SHIFT_SIMILARITY = 0.15;
+/** Content words each side needs before the comparison means anything */
+const MIN_TOPIC_TERMS = 12;
+
+// Short words are mostly fillers ("yeah", "just") that every topic shares
+const topicTerms = (text: string) => tokenizeForSearch(text).filter(term => term.length > 3);
+
+const countTerms = (terms: string[]) => {
+  const counts = new Map<string, number>();
+  terms.forEach(term => counts.set(term, (counts.get(term) ?? 0) + 1));
+  return counts;
+};
+
+/**
+ * Cosine similarity of two bags of words, from 0 (nothing shared) to 1.
+ */
+export const termSimilarity = (a: string[], b: string[]): number => {
+  const countsA = countTerms(a);
+  const countsB = countTerms(b);
+  let dot = 0;
+  countsA.forEach((count, term) => { dot += count * (countsB.get(term) ?? 0); });
+  const norm = (counts: Map<string, number>) => Math.sqrt(Array.from(counts.values()).reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(countsA) * norm(countsB);
+  return denominator > 0 ? dot / denominator : 0;
+};
+
+/**
+ * Finds where the conversation moved to a new topic: the boundary whose
+ * vocabulary before and after overlaps least, if it overlaps little enough.
+ *
+ * @returns Index of the first text of the new topic, or -1
+ */
+export const findTopicShift = (texts: string[]): number => {
+  const terms = texts.map(topicTerms);
+  let best = -1;
+  let lowest = TOPIC_SHIFT_SIMILARITY;
+  for (let i = 1; i < texts.length; i++) {
+    const before = terms.slice(0, i).flat();
+    const after = terms.slice(i).flat();
+    if (before.length < MIN_TOPIC_TERMS || after.length < MIN_TOPIC_TERMS) continue;
+    const similarity = termSimilarity(before, after);
+    if (similarity < lowest) {
+      lowest = similarity;
+      best = i;
+    }
+  }
+  return best;
+};
+
+/** Longest run of leading segments whose pending text fits in `maxChars`; never empty */
+const takeUpTo = (lines: PendingTranscript[], maxChars: number) => {
+  let length = lines[0].text.length;
+  let count = 1;
+  while (count < lines.length && length + 1 + lines[count].text.length <= maxChars) {
+    length += 1 + lines[count].text.length;
+    count++;
+  }
+  return count;
+};
+
+const joinedLength = (lines: PendingTranscript[]) =>
+  lines.reduce((sum, line) => sum + line.text.length, 0) + Math.max(0, lines.length - 1);
+
+/**
+ * Checks the policy against the transcript and returns what to analyze now, if anything.
+ */
+export const decideAnalysis = (
+  segments: TranscriptSegment[],
+  offsets: OrganizedOffsets,
+  speakerNames: Record<string, string>,
+  policy: AnalysisPolicy,
+  clock: AnalysisClock
+): AnalysisDecision | null => {
+  const last = segments[segments.length - 1];
+  if (!last) return null;
+
+  const silent = policy.silenceMs > 0 && clock.now - clock.lastActivityAt >= policy.silenceMs;
+  // Only the newest segment can still grow; after a long enough pause it is finished too
+  const settled = last.isPartial && !silent ? segments.slice(0, -1) : segments;
+
+  const pending = (subset: TranscriptSegment[]) => getPendingTranscript(subset, offsets, speakerNames);
+  const lines = settled.map(s => pending([s])).filter(line => line.text);
+
+  if (lines.length === 0) {
+    const open = pending([last]);
+    return open.text.length >= policy.maxChars ? { trigger: 'size', pending: open } : null;
+  }
+
+  const segmentsOf = (count: number) => lines.slice(0, count).flatMap(line => line.segmentIds);
+  const decide = (trigger: AnalysisTrigger, count = lines.length): AnalysisDecision => {
+    const ids = new Set(segmentsOf(count));
+    return { trigger, pending: pending(segments.filter(s => ids.has(s.id))) };
+  };
+
+  if (joinedLength(lines) >= policy.maxChars) return decide('size', takeUpTo(lines, policy.maxChars));
+
+  if (policy.onTopicShift) {
+    const shift = findTopicShift(lines.map(line => line.text));
+    if (shift > 0 && joinedLength(lines.slice(0, shift)) >= policy.minChars) return decide('topic', shift);
+  }
+
+  if (joinedLength(lines) < policy.minChars) return null;
+  // turnComplete is what finalizes the newest segment
+  if (policy.onTurnComplete && !last.isPartial) return decide('turn');
+  if (silent) return decide('silence');
+  if (policy.intervalMs > 0 && clock.now - clock.lastAnalysisAt >= policy.intervalMs) return decide('interval');
+  return null;
+};
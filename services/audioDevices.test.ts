@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { buildMicConstraints, clampGain, listAudioInputs, resolveInputDevice } from './audioDevices';
+
+const device = (kind: MediaDeviceKind, deviceId: string, label = '') =>
+  ({ kind, deviceId, label, groupId: '' }) as MediaDeviceInfo;
+
+describe('audioDevices', () => {
+  it('lists audio inputs without default aliases, numbering unlabeled ones', () => {
+    const inputs = listAudioInputs([
+      device('audioinput', 'default', 'Default - Built-in'),
+      device('audioinput', 'usb-1', 'Jabra Speak 510'),
+      device('audiooutput', 'spk-1', 'Speakers'),
+      device('audioinput', 'mic-2'),
+    ]);
+    expect(inputs).toEqual([
+      { deviceId: 'usb-1', label: 'Jabra Speak 510' },
+      { deviceId: 'mic-2', label: 'Microphone 2' },
+    ]);
+  });
+
+  it('falls back to the default device when the preferred one is gone', () => {
+    const inputs = [{ deviceId: 'usb-1', label: 'USB' }];
+    expect(resolveInputDevice('usb-1', inputs)).toBe('usb-1');
+    expect(resolveInputDevice('usb-2', inputs)).toBeUndefined();
+    expect(resolveInputDevice(undefined, inputs)).toBeUndefined();
+  });
+
+  it('requests an exact device only when one is chosen', () => {
+    expect(buildMicConstraints('usb-1').deviceId).toEqual({ exact: 'usb-1' });
+    expect(buildMicConstraints()).not.toHaveProperty('deviceId');
+    expect(buildMicConstraints().echoCancellation).toBe(true);
+  });
+
+  it('clamps gains to the supported range', () => {
+    expect(clampGain(3)).toBe(2);
+    expect(clampGain(-1)).toBe(0);
+    expect(clampGain(NaN)).toBe(1);
+    expect(clampGain(0.5)).toBe(0.5);
+  });
+});
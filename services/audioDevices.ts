@@ -0,0 +1,51 @@
+import { AudioSource } from "../types";
+
+/**
+ * An audio input as shown in the device picker.
+ */
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+/** Gain range offered per source; 1 is unity */
+export const MIN_SOURCE_GAIN = 0;
+export const MAX_SOURCE_GAIN = 2;
+
+export const DEFAULT_SOURCE_GAINS: Record<AudioSource, number> = { mic: 1, system: 1 };
+
+/**
+ * Audio inputs from `enumerateDevices`. Browsers hide labels until microphone
+ * permission is granted, so unlabeled devices get numbered names. The "default"
+ * and "communications" aliases are left out; an unset device id means the default.
+ */
+export const listAudioInputs = (devices: MediaDeviceInfo[]): AudioInputDevice[] =>
+  devices
+    .filter(d => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications')
+    .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }));
+
+/**
+ * The device to capture from: the preferred one while it is connected, otherwise
+ * undefined (the system default), e.g. after a USB mic is unplugged.
+ */
+export const resolveInputDevice = (preferredId: string | undefined, inputs: AudioInputDevice[]): string | undefined =>
+  preferredId && inputs.some(d => d.deviceId === preferredId) ? preferredId : undefined;
+
+/**
+ * getUserMedia constraints for speech capture from the given device.
+ */
+export const buildMicConstraints = (deviceId?: string): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  channelCount: 1,
+  echoCancellation: true,
+  autoGainControl: true,
+  noiseSuppression: true,
+  // @ts-ignore - Experimental constraint for better voice isolation on supported devices
+  voiceIsolation: true
+});
+
+/**
+ * Clamps a gain slider value to the supported range.
+ */
+export const clampGain = (gain: number): number =>
+  Number.isFinite(gain) ? Math.min(MAX_SOURCE_GAIN, Math.max(MIN_SOURCE_GAIN, gain)) : 1;
@@ -1,5 +1,22 @@
 import { describe, it, expect } from 'vitest';
-import { downsampleTo16k, createBlob, PCM_SAMPLE_RATE } from './audioUtils';
+import {
+  downsampleTo16k,
+  createBlob,
+  createResampler,
+  encode,
+  flushResampler,
+  mixToMono,
+  resample,
+  PCM_SAMPLE_RATE,
+} from './audioUtils';
+
+const sine = (frequency: number, rate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / rate) * amplitude);
+
+const rms = (data: Float32Array) => Math.sqrt(data.reduce((sum, v) => sum + v * v, 0) / data.length);
+
+/** Drops the filter's start-up and tail so measurements only see the steady state */
+const interior = (data: Float32Array) => data.subarray(200, data.length - 200);
 
 describe('audioUtils', () => {
   describe('downsampleTo16k', () => {
@@ -13,16 +30,33 @@ describe('audioUtils', () => {
     });
 
     it('should downsample 48kHz to 16kHz (factor of 3)', () => {
-      // 9 samples at 48k should become 3 samples at 16k
-      const input = new Float32Array([1.0, 1.0, 1.0, 0.5, 0.5, 0.5, -1.0, -1.0, -1.0]);
+      // 4800 samples at 48k should become 1600 samples at 16k
+      const input = new Float32Array(4800).fill(0.5);
       const result = downsampleTo16k(input, 48000);
-      
-      expect(result.length).toBe(3);
-      // Basic linear interpolation check (logic validation)
-      // Since input is constant in blocks of 3, the result should theoretically capture those values
-      expect(result[0]).toBeCloseTo(1.0);
-      expect(result[1]).toBeCloseTo(0.5);
-      expect(result[2]).toBeCloseTo(-1.0);
+
+      expect(result.length).toBe(1600);
+      // Unity gain at DC away from the edges
+      interior(result).forEach(v => expect(v).toBeCloseTo(0.5, 3));
+    });
+
+    it('should keep speech-band tones intact and in phase', () => {
+      for (const rate of [44100, 48000, 96000]) {
+        const result = downsampleTo16k(sine(1000, rate, rate), rate);
+        const expected = sine(1000, PCM_SAMPLE_RATE, result.length);
+        const error = interior(result).map((v, i) => v - interior(expected)[i]);
+        expect(result.length).toBe(PCM_SAMPLE_RATE);
+        expect(rms(error)).toBeLessThan(1e-3);
+      }
+    });
+
+    it('should filter out content above 8kHz instead of aliasing it', () => {
+      // 10kHz at 48k and 12kHz at 44.1k would fold back to 6kHz and 4kHz
+      for (const [rate, frequency] of [[48000, 10000], [44100, 12000], [96000, 20000]]) {
+        const input = sine(frequency, rate, rate);
+        const result = downsampleTo16k(input, rate);
+        const attenuationDb = 20 * Math.log10(rms(interior(result)) / rms(input));
+        expect(attenuationDb).toBeLessThan(-60);
+      }
     });
 
     it('should handle empty buffers', () => {
@@ -32,6 +66,48 @@ describe('audioUtils', () => {
     });
   });
 
+  describe('resample', () => {
+    it('should give identical output whether fed in one go or in blocks', () => {
+      for (const rate of [44100, 48000, 96000]) {
+        const input = sine(440, rate, rate / 2);
+        const whole = downsampleTo16k(input, rate);
+
+        // Uneven block sizes, including ScriptProcessor (4096) and worklet (128) quanta
+        const resampler = createResampler(rate);
+        const blocks: number[] = [];
+        const sizes = [4096, 128, 441, 1, 1000];
+        for (let offset = 0, i = 0; offset < input.length; i++) {
+          const size = sizes[i % sizes.length];
+          blocks.push(...resample(resampler, input.subarray(offset, offset + size)));
+          offset += size;
+        }
+        blocks.push(...flushResampler(resampler));
+
+        expect(blocks.length).toBe(whole.length);
+        blocks.forEach((v, i) => expect(v).toBeCloseTo(whole[i], 5));
+      }
+    });
+
+    it('should not jump at block boundaries', () => {
+      const resampler = createResampler(44100);
+      const input = sine(300, 44100, 44100);
+      const output: number[] = [];
+      for (let offset = 0; offset < input.length; offset += 4096) {
+        output.push(...resample(resampler, input.subarray(offset, offset + 4096)));
+      }
+      // A 300Hz sine at 16kHz never moves more than 2*pi*300/16000 of its amplitude per sample
+      const maxStep = 2 * Math.PI * 300 / PCM_SAMPLE_RATE * 0.5;
+      for (let i = 201; i < output.length; i++) {
+        expect(Math.abs(output[i] - output[i - 1])).toBeLessThanOrEqual(maxStep * 1.01);
+      }
+    });
+
+    it('should pass audio through when the rates match', () => {
+      const input = new Float32Array([0.1, 0.2]);
+      expect(resample(createResampler(PCM_SAMPLE_RATE), input)).toBe(input);
+    });
+  });
+
   describe('createBlob', () => {
     it('should convert Float32Array to base64 PCM string', () => {
       // Create a simple buffer: 0.0 (silence) and 1.0 (max volume)
@@ -51,4 +127,27 @@ describe('audioUtils', () => {
       expect(binaryString.length).toBe(6);
     });
   });
-});
\ No newline at end of file
+
+  describe('encode', () => {
+    it('should match standard base64 for every padding case', () => {
+      for (let length = 0; length <= 7; length++) {
+        const bytes = Uint8Array.from({ length }, (_, i) => (i * 97 + 251) % 256);
+        expect(encode(bytes)).toBe(btoa(String.fromCharCode(...bytes)));
+      }
+    });
+  });
+
+  describe('mixToMono', () => {
+    it('should return the single channel unchanged', () => {
+      const mono = new Float32Array([0.1, 0.2]);
+      expect(mixToMono([mono])).toBe(mono);
+    });
+
+    it('should average stereo channels', () => {
+      const left = new Float32Array([1.0, 0.0, -0.5]);
+      const right = new Float32Array([0.0, 1.0, -0.5]);
+      const result = mixToMono([left, right]);
+      expect(Array.from(result)).toEqual([0.5, 0.5, -0.5]);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Blob } from '@google/genai';
 
 export const PCM_SAMPLE_RATE = 16000;
+export const PCM_MIME_TYPE = `audio/pcm;rate=${PCM_SAMPLE_RATE}`;
 
 /**
  * Converts a Float32Array of audio data into a generic Blob structure
@@ -12,8 +13,17 @@ export const PCM_SAMPLE_RATE = 16000;
  * @returns A Blob-like object containing base64 encoded PCM data
  */
 export function createBlob(data: Float32Array): Blob {
+  return {
+    data: encode(new Uint8Array(floatToPcm16(data).buffer)),
+    mimeType: PCM_MIME_TYPE,
+  };
+}
+
+/**
+ * Packs Float32 samples as 16-bit PCM with soft clipping.
+ */
+export function floatToPcm16(data: Float32Array): Int16Array {
   const l = data.length;
-  // Use Int16Array directly for PCM data
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
     // Soft clip using hyperbolic tangent (tanh)
@@ -25,57 +35,183 @@ export function createBlob(data: Float32Array): Blob {
     // Convert float to 16-bit PCM
     int16[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
   }
-  
-  // Create the blob from the Int16Array buffer
-  // We use a manual encoding to string approach to avoid external deps, 
-  // but we process in chunks to prevent stack overflow on large buffers.
+  return int16;
+}
+
+/**
+ * Root-mean-square level of a buffer (0.0 for silence, ~0.707 for a full-scale sine).
+ */
+export function calculateRms(data: Float32Array): number {
+  if (data.length === 0) return 0;
+  let sumSquares = 0;
+  for (let i = 0; i < data.length; i++) {
+    sumSquares += data[i] * data[i];
+  }
+  return Math.sqrt(sumSquares / data.length);
+}
+
+/** Zero crossings of the sinc kernel on each side; more gives a sharper cutoff */
+const RESAMPLER_ZERO_CROSSINGS = 24;
+/** Cutoff as a fraction of the lower Nyquist frequency, leaving room for the transition band */
+const RESAMPLER_ROLLOFF = 0.9;
+/** Kernel table entries per input sample; fractional positions are interpolated between them */
+const KERNEL_RESOLUTION = 128;
+
+/**
+ * Streaming windowed-sinc resampler. Keeps the input the kernel still needs
+ * between calls, so audio processed in blocks comes out identical to audio
+ * processed in one go: no clicks at block boundaries.
+ */
+export interface Resampler {
+  inputRate: number;
+  outputRate: number;
+  /** Input samples advanced per output sample */
+  step: number;
+  /** Kernel half-width in input samples */
+  halfWidth: number;
+  /** Blackman-windowed sinc from 0 to `halfWidth`, sampled `KERNEL_RESOLUTION` times per input sample */
+  kernel: Float32Array;
+  /** Unconsumed input, starting with the history the kernel still reaches back into */
+  buffer: Float32Array;
+  /** Position in `buffer` (in input samples) of the next output sample */
+  position: number;
+}
+
+/**
+ * Creates a resampler between any two rates (44.1kHz, 48kHz, 96kHz, ... to 16kHz by default).
+ * The low-pass cutoff sits just below the lower of the two Nyquist frequencies, so
+ * content the output rate cannot represent is filtered out instead of aliasing.
+ */
+export function createResampler(inputRate: number, outputRate: number = PCM_SAMPLE_RATE): Resampler {
+  // Cycles per input sample
+  const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * RESAMPLER_ROLLOFF;
+  const halfWidth = RESAMPLER_ZERO_CROSSINGS / (2 * cutoff);
+
+  const kernel = new Float32Array(Math.floor(halfWidth * KERNEL_RESOLUTION) + 2);
+  for (let k = 0; k < kernel.length; k++) {
+    const t = k / KERNEL_RESOLUTION;
+    if (t > halfWidth) break;
+    const x = 2 * cutoff * t;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const w = t / halfWidth;
+    const blackman = 0.42 + 0.5 * Math.cos(Math.PI * w) + 0.08 * Math.cos(2 * Math.PI * w);
+    kernel[k] = 2 * cutoff * sinc * blackman;
+  }
+  // Normalise for unity gain at DC
+  let dcGain = kernel[0];
+  for (let n = 1; n <= halfWidth; n++) dcGain += 2 * kernel[n * KERNEL_RESOLUTION];
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= dcGain;
+
+  // Zero history before the first sample, so output starts exactly at input time 0
+  const padding = Math.ceil(halfWidth);
   return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    inputRate,
+    outputRate,
+    step: inputRate / outputRate,
+    halfWidth,
+    kernel,
+    buffer: new Float32Array(padding),
+    position: padding,
   };
 }
 
+const kernelAt = (kernel: Float32Array, distance: number): number => {
+  const index = distance * KERNEL_RESOLUTION;
+  const i = Math.floor(index);
+  return kernel[i] + (kernel[i + 1] - kernel[i]) * (index - i);
+};
+
 /**
- * Downsamples audio to the target 16kHz rate using Linear Interpolation.
- * This provides higher quality than nearest-neighbor (dropping samples) by
- * smoothing out the signal, which is critical for Speech-to-Text accuracy.
- * 
+ * Feeds a block of input and returns every output sample that can be computed so far.
+ * Output lags the input by the kernel half-width (under 2ms at 48kHz); call
+ * `flushResampler` at the end of a stream to get the rest.
+ */
+export function resample(resampler: Resampler, input: Float32Array): Float32Array {
+  if (resampler.inputRate === resampler.outputRate) return input;
+
+  const { step, halfWidth, kernel, position } = resampler;
+  const buffer = new Float32Array(resampler.buffer.length + input.length);
+  buffer.set(resampler.buffer);
+  buffer.set(input, resampler.buffer.length);
+
+  // Outputs whose kernel fits inside the samples we have
+  const count = Math.max(0, Math.floor((buffer.length - 1 - halfWidth - position) / step) + 1);
+  const output = new Float32Array(count);
+  for (let n = 0; n < count; n++) {
+    const center = position + n * step;
+    const last = Math.floor(center + halfWidth);
+    let sum = 0;
+    for (let i = Math.ceil(center - halfWidth); i <= last; i++) {
+      sum += buffer[i] * kernelAt(kernel, Math.abs(i - center));
+    }
+    output[n] = sum;
+  }
+
+  // Keep only what the next output's kernel reaches back into
+  const next = position + count * step;
+  const consumed = Math.max(0, Math.floor(next - halfWidth));
+  resampler.buffer = buffer.slice(consumed);
+  resampler.position = next - consumed;
+  return output;
+}
+
+/**
+ * Returns the output still held back by the filter delay. Ends the stream: the
+ * resampler should not be fed afterwards.
+ */
+export function flushResampler(resampler: Resampler): Float32Array {
+  if (resampler.inputRate === resampler.outputRate) return new Float32Array(0);
+  const end = resampler.buffer.length;
+  // Outputs centred before the end of the input; the epsilon absorbs rounding in `position`
+  const owed = Math.max(0, Math.ceil((end - resampler.position) / resampler.step - 1e-6));
+  const tail = resample(resampler, new Float32Array(Math.ceil(resampler.halfWidth) + 1));
+  return tail.subarray(0, owed);
+}
+
+/**
+ * Resamples a complete buffer to the 16kHz rate the Live API expects, with
+ * anti-aliasing. For audio arriving in blocks, use a `Resampler` instead so
+ * the filter state carries over between blocks.
+ *
  * @param buffer - The source audio buffer (e.g., 44.1kHz or 48kHz)
  * @param inputRate - The sample rate of the source buffer
  * @returns A new Float32Array at 16kHz
  */
 export function downsampleTo16k(buffer: Float32Array, inputRate: number): Float32Array {
   if (inputRate === PCM_SAMPLE_RATE) return buffer;
-  
-  const ratio = inputRate / PCM_SAMPLE_RATE;
-  const newLength = Math.round(buffer.length / ratio);
-  const result = new Float32Array(newLength);
-  
-  for (let i = 0; i < newLength; i++) {
-    const inputIndex = i * ratio;
-    const indexFloor = Math.floor(inputIndex);
-    const indexCeil = Math.min(Math.ceil(inputIndex), buffer.length - 1);
-    const weight = inputIndex - indexFloor;
-    
-    // Lerp (Linear Interpolation) formula: a + t * (b - a)
-    const sample = buffer[indexFloor] * (1 - weight) + buffer[indexCeil] * weight;
-    result[i] = sample;
-  }
+
+  const resampler = createResampler(inputRate);
+  const head = resample(resampler, buffer);
+  const tail = flushResampler(resampler);
+  const result = new Float32Array(head.length + tail.length);
+  result.set(head);
+  result.set(tail, head.length);
   return result;
 }
 
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
 /**
  * Encodes a Uint8Array to a Base64 string.
  * Used for transmitting binary PCM data over JSON/WebSocket.
+ *
+ * Table-based rather than `btoa`, which does not exist inside an AudioWorklet,
+ * and built from an array of 3-byte groups instead of one character at a time.
  */
 export function encode(bytes: Uint8Array): string {
-  let binary = '';
   const len = bytes.byteLength;
-  // Process in chunks to handle potentially large buffers if needed, though usually small
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const parts: string[] = new Array(Math.ceil(len / 3));
+  for (let i = 0, p = 0; i < len; i += 3, p++) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < len ? bytes[i + 1] : 0;
+    const b2 = i + 2 < len ? bytes[i + 2] : 0;
+    parts[p] =
+      BASE64_ALPHABET[b0 >> 2] +
+      BASE64_ALPHABET[((b0 & 3) << 4) | (b1 >> 4)] +
+      (i + 1 < len ? BASE64_ALPHABET[((b1 & 15) << 2) | (b2 >> 6)] : '=') +
+      (i + 2 < len ? BASE64_ALPHABET[b2 & 63] : '=');
   }
-  return btoa(binary);
+  return parts.join('');
 }
 
 /**
@@ -118,4 +254,47 @@ export async function decodeAudioData(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+
+/**
+ * Averages multiple channels into a single mono channel.
+ * The Live API expects mono input, so stereo recordings are folded down.
+ *
+ * @param channels - Per-channel sample arrays of equal length
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 0) return new Float32Array(0);
+  if (channels.length === 1) return channels[0];
+
+  const length = channels[0].length;
+  const result = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      result[i] += channel[i];
+    }
+  }
+  for (let i = 0; i < length; i++) {
+    result[i] /= channels.length;
+  }
+  return result;
+}
+
+/**
+ * Decodes a compressed or PCM audio file (WAV, MP3, WebM, ...) into mono samples.
+ * Relies on the browser's native codecs via `AudioContext.decodeAudioData`.
+ *
+ * @param data - The raw file bytes
+ * @param ctx - Any AudioContext (only used for decoding)
+ * @returns Mono samples at the file's native sample rate
+ */
+export async function decodeAudioFile(
+  data: ArrayBuffer,
+  ctx: BaseAudioContext
+): Promise<{ samples: Float32Array; sampleRate: number }> {
+  const audioBuffer = await ctx.decodeAudioData(data);
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    channels.push(audioBuffer.getChannelData(channel));
+  }
+  return { samples: mixToMono(channels), sampleRate: audioBuffer.sampleRate };
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { CAPTURE_CHUNK_MS, chunkDurationMs, createCaptureEncoder, pushCaptureFrames } from './captureEncoder';
+
+const tone = (length: number, amplitude: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(i / 5) * amplitude);
+
+const decodePcm16 = (base64: string) => new Int16Array(Uint8Array.from(atob(base64), c => c.charCodeAt(0)).buffer);
+
+describe('captureEncoder', () => {
+  it('sizes chunks from the latency mode', () => {
+    const encoder = createCaptureEncoder({ inputRate: 48000, chunkMs: CAPTURE_CHUNK_MS.interactive, minSpeechRms: 0, skipSilence: false });
+    expect(encoder.frameSize).toBe(3840);
+  });
+
+  it('emits a chunk once enough 128-frame render quanta have arrived', () => {
+    const encoder = createCaptureEncoder({ inputRate: 48000, chunkMs: 80, minSpeechRms: 0, skipSilence: false });
+    const quantum = tone(128, 0.5);
+
+    const chunks = [];
+    for (let i = 0; i < 29; i++) chunks.push(...pushCaptureFrames(encoder, quantum));
+    expect(chunks).toHaveLength(0);
+
+    chunks.push(...pushCaptureFrames(encoder, quantum));
+    expect(chunks).toHaveLength(1);
+    expect(decodePcm16(chunks[0].data)).toHaveLength(chunks[0].samples);
+  });
+
+  it('passes speech through sample for sample once it has started', () => {
+    const encoder = createCaptureEncoder({ inputRate: 48000, chunkMs: 80, minSpeechRms: 0, skipSilence: false });
+    pushCaptureFrames(encoder, new Float32Array(3840 * 4));
+    pushCaptureFrames(encoder, tone(3840, 0.5));
+
+    const [chunk] = pushCaptureFrames(encoder, tone(3840, 0.5));
+    expect(chunk.speech).toBe(true);
+    expect(chunk.samples).toBe(1280);
+    expect(chunkDurationMs(chunk)).toBe(80);
+  });
+
+  it('splits large blocks across chunk boundaries', () => {
+    const encoder = createCaptureEncoder({ inputRate: 16000, chunkMs: 100, minSpeechRms: 0, skipSilence: false });
+    expect(pushCaptureFrames(encoder, tone(3500, 0.5))).toHaveLength(2);
+    expect(encoder.filled).toBe(300);
+  });
+
+  it('silences non-speech but keeps it in the stream', () => {
+    const encoder = createCaptureEncoder({ inputRate: 16000, chunkMs: 320, minSpeechRms: 0.05, skipSilence: false });
+    const [quiet] = pushCaptureFrames(encoder, tone(5120, 0.01));
+    expect(quiet.speech).toBe(false);
+    expect(decodePcm16(quiet.data).every(s => s === 0)).toBe(true);
+
+    const [loud] = pushCaptureFrames(encoder, tone(5120, 0.5));
+    expect(loud.speech).toBe(true);
+    expect(decodePcm16(loud.data).some(s => s !== 0)).toBe(true);
+  });
+
+  it('drops non-speech entirely when skipping silence', () => {
+    const encoder = createCaptureEncoder({ inputRate: 16000, chunkMs: 320, minSpeechRms: 0.05, skipSilence: true });
+    const [quiet] = pushCaptureFrames(encoder, tone(5120, 0.01));
+    expect(quiet.samples).toBe(0);
+    expect(quiet.data).toBe('');
+
+    // Speech onset releases the held-back pre-roll along with the chunk itself
+    const [loud] = pushCaptureFrames(encoder, tone(5120, 0.5));
+    expect(loud.samples).toBeGreaterThan(5120);
+    expect(decodePcm16(loud.data)).toHaveLength(loud.samples);
+  });
+
+  it('reports per-channel levels and mixes system audio in', () => {
+    const encoder = createCaptureEncoder({ inputRate: 16000, chunkMs: 320, minSpeechRms: 0.05, skipSilence: false });
+    pushCaptureFrames(encoder, new Float32Array(5120));
+    const [chunk] = pushCaptureFrames(encoder, new Float32Array(5120), tone(5120, 0.5));
+    expect(chunk.micRms).toBe(0);
+    expect(chunk.systemRms).toBeGreaterThan(0.3);
+    expect(decodePcm16(chunk.data).some(s => s !== 0)).toBe(true);
+  });
+});
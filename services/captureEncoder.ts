@@ -0,0 +1,147 @@
+import { AudioConfig } from "../types";
+import { calculateRms, createResampler, encode, floatToPcm16, PCM_SAMPLE_RATE, resample, Resampler } from "./audioUtils";
+import { createVad, processVad, VadState } from "./vad";
+
+/**
+ * Audio per streamed chunk for each latency mode. Smaller chunks reach the model
+ * sooner; larger ones mean fewer messages and more tolerance for main-thread stalls.
+ */
+export const CAPTURE_CHUNK_MS: Record<AudioConfig['latencyMode'], number> = {
+  interactive: 80,
+  balanced: 160,
+  playback: 320,
+};
+
+/**
+ * A chunk ready to send: resampled to 16kHz, voice-gated and packed as base64 PCM16.
+ */
+export interface CaptureChunk {
+  data: string;
+  /** Number of 16kHz samples in `data`; 0 when silence is skipped and nobody spoke */
+  samples: number;
+  /** Pre-gate levels of the two capture channels, used for speaker attribution */
+  micRms: number;
+  systemRms: number;
+  /** Whether the voice activity detector considers someone to be speaking at the end of the chunk */
+  speech: boolean;
+}
+
+/**
+ * Voice detection settings that can change while capturing.
+ */
+export interface CaptureVadSettings {
+  /** Minimum level (RMS) that can count as speech */
+  minSpeechRms: number;
+  /** Drop non-speech audio instead of sending it as silence */
+  skipSilence: boolean;
+}
+
+/**
+ * Accumulates render quanta (128 frames in a worklet, larger blocks from a
+ * ScriptProcessor) until a full chunk is available.
+ */
+export interface CaptureEncoder {
+  inputRate: number;
+  /** Input frames per chunk */
+  frameSize: number;
+  /** Carries filter history across chunks, so chunk boundaries are seamless */
+  resampler: Resampler;
+  vad: VadState;
+  skipSilence: boolean;
+  mic: Float32Array;
+  system: Float32Array;
+  filled: number;
+}
+
+export interface CaptureEncoderOptions extends CaptureVadSettings {
+  inputRate: number;
+  chunkMs: number;
+}
+
+/** Options passed to the capture worklet; the input rate is the worklet's own `sampleRate` */
+export type CaptureProcessorOptions = Omit<CaptureEncoderOptions, 'inputRate'>;
+
+export const createCaptureEncoder = ({ inputRate, chunkMs, minSpeechRms, skipSilence }: CaptureEncoderOptions): CaptureEncoder => {
+  const frameSize = Math.max(1, Math.round(inputRate * chunkMs / 1000));
+  return {
+    inputRate,
+    frameSize,
+    resampler: createResampler(inputRate),
+    vad: createVad({ sampleRate: PCM_SAMPLE_RATE, minSpeechRms }),
+    skipSilence,
+    mic: new Float32Array(frameSize),
+    system: new Float32Array(frameSize),
+    filled: 0,
+  };
+};
+
+export const setCaptureVadSettings = (encoder: CaptureEncoder, { minSpeechRms, skipSilence }: CaptureVadSettings) => {
+  encoder.vad.options.minSpeechRms = minSpeechRms;
+  encoder.skipSilence = skipSilence;
+};
+
+/**
+ * Mixes, resamples, voice-gates and packs one full buffer of mic and system samples.
+ * Non-speech is either silenced, keeping the stream continuous, or dropped when
+ * `skipSilence` is on. The detector holds back its pre-roll while nobody is
+ * speaking, so a chunk can carry slightly more or less audio than it was fed.
+ */
+const encodeChunk = (encoder: CaptureEncoder): CaptureChunk => {
+  const micRms = calculateRms(encoder.mic);
+  const systemRms = calculateRms(encoder.system);
+
+  const mixed = new Float32Array(encoder.frameSize);
+  for (let i = 0; i < mixed.length; i++) {
+    mixed[i] = encoder.mic[i] + encoder.system[i];
+  }
+
+  const blocks = processVad(encoder.vad, resample(encoder.resampler, mixed))
+    .filter(block => block.speech || !encoder.skipSilence);
+  const gated = new Float32Array(blocks.reduce((n, block) => n + block.samples.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    if (block.speech) gated.set(block.samples, offset);
+    offset += block.samples.length;
+  }
+
+  return {
+    data: gated.length ? encode(new Uint8Array(floatToPcm16(gated).buffer)) : '',
+    samples: gated.length,
+    micRms,
+    systemRms,
+    speech: encoder.vad.isSpeech,
+  };
+};
+
+/**
+ * Adds captured frames and returns any chunks that became complete.
+ * `system` is omitted (treated as silence) when only the mic is captured.
+ */
+export const pushCaptureFrames = (encoder: CaptureEncoder, mic: Float32Array, system?: Float32Array): CaptureChunk[] => {
+  const chunks: CaptureChunk[] = [];
+  let offset = 0;
+  while (offset < mic.length) {
+    const take = Math.min(encoder.frameSize - encoder.filled, mic.length - offset);
+    encoder.mic.set(mic.subarray(offset, offset + take), encoder.filled);
+    if (system) encoder.system.set(system.subarray(offset, offset + take), encoder.filled);
+    else encoder.system.fill(0, encoder.filled, encoder.filled + take);
+    encoder.filled += take;
+    offset += take;
+
+    if (encoder.filled === encoder.frameSize) {
+      chunks.push(encodeChunk(encoder));
+      encoder.filled = 0;
+    }
+  }
+  return chunks;
+};
+
+/** Registered name of the capture AudioWorkletProcessor */
+export const CAPTURE_PROCESSOR_NAME = 'vibenote-capture';
+
+/**
+ * Messages the main thread sends to the capture worklet.
+ */
+export type CaptureControlMessage = { type: 'vad' } & CaptureVadSettings;
+
+export const chunkDurationMs = (chunk: CaptureChunk): number => chunk.samples / PCM_SAMPLE_RATE * 1000;
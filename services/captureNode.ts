@@ -0,0 +1,79 @@
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import {
+  CAPTURE_PROCESSOR_NAME,
+  CaptureChunk,
+  CaptureControlMessage,
+  CaptureProcessorOptions,
+  CaptureVadSettings,
+  createCaptureEncoder,
+  pushCaptureFrames,
+  setCaptureVadSettings,
+} from './captureEncoder';
+
+/**
+ * The node at the end of the capture chain that turns audio into ready-to-send chunks.
+ */
+export interface CaptureNode {
+  node: AudioNode;
+  /** 'worklet' normally; 'script-processor' on browsers without AudioWorklet support */
+  kind: 'worklet' | 'script-processor';
+  setVadSettings: (settings: CaptureVadSettings) => void;
+  dispose: () => void;
+}
+
+/** Block size of the ScriptProcessor fallback */
+const SCRIPT_PROCESSOR_FRAMES = 4096;
+
+/**
+ * Creates the capture node for a two-channel (mic, system) input.
+ *
+ * Uses an AudioWorklet so encoding runs on the audio thread and heavy React renders
+ * cannot cause dropouts. Browsers without AudioWorklet (or insecure origins, where it
+ * is unavailable) fall back to a ScriptProcessor running the same encoder.
+ */
+export const createCaptureNode = async (
+  ctx: AudioContext,
+  options: CaptureProcessorOptions,
+  onChunk: (chunk: CaptureChunk) => void
+): Promise<CaptureNode> => {
+  if (ctx.audioWorklet) {
+    await ctx.audioWorklet.addModule(captureWorkletUrl);
+    const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 2,
+      channelCountMode: 'explicit',
+      channelInterpretation: 'discrete',
+      processorOptions: options,
+    });
+    node.port.onmessage = (e: MessageEvent<CaptureChunk>) => onChunk(e.data);
+    return {
+      node,
+      kind: 'worklet',
+      setVadSettings: (settings) => node.port.postMessage({ type: 'vad', ...settings } satisfies CaptureControlMessage),
+      dispose: () => {
+        node.port.onmessage = null;
+        node.port.close();
+        node.disconnect();
+      },
+    };
+  }
+
+  console.warn("AudioWorklet unavailable; capturing on the main thread");
+  const encoder = createCaptureEncoder({ inputRate: ctx.sampleRate, ...options });
+  const processor = ctx.createScriptProcessor(SCRIPT_PROCESSOR_FRAMES, 2, 1);
+  processor.onaudioprocess = (e) => {
+    const { inputBuffer } = e;
+    const system = inputBuffer.numberOfChannels > 1 ? inputBuffer.getChannelData(1) : undefined;
+    pushCaptureFrames(encoder, inputBuffer.getChannelData(0), system).forEach(onChunk);
+  };
+  return {
+    node: processor,
+    kind: 'script-processor',
+    setVadSettings: (settings) => setCaptureVadSettings(encoder, settings),
+    dispose: () => {
+      processor.onaudioprocess = null;
+      processor.disconnect();
+    },
+  };
+};
@@ -0,0 +1,48 @@
+/**
+ * AudioWorklet processor for live capture. Runs on the audio rendering thread:
+ * resampling, voice detection and PCM16/base64 packing happen here, and finished chunks
+ * are posted to the main thread, which only forwards them to the live session.
+ *
+ * Loaded with `audioWorklet.addModule` via Vite's `?worker&url`, so it is bundled
+ * on its own and must not import anything that touches the DOM.
+ */
+import {
+  CAPTURE_PROCESSOR_NAME,
+  CaptureControlMessage,
+  CaptureProcessorOptions,
+  createCaptureEncoder,
+  pushCaptureFrames,
+  setCaptureVadSettings,
+} from './captureEncoder';
+
+// AudioWorkletGlobalScope (not part of the DOM lib)
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private encoder;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const processorOptions = options.processorOptions as CaptureProcessorOptions;
+    this.encoder = createCaptureEncoder({ inputRate: sampleRate, ...processorOptions });
+    this.port.onmessage = (e: MessageEvent<CaptureControlMessage>) => {
+      if (e.data.type === 'vad') setCaptureVadSettings(this.encoder, e.data);
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const [mic, system] = inputs[0] ?? [];
+    if (mic) {
+      pushCaptureFrames(this.encoder, mic, system).forEach(chunk => this.port.postMessage(chunk));
+    }
+    // Keep running while the node exists, even through silence with no connected input
+    return true;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, CaptureProcessor);
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { downloadSession, toMarkdown, toJSON, toSRT, toVTT, toHTML, SESSION_EXPORT_FORMAT } from './exportService';
+import { Session } from '../types';
+
+const start = new Date('2025-01-01T10:00:00Z');
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+const mockSession: Session = {
+  id: 'session-1',
+  name: 'Weekly Sync',
+  startedAt: start,
+  endedAt: at(120),
+  audioConfig: { latencyMode: 'interactive', noiseGateThreshold: 0.01 },
+  segments: [
+    { id: '1', sender: 'user', text: 'Let us ship on Friday', timestamp: at(2), isPartial: false },
+    { id: '2', sender: 'model', text: 'Noted.', timestamp: at(65.5), isPartial: false },
+  ],
+  notes: [{
+    id: 'note-1',
+    title: 'Release Plan',
+    summary: 'Team agreed on a Friday release.',
+    topics: ['Release'],
+    actionItems: [{ id: 'a1', text: 'Prepare changelog', owner: 'Sam', priority: 'medium', status: 'open', sourceNoteId: 'note-1' }],
+    decisions: ['Ship Friday'],
+    sentiment: 'positive',
+    timestamp: at(70).toISOString(),
+  }],
+};
+
+describe('exportService', () => {
+  it('renders Markdown minutes with NoteCard sections and transcript', () => {
+    const md = toMarkdown(mockSession);
+    expect(md).toContain('# Weekly Sync');
+    expect(md).toContain('### Release Plan');
+    expect(md).toContain('- [ ] Prepare changelog (@Sam)');
+    expect(md).toContain('#### Decisions');
+    expect(md).toContain('**Me**');
+    expect(md).toContain('Let us ship on Friday');
+  });
+
+  it('marks transcription gaps in the Markdown transcript but not in captions', () => {
+    const withGap: Session = {
+      ...mockSession,
+      segments: [...mockSession.segments, { id: 'gap-1', sender: 'user', text: '', timestamp: at(80), isPartial: false, gapMs: 12000 }],
+    };
+    expect(toMarkdown(withGap)).toContain('Connection lost: 12s not transcribed');
+    expect(toSRT(withGap)).not.toContain('Connection lost');
+  });
+
+  it('produces a versioned, lossless JSON envelope', () => {
+    const parsed = JSON.parse(toJSON(mockSession));
+    expect(parsed.format).toBe(SESSION_EXPORT_FORMAT);
+    expect(parsed.session.segments).toHaveLength(2);
+    expect(parsed.session.segments[0].timestamp).toBe(at(2).toISOString());
+    expect(parsed.session.notes[0].actionItems[0].owner).toBe('Sam');
+  });
+
+  it('writes SRT cues relative to the session start', () => {
+    const srt = toSRT(mockSession);
+    expect(srt).toContain('1\n00:00:02,000 --> ');
+    expect(srt).toContain('2\n00:01:05,500 --> ');
+    expect(srt).toContain('Me: Let us ship on Friday');
+  });
+
+  it('writes a WebVTT header and dot-separated timestamps', () => {
+    const vtt = toVTT(mockSession);
+    expect(vtt.startsWith('WEBVTT\n')).toBe(true);
+    expect(vtt).toContain('00:00:02.000 --> ');
+    expect(vtt).toContain('Assistant: Noted.');
+  });
+
+  it('escapes HTML in the printable export', () => {
+    const html = toHTML({ ...mockSession, name: '<script>alert(1)</script>' });
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).not.toContain('<script>alert');
+  });
+
+  it('keeps the download URL alive until the browser has started the download', () => {
+    vi.useFakeTimers();
+    const link = { href: '', download: '', click: vi.fn(), remove: vi.fn() };
+    vi.stubGlobal('document', { createElement: () => link, body: { appendChild: vi.fn() } });
+    const revoke = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:export');
+
+    downloadSession(mockSession, 'markdown');
+    expect(link.download).toBe('Weekly-Sync.md');
+    expect(link.click).toHaveBeenCalled();
+    expect(revoke).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(revoke).toHaveBeenCalledWith('blob:export');
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,262 @@
+import { ActionItem, NoteField, OrganizedNote, Session } from "../types";
+import { getSpeakerName } from "./speakers";
+import { formatGapDuration } from "./reconnect";
+
+/** Identifier embedded in JSON exports so imports can recognise our files */
+export const SESSION_EXPORT_FORMAT = 'vibenote-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'srt' | 'vtt' | 'html';
+
+/**
+ * Envelope written by `toJSON`. Dates are serialized as ISO strings.
+ */
+export interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: Session;
+}
+
+// Caption timing heuristics used when a segment has no natural end time
+const SECONDS_PER_WORD = 0.4;
+const MIN_CAPTION_SECONDS = 1;
+
+const formatDateTime = (date: Date) => date.toLocaleString();
+
+/**
+ * Formats a millisecond offset as a caption timestamp (HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for VTT).
+ */
+const formatCaptionTime = (ms: number, separator: ',' | '.'): string => {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3_600_000);
+  const minutes = Math.floor((clamped % 3_600_000) / 60_000);
+  const seconds = Math.floor((clamped % 60_000) / 1000);
+  const millis = clamped % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+};
+
+interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Converts segments to caption cues relative to the session start.
+ * A cue ends when the next segment begins, or after an estimate based on word count.
+ */
+const buildCues = (session: Session): CaptionCue[] => {
+  const origin = session.startedAt.getTime();
+  const segments = session.segments.filter(s => s.text.trim());
+
+  return segments.map((segment, i) => {
+    const start = segment.timestamp.getTime() - origin;
+    const words = segment.text.trim().split(/\s+/).length;
+    const estimatedEnd = start + Math.max(MIN_CAPTION_SECONDS, words * SECONDS_PER_WORD) * 1000;
+    const next = segments[i + 1];
+    const end = next ? Math.min(estimatedEnd, next.timestamp.getTime() - origin) : estimatedEnd;
+    return {
+      start,
+      end: Math.max(end, start + 1),
+      text: `${getSpeakerName(segment, session.speakerNames)}: ${segment.text.trim()}`,
+    };
+  });
+};
+
+/**
+ * One-line description of an action item with its owner and due date.
+ */
+const describeActionItem = (item: ActionItem) => {
+  const details = [item.owner && `@${item.owner}`, item.dueDate && `due ${item.dueDate}`, item.priority === 'high' && 'high priority']
+    .filter(Boolean)
+    .join(', ');
+  return details ? `${item.text} (${details})` : item.text;
+};
+
+const markdownList = (heading: string, items: string[]) =>
+  items.length > 0 ? [`#### ${heading}`, ...items.map(item => `- ${item}`), ''] : [];
+
+const markdownField = (field: NoteField) =>
+  Array.isArray(field.value) ? markdownList(field.label, field.value) : [`#### ${field.label}`, field.value, ''];
+
+/**
+ * Builds Markdown meeting minutes mirroring the NoteCard sections,
+ * followed by the full transcript.
+ */
+export const toMarkdown = (session: Session): string => {
+  const lines: string[] = [`# ${session.name}`, '', `*Started:* ${formatDateTime(session.startedAt)}`];
+  if (session.endedAt) lines.push(`*Ended:* ${formatDateTime(session.endedAt)}`);
+  lines.push('');
+
+  if (session.meetingSummary) {
+    lines.push('## Meeting Summary', '', session.meetingSummary.overview, '');
+    lines.push(...markdownList('Decisions', session.meetingSummary.decisions));
+    lines.push(...markdownList('Open Questions', session.meetingSummary.openQuestions));
+  }
+
+  // Notes are stored newest-first; minutes read better chronologically
+  const notes = [...session.notes].reverse();
+  if (notes.length > 0) {
+    lines.push('## Notes', '');
+    notes.forEach((note: OrganizedNote) => {
+      lines.push(`### ${note.title || 'Untitled Session'}`, '');
+      lines.push(`*${new Date(note.timestamp).toLocaleTimeString()} · Sentiment: ${note.sentiment}*`, '');
+      lines.push(note.summary, '');
+      lines.push(...markdownList('Action Items', note.actionItems.map(item => `[${item.status === 'done' ? 'x' : ' '}] ${describeActionItem(item)}`)));
+      lines.push(...markdownList('Decisions', note.decisions));
+      note.fields?.forEach(field => lines.push(...markdownField(field)));
+      if (note.topics.length > 0) {
+        lines.push(`Topics: ${note.topics.map(t => `\`${t}\``).join(', ')}`, '');
+      }
+    });
+  }
+
+  if (session.segments.length > 0) {
+    lines.push('## Transcript', '');
+    session.segments.forEach(segment => {
+      if (segment.gapMs !== undefined) {
+        lines.push(`_(${segment.timestamp.toLocaleTimeString()}) Connection lost: ${formatGapDuration(segment.gapMs)} not transcribed_`, '');
+        return;
+      }
+      lines.push(`**${getSpeakerName(segment, session.speakerNames)}** (${segment.timestamp.toLocaleTimeString()}): ${segment.text.trim()}`, '');
+    });
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Lossless JSON dump of the session, wrapped in a versioned envelope.
+ */
+export const toJSON = (session: Session): string => {
+  const file: SessionExportFile = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * SubRip (.srt) captions using segment timestamps relative to the session start.
+ */
+export const toSRT = (session: Session): string => {
+  return buildCues(session)
+    .map((cue, i) => `${i + 1}\n${formatCaptionTime(cue.start, ',')} --> ${formatCaptionTime(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+};
+
+/**
+ * WebVTT (.vtt) captions using segment timestamps relative to the session start.
+ */
+export const toVTT = (session: Session): string => {
+  const cues = buildCues(session)
+    .map(cue => `${formatCaptionTime(cue.start, '.')} --> ${formatCaptionTime(cue.end, '.')}\n${cue.text}\n`);
+  return ['WEBVTT', '', ...cues].join('\n');
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const htmlList = (heading: string, items: string[]) =>
+  items.length > 0
+    ? `<h4>${heading}</h4><ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`
+    : '';
+
+const htmlField = (field: NoteField) =>
+  Array.isArray(field.value)
+    ? htmlList(escapeHtml(field.label), field.value)
+    : `<h4>${escapeHtml(field.label)}</h4><p>${escapeHtml(field.value)}</p>`;
+
+/**
+ * Standalone, printable HTML document (opens cleanly in Word/Docs as well as browsers).
+ */
+export const toHTML = (session: Session): string => {
+  const notes = [...session.notes].reverse()
+    .map(note => `
+    <article>
+      <h3>${escapeHtml(note.title || 'Untitled Session')}</h3>
+      <p class="meta">${escapeHtml(new Date(note.timestamp).toLocaleTimeString())} · Sentiment: ${escapeHtml(note.sentiment)}</p>
+      <p>${escapeHtml(note.summary)}</p>
+      ${htmlList('Action Items', note.actionItems.map(item => `${item.status === 'done' ? '☑' : '☐'} ${describeActionItem(item)}`))}
+      ${htmlList('Decisions', note.decisions)}
+      ${(note.fields ?? []).map(htmlField).join('')}
+      ${note.topics.length > 0 ? `<p class="meta">Topics: ${note.topics.map(escapeHtml).join(', ')}</p>` : ''}
+    </article>`)
+    .join('');
+
+  const summary = session.meetingSummary
+    ? `<h2>Meeting Summary</h2>
+  <p>${escapeHtml(session.meetingSummary.overview)}</p>
+  ${htmlList('Decisions', session.meetingSummary.decisions)}
+  ${htmlList('Open Questions', session.meetingSummary.openQuestions)}`
+    : '';
+
+  const transcript = session.segments
+    .map(segment => segment.gapMs !== undefined
+      ? `
+    <p class="meta">${escapeHtml(segment.timestamp.toLocaleTimeString())}: connection lost, ${formatGapDuration(segment.gapMs)} not transcribed</p>`
+      : `
+    <p><strong>${escapeHtml(getSpeakerName(segment, session.speakerNames))}</strong> <span class="meta">${escapeHtml(segment.timestamp.toLocaleTimeString())}</span><br>${escapeHtml(segment.text.trim())}</p>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(session.name)}</title>
+  <style>
+    body { font-family: Georgia, serif; max-width: 48rem; margin: 2rem auto; line-height: 1.5; color: #111; }
+    h1, h2, h3, h4 { font-family: Helvetica, Arial, sans-serif; }
+    article { page-break-inside: avoid; border-bottom: 1px solid #ccc; padding-bottom: 1rem; }
+    .meta { color: #555; font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <p class="meta">Started: ${escapeHtml(formatDateTime(session.startedAt))}${session.endedAt ? ` · Ended: ${escapeHtml(formatDateTime(session.endedAt))}` : ''}</p>
+  ${summary}
+  ${notes ? `<h2>Notes</h2>${notes}` : ''}
+  ${transcript ? `<h2>Transcript</h2>${transcript}` : ''}
+</body>
+</html>
+`;
+};
+
+/** How long a download's object URL is kept after the click */
+const DOWNLOAD_URL_LIFETIME_MS = 10000;
+
+const EXPORTERS: Record<ExportFormat, { render: (s: Session) => string; extension: string; mimeType: string }> = {
+  markdown: { render: toMarkdown, extension: 'md', mimeType: 'text/markdown' },
+  json: { render: toJSON, extension: 'json', mimeType: 'application/json' },
+  srt: { render: toSRT, extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { render: toVTT, extension: 'vtt', mimeType: 'text/vtt' },
+  html: { render: toHTML, extension: 'html', mimeType: 'text/html' },
+};
+
+/**
+ * Renders the session in the requested format and triggers a browser download.
+ */
+export const downloadSession = (session: Session, format: ExportFormat): void => {
+  const exporter = EXPORTERS[format];
+  const content = exporter.render(session);
+  const safeName = session.name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || 'session';
+
+  const blob = new Blob([content], { type: `${exporter.mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${safeName}.${exporter.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously, so the URL must outlive the click
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
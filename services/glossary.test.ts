@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { applyGlossary, buildGlossaryPrompt, normalizeGlossaryTerm, validateGlossaryTerm } from './glossary';
+import { GlossaryTerm } from '../types';
+
+const glossary: GlossaryTerm[] = [
+  { id: '1', term: 'VibeNote', variants: ['vibe note', 'vibe node'], definition: 'Our note-taking app' },
+  { id: '2', term: 'SLO', variants: ['slow'] },
+  { id: '3', term: 'Priya', variants: ['pria', 'प्रिया'] },
+];
+
+describe('glossary', () => {
+  it('rewrites mis-hearings as whole words, whatever their case and spacing', () => {
+    expect(applyGlossary('We shipped Vibe  Note and the vibe node beta', glossary)).toBe('We shipped VibeNote and the VibeNote beta');
+    expect(applyGlossary('The SLOW burn rate, slowly', glossary)).toBe('The SLO burn rate, slowly');
+    expect(applyGlossary('Ask प्रिया, or pria.', glossary)).toBe('Ask Priya, or Priya.');
+  });
+
+  it('is idempotent and leaves text alone without a glossary', () => {
+    const once = applyGlossary('vibe note is slow', glossary);
+    expect(applyGlossary(once, glossary)).toBe(once);
+    expect(applyGlossary('vibe note', [])).toBe('vibe note');
+  });
+
+  it('leaves matches that start before an offset alone', () => {
+    expect(applyGlossary('We shipped vibe note, then vibe note', glossary, 11)).toBe('We shipped VibeNote, then VibeNote');
+    expect(applyGlossary('We shipped vibe note, then vibe note', glossary, 12)).toBe('We shipped vibe note, then VibeNote');
+  });
+
+  it('describes the terms for a system prompt', () => {
+    const prompt = buildGlossaryPrompt(glossary);
+    expect(prompt).toContain('- VibeNote (may sound like "vibe note", "vibe node"): Our note-taking app');
+    expect(prompt).toContain('- SLO (may sound like "slow")');
+    expect(buildGlossaryPrompt([])).toBe('');
+  });
+
+  it('cleans up and validates terms before saving', () => {
+    expect(normalizeGlossaryTerm({ id: '4', term: ' Gemini ', variants: ['jemini', ' Jemini ', 'gemini', ''] }))
+      .toEqual({ id: '4', term: 'Gemini', variants: ['jemini'] });
+
+    expect(validateGlossaryTerm({ id: '4', term: ' ', variants: [] }, glossary)).toContain('required');
+    expect(validateGlossaryTerm({ id: '4', term: 'vibenote', variants: [] }, glossary)).toContain('already in the glossary');
+    expect(validateGlossaryTerm({ id: '4', term: 'Slowdown', variants: ['slow'] }, glossary)).toContain('variant of "SLO"');
+    expect(validateGlossaryTerm({ id: '4', term: 'Pria', variants: [] }, glossary)).toContain('variant of "Priya"');
+    expect(validateGlossaryTerm({ ...glossary[0], variants: ['vibe note', 'vibe not'] }, glossary)).toBeNull();
+  });
+});
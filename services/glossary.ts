@@ -0,0 +1,116 @@
+import { GlossaryTerm } from "../types";
+
+/**
+ * Team glossary: prompt text for the live model and the organizer, and a
+ * deterministic pass that rewrites known mis-hearings in the transcript.
+ */
+
+/** Letters, marks and digits in any script, so matching works beyond ASCII word boundaries */
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface CompiledGlossary {
+  pattern: RegExp | null;
+  /** Normalized variant -> correct term */
+  replacements: Map<string, string>;
+}
+
+// Compiled once per glossary array; the arrays are replaced, never mutated
+const compiledCache = new WeakMap<GlossaryTerm[], CompiledGlossary>();
+
+const compileGlossary = (terms: GlossaryTerm[]): CompiledGlossary => {
+  const cached = compiledCache.get(terms);
+  if (cached) return cached;
+
+  const replacements = new Map<string, string>();
+  terms.forEach(t => t.variants.forEach(v => {
+    const key = normalize(v);
+    if (key) replacements.set(key, t.term);
+  }));
+
+  // Longest first, so "vibe note pro" wins over "vibe note"
+  const alternatives = Array.from(replacements.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(v => v.split(' ').map(escapeRegExp).join('\\s+'));
+
+  const compiled = {
+    pattern: alternatives.length > 0
+      ? new RegExp(`(?<!${WORD_CHAR})(?:${alternatives.join('|')})(?!${WORD_CHAR})`, 'giu')
+      : null,
+    replacements,
+  };
+  compiledCache.set(terms, compiled);
+  return compiled;
+};
+
+/**
+ * Rewrites known mis-hearings to the glossary spelling. Whole words only,
+ * case-insensitive, and idempotent so it can run again as a segment grows.
+ *
+ * Matches that start before `from` are left alone, so text that has already
+ * gone to the organizer keeps the character offsets recorded for it.
+ */
+export const applyGlossary = (text: string, terms: GlossaryTerm[], from = 0): string => {
+  const { pattern, replacements } = compileGlossary(terms);
+  if (!pattern) return text;
+  return text.replace(pattern, (match, offset: number) =>
+    offset < from ? match : replacements.get(normalize(match)) ?? match
+  );
+};
+
+/**
+ * Describes the glossary for a system prompt, or returns an empty string when there is none.
+ */
+export const buildGlossaryPrompt = (terms: GlossaryTerm[]): string => {
+  const lines = terms
+    .filter(t => t.term.trim())
+    .map(t => {
+      const heardAs = t.variants.length > 0 ? ` (may sound like ${t.variants.map(v => `"${v}"`).join(', ')})` : '';
+      const definition = t.definition?.trim() ? `: ${t.definition.trim()}` : '';
+      return `- ${t.term.trim()}${heardAs}${definition}`;
+    });
+  if (lines.length === 0) return '';
+  return `Names and terms used in this conversation; always spell them exactly as listed:\n${lines.join('\n')}`;
+};
+
+/**
+ * Cleans up a term before it is saved: trims everything and drops empty or
+ * duplicate variants, including the term itself.
+ */
+export const normalizeGlossaryTerm = (term: GlossaryTerm): GlossaryTerm => {
+  const seen = new Set([normalize(term.term)]);
+  const variants = term.variants.map(v => v.trim().replace(/\s+/g, ' ')).filter(v => {
+    const key = normalize(v);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return {
+    id: term.id,
+    term: term.term.trim(),
+    variants,
+    ...(term.definition?.trim() ? { definition: term.definition.trim() } : {}),
+  };
+};
+
+/**
+ * Checks a term against the rest of the glossary before it is saved.
+ *
+ * @returns A human-readable problem, or null if the term is valid.
+ */
+export const validateGlossaryTerm = (term: GlossaryTerm, glossary: GlossaryTerm[]): string | null => {
+  if (!term.term.trim()) return "The term is required.";
+  const others = glossary.filter(t => t.id !== term.id);
+  if (others.some(t => normalize(t.term) === normalize(term.term))) return `"${term.term.trim()}" is already in the glossary.`;
+  // Terms and variants must not overlap, or the rewrite would no longer be idempotent
+  for (const variant of [term.term, ...term.variants]) {
+    const owner = others.find(t => t.variants.some(v => normalize(v) === normalize(variant)));
+    if (owner) return `"${variant.trim()}" is already a variant of "${owner.term}".`;
+  }
+  const clash = term.variants.find(v => others.some(t => normalize(t.term) === normalize(v)));
+  if (clash) return `"${clash}" is a glossary term of its own.`;
+  return null;
+};
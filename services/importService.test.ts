@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseSessionFile } from './importService';
+import { toJSON } from './exportService';
+import { Session } from '../types';
+
+const mockSession: Session = {
+  id: 'session-1',
+  name: 'Retro',
+  startedAt: new Date('2025-01-01T10:00:00Z'),
+  audioConfig: { latencyMode: 'balanced', noiseGateThreshold: 0.02, skipSilence: true },
+  segments: [
+    { id: 'a', sender: 'user', text: 'Hello', timestamp: new Date('2025-01-01T10:00:05Z'), isPartial: true },
+  ],
+  notes: [{
+    id: 'note-1',
+    title: 'Intro',
+    summary: 'Greetings.',
+    topics: [],
+    actionItems: [],
+    decisions: [],
+    sentiment: 'neutral',
+    timestamp: '2025-01-01T10:01:00.000Z',
+  }],
+};
+
+describe('importService', () => {
+  it('round-trips an exported session and rehydrates dates', () => {
+    const session = parseSessionFile(toJSON(mockSession));
+
+    expect(session.name).toBe('Retro');
+    expect(session.startedAt).toBeInstanceOf(Date);
+    expect(session.segments[0].timestamp).toBeInstanceOf(Date);
+    expect(session.segments[0].timestamp.toISOString()).toBe('2025-01-01T10:00:05.000Z');
+    expect(session.segments[0].isPartial).toBe(false);
+    expect(session.notes[0].title).toBe('Intro');
+    expect(session.audioConfig.latencyMode).toBe('balanced');
+    expect(session.audioConfig.skipSilence).toBe(true);
+  });
+
+  it('keeps the live assistant settings and falls back on unknown values', () => {
+    const session = parseSessionFile(JSON.stringify({
+      ...mockSession,
+      assistantConfig: { persona: 'Scribe.', languages: ['English'], voice: 'Kore', responseMode: 'shout' },
+    }));
+    expect(session.assistantConfig).toEqual({ persona: 'Scribe.', languages: ['English'], voice: 'Kore', responseMode: 'audio' });
+    expect(parseSessionFile(JSON.stringify(mockSession)).assistantConfig).toBeUndefined();
+  });
+
+  it('accepts a bare session object without the envelope', () => {
+    const session = parseSessionFile(JSON.stringify(mockSession));
+    expect(session.id).toBe('session-1');
+  });
+
+  it('upgrades legacy string action items to structured items', () => {
+    const legacy = { ...mockSession, notes: [{ ...mockSession.notes[0], actionItems: ['Send recap'] }] };
+    const session = parseSessionFile(JSON.stringify(legacy));
+    expect(session.notes[0].actionItems[0]).toMatchObject({ text: 'Send recap', status: 'open', sourceNoteId: 'note-1' });
+  });
+
+  it('keeps the rolling meeting summary', () => {
+    const withSummary: Session = {
+      ...mockSession,
+      meetingSummary: { overview: 'Retro of Q4.', decisions: ['Ship weekly'], openQuestions: [], revision: 3, updatedAt: '2025-01-01T10:05:00.000Z' },
+    };
+    const session = parseSessionFile(toJSON(withSummary));
+    expect(session.meetingSummary).toEqual(withSummary.meetingSummary);
+  });
+
+  it('keeps transcription gap markers', () => {
+    const gap = { id: 'gap-1', sender: 'user' as const, text: '', timestamp: new Date('2025-01-01T10:00:30Z'), isPartial: false, gapMs: 8000 };
+    const session = parseSessionFile(toJSON({ ...mockSession, segments: [...mockSession.segments, gap] }));
+    expect(session.segments[1]).toMatchObject({ id: 'gap-1', gapMs: 8000 });
+  });
+
+  it('keeps transcript corrections and the notes they outdated', () => {
+    const edited: Session = {
+      ...mockSession,
+      notes: [{ ...mockSession.notes[0], segmentIds: ['a'], outdated: true }],
+      transcriptEdits: [
+        { id: 'edit-1', kind: 'edit', editedAt: '2025-01-01T10:02:00.000Z', before: [{ ...mockSession.segments[0], text: 'Helo', isPartial: false }], afterIds: ['a'] },
+        { id: 'edit-2', kind: 'shout', before: [] } as never,
+      ],
+    };
+    const session = parseSessionFile(toJSON(edited));
+    expect(session.notes[0]).toMatchObject({ segmentIds: ['a'], outdated: true });
+    expect(session.transcriptEdits).toHaveLength(1);
+    expect(session.transcriptEdits?.[0].before[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('keeps usage totals and zeroes unreadable counters', () => {
+    const session = parseSessionFile(JSON.stringify({ ...mockSession, metrics: { audioSecondsSent: 90, reconnects: -1, droppedSends: 'two' } }));
+    expect(session.metrics).toMatchObject({ audioSecondsSent: 90, reconnects: 0, droppedSends: 0, organizerCalls: 0 });
+    expect(parseSessionFile(JSON.stringify(mockSession)).metrics).toBeUndefined();
+  });
+
+  it('rejects invalid JSON', () => {
+    expect(() => parseSessionFile('not json')).toThrow('valid JSON');
+  });
+
+  it('rejects segments with an unknown sender', () => {
+    const bad = { ...mockSession, segments: [{ ...mockSession.segments[0], sender: 'robot' }] };
+    expect(() => parseSessionFile(JSON.stringify(bad))).toThrow('segments[0].sender');
+  });
+
+  it('rejects notes with malformed fields', () => {
+    const bad = { ...mockSession, notes: [{ ...mockSession.notes[0], actionItems: 'none' }] };
+    expect(() => parseSessionFile(JSON.stringify(bad))).toThrow('notes[0].actionItems');
+  });
+});
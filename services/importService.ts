@@ -0,0 +1,237 @@
+import { ActionItem, AudioConfig, LiveAssistantConfig, LiveResponseMode, MeetingSummary, NoteField, OrganizedNote, Session, SessionMetrics, TranscriptEdit, TranscriptSegment } from "../types";
+import { SESSION_EXPORT_FORMAT, SESSION_EXPORT_VERSION } from "./exportService";
+import { normalizeActionItem } from "./actionItems";
+import { DEFAULT_LIVE_ASSISTANT, RESPONSE_MODES } from "./liveAssistant";
+import { EMPTY_SESSION_METRICS } from "./metrics";
+
+const DEFAULT_AUDIO_CONFIG: AudioConfig = {
+  latencyMode: 'interactive',
+  noiseGateThreshold: 0.01,
+};
+
+const SENTIMENTS: OrganizedNote['sentiment'][] = ['positive', 'neutral', 'negative'];
+const LATENCY_MODES: AudioConfig['latencyMode'][] = ['interactive', 'balanced', 'playback'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/**
+ * Parses an ISO string (or epoch number) into a valid Date, or throws with context.
+ */
+const toDate = (value: unknown, field: string): Date => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date in "${field}".`);
+  }
+  return date;
+};
+
+const toSegment = (value: unknown, where: string, fallbackId: string): TranscriptSegment => {
+  if (!isRecord(value)) throw new Error(`${where} is not an object.`);
+  if (value.sender !== 'user' && value.sender !== 'model') throw new Error(`${where}.sender must be "user" or "model".`);
+  if (typeof value.text !== 'string') throw new Error(`${where}.text must be a string.`);
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : fallbackId,
+    sender: value.sender,
+    text: value.text,
+    timestamp: toDate(value.timestamp, `${where}.timestamp`),
+    // Anything imported is by definition finished
+    isPartial: false,
+    ...(typeof value.recordingId === 'string' && typeof value.recordingOffsetMs === 'number'
+      ? { recordingId: value.recordingId, recordingOffsetMs: value.recordingOffsetMs }
+      : {}),
+    ...(value.source === 'mic' || value.source === 'system' ? { source: value.source } : {}),
+    ...(typeof value.speaker === 'string' && value.speaker ? { speaker: value.speaker } : {}),
+    ...(typeof value.gapMs === 'number' ? { gapMs: value.gapMs } : {}),
+  };
+};
+
+const parseSegment = (value: unknown, index: number): TranscriptSegment =>
+  toSegment(value, `segments[${index}]`, `imported-${index}`);
+
+const EDIT_KINDS: TranscriptEdit['kind'][] = ['edit', 'split', 'merge', 'delete'];
+
+/**
+ * Edit history is optional; malformed entries are dropped rather than failing the import.
+ */
+const parseTranscriptEdits = (value: unknown): TranscriptEdit[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((edit, i): TranscriptEdit[] => {
+    if (!isRecord(edit) || typeof edit.id !== 'string' || !EDIT_KINDS.includes(edit.kind as TranscriptEdit['kind'])) return [];
+    if (!Array.isArray(edit.before) || edit.before.length === 0 || !isStringArray(edit.afterIds)) return [];
+    try {
+      return [{
+        id: edit.id,
+        kind: edit.kind as TranscriptEdit['kind'],
+        editedAt: toDate(edit.editedAt, `transcriptEdits[${i}].editedAt`).toISOString(),
+        before: edit.before.map((s, j) => toSegment(s, `transcriptEdits[${i}].before[${j}]`, `${edit.id}-${j}`)),
+        afterIds: edit.afterIds,
+      }];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const parseNoteFields = (value: unknown, where: string): NoteField[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new Error(`${where}.fields must be a list.`);
+  return value.map((field, i) => {
+    const valid = isRecord(field)
+      && typeof field.key === 'string'
+      && typeof field.label === 'string'
+      && (typeof field.value === 'string' || isStringArray(field.value));
+    if (!valid) throw new Error(`${where}.fields[${i}] must have a key, label and text or list value.`);
+    return { key: field.key as string, label: field.label as string, value: field.value as string | string[] };
+  });
+};
+
+const parseNote = (value: unknown, index: number): OrganizedNote => {
+  const where = `notes[${index}]`;
+  if (!isRecord(value)) throw new Error(`${where} is not an object.`);
+  if (typeof value.title !== 'string') throw new Error(`${where}.title must be a string.`);
+  if (typeof value.summary !== 'string') throw new Error(`${where}.summary must be a string.`);
+  for (const field of ['topics', 'decisions'] as const) {
+    if (!isStringArray(value[field])) throw new Error(`${where}.${field} must be a list of strings.`);
+  }
+  if (!Array.isArray(value.actionItems)) throw new Error(`${where}.actionItems must be a list.`);
+  if (!SENTIMENTS.includes(value.sentiment as OrganizedNote['sentiment'])) {
+    throw new Error(`${where}.sentiment must be one of ${SENTIMENTS.join(', ')}.`);
+  }
+
+  const timestamp = toDate(value.timestamp, `${where}.timestamp`).toISOString();
+  const id = typeof value.id === 'string' && value.id ? value.id : `note-${timestamp}`;
+  const fields = parseNoteFields(value.fields, where);
+
+  return {
+    id,
+    title: value.title,
+    summary: value.summary,
+    topics: value.topics as string[],
+    // Older exports stored action items as plain strings
+    actionItems: value.actionItems
+      .map((item, i) => normalizeActionItem(item, id, i))
+      .filter((item): item is ActionItem => item !== null),
+    decisions: value.decisions as string[],
+    sentiment: value.sentiment as OrganizedNote['sentiment'],
+    // Normalise to ISO so NoteCard can rely on it
+    timestamp,
+    ...(typeof value.templateId === 'string' ? { templateId: value.templateId } : {}),
+    ...(fields ? { fields } : {}),
+    ...(isStringArray(value.segmentIds) ? { segmentIds: value.segmentIds } : {}),
+    ...(value.outdated === true ? { outdated: true } : {}),
+  };
+};
+
+const parseAudioConfig = (value: unknown): AudioConfig => {
+  if (!isRecord(value)) return DEFAULT_AUDIO_CONFIG;
+  return {
+    latencyMode: LATENCY_MODES.includes(value.latencyMode as AudioConfig['latencyMode'])
+      ? value.latencyMode as AudioConfig['latencyMode']
+      : DEFAULT_AUDIO_CONFIG.latencyMode,
+    noiseGateThreshold: typeof value.noiseGateThreshold === 'number'
+      ? value.noiseGateThreshold
+      : DEFAULT_AUDIO_CONFIG.noiseGateThreshold,
+    ...(typeof value.skipSilence === 'boolean' ? { skipSilence: value.skipSilence } : {}),
+  };
+};
+
+const parseAssistantConfig = (value: unknown): LiveAssistantConfig | undefined => {
+  if (!isRecord(value)) return undefined;
+  return {
+    persona: typeof value.persona === 'string' ? value.persona : DEFAULT_LIVE_ASSISTANT.persona,
+    languages: isStringArray(value.languages) ? value.languages : DEFAULT_LIVE_ASSISTANT.languages,
+    voice: typeof value.voice === 'string' && value.voice ? value.voice : DEFAULT_LIVE_ASSISTANT.voice,
+    responseMode: RESPONSE_MODES.includes(value.responseMode as LiveResponseMode)
+      ? value.responseMode as LiveResponseMode
+      : DEFAULT_LIVE_ASSISTANT.responseMode,
+  };
+};
+
+/** Usage totals are informational; unreadable counters start from zero */
+const parseSessionMetrics = (value: unknown): SessionMetrics | undefined => {
+  if (!isRecord(value)) return undefined;
+  const metrics = { ...EMPTY_SESSION_METRICS };
+  (Object.keys(metrics) as (keyof SessionMetrics)[]).forEach(key => {
+    const count = value[key];
+    if (typeof count === 'number' && Number.isFinite(count) && count >= 0) metrics[key] = count;
+  });
+  return metrics;
+};
+
+const parseSpeakerNames = (value: unknown): Record<string, string> | undefined => {
+  if (!isRecord(value)) return undefined;
+  const names: Record<string, string> = {};
+  Object.entries(value).forEach(([label, name]) => {
+    if (typeof name === 'string') names[label] = name;
+  });
+  return names;
+};
+
+const parseMeetingSummary = (value: unknown): MeetingSummary | undefined => {
+  if (!isRecord(value)) return undefined;
+  if (typeof value.overview !== 'string') throw new Error("meetingSummary.overview must be a string.");
+  if (!isStringArray(value.decisions)) throw new Error("meetingSummary.decisions must be a list of strings.");
+  if (!isStringArray(value.openQuestions)) throw new Error("meetingSummary.openQuestions must be a list of strings.");
+
+  return {
+    overview: value.overview,
+    decisions: value.decisions,
+    openQuestions: value.openQuestions,
+    revision: typeof value.revision === 'number' ? value.revision : 1,
+    updatedAt: toDate(value.updatedAt, 'meetingSummary.updatedAt').toISOString(),
+  };
+};
+
+/**
+ * Validates and rehydrates a session from the JSON produced by `toJSON`.
+ * Also accepts a bare session object without the export envelope.
+ *
+ * @param text - Raw file contents
+ * @returns A Session with real Date objects
+ * @throws Error describing the first problem found
+ */
+export const parseSessionFile = (text: string): Session => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON.");
+  }
+
+  if (isRecord(raw) && raw.format === SESSION_EXPORT_FORMAT) {
+    if (typeof raw.version !== 'number' || raw.version > SESSION_EXPORT_VERSION) {
+      throw new Error(`Unsupported session file version: ${String(raw.version)}.`);
+    }
+    raw = raw.session;
+  }
+
+  if (!isRecord(raw)) throw new Error("File does not contain a session.");
+  if (!Array.isArray(raw.segments)) throw new Error("Session is missing its segments list.");
+  if (!Array.isArray(raw.notes)) throw new Error("Session is missing its notes list.");
+
+  const segments = raw.segments.map(parseSegment);
+  const notes = raw.notes.map(parseNote);
+  const startedAt = raw.startedAt !== undefined
+    ? toDate(raw.startedAt, 'startedAt')
+    : segments[0]?.timestamp ?? new Date();
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `session-${startedAt.getTime()}`,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : `Imported ${startedAt.toLocaleString()}`,
+    startedAt,
+    endedAt: raw.endedAt !== undefined ? toDate(raw.endedAt, 'endedAt') : undefined,
+    segments,
+    notes,
+    audioConfig: parseAudioConfig(raw.audioConfig),
+    speakerNames: parseSpeakerNames(raw.speakerNames),
+    meetingSummary: parseMeetingSummary(raw.meetingSummary),
+    assistantConfig: parseAssistantConfig(raw.assistantConfig),
+    transcriptEdits: parseTranscriptEdits(raw.transcriptEdits),
+    metrics: parseSessionMetrics(raw.metrics),
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Modality } from '@google/genai';
+import {
+  buildLiveConnectParams,
+  buildSystemInstruction,
+  DEFAULT_LIVE_ASSISTANT,
+  DEFAULT_LIVE_MODEL,
+  SILENT_SCRIBE_ASSISTANT,
+  TEXT_LIVE_MODEL,
+} from './liveAssistant';
+
+describe('liveAssistant', () => {
+  it('adds the expected languages to the persona', () => {
+    const instruction = buildSystemInstruction({ ...DEFAULT_LIVE_ASSISTANT, languages: ['English', ' Tamil ', ''] });
+    expect(instruction.startsWith(DEFAULT_LIVE_ASSISTANT.persona)).toBe(true);
+    expect(instruction).toContain('Participants may speak English, Tamil,');
+  });
+
+  it('teaches the model the glossary spellings', () => {
+    const instruction = buildSystemInstruction(DEFAULT_LIVE_ASSISTANT, [{ id: '1', term: 'VibeNote', variants: ['vibe note'] }]);
+    expect(instruction).toContain('- VibeNote (may sound like "vibe note")');
+  });
+
+  it('forbids replies in silent mode whatever the persona says', () => {
+    const instruction = buildSystemInstruction({ ...SILENT_SCRIBE_ASSISTANT, persona: 'Be chatty.', languages: [] });
+    expect(instruction).toMatch(/^Be chatty\. Never reply/);
+  });
+
+  it('speaks with the chosen voice in audio mode', () => {
+    const { model, config } = buildLiveConnectParams({ ...DEFAULT_LIVE_ASSISTANT, voice: 'Kore' });
+    expect(model).toBe(DEFAULT_LIVE_MODEL);
+    expect(config.responseModalities).toEqual([Modality.AUDIO]);
+    expect(config.outputAudioTranscription).toEqual({});
+    expect(config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe('Kore');
+  });
+
+  it('switches to a text-capable model for text replies', () => {
+    const { model, config } = buildLiveConnectParams({ ...DEFAULT_LIVE_ASSISTANT, responseMode: 'text' });
+    expect(model).toBe(TEXT_LIVE_MODEL);
+    expect(config.responseModalities).toEqual([Modality.TEXT]);
+    expect(config.inputAudioTranscription).toEqual({});
+  });
+
+  it('transcribes without answering as a silent scribe', () => {
+    const { config } = buildLiveConnectParams(SILENT_SCRIBE_ASSISTANT);
+    expect(config.inputAudioTranscription).toEqual({});
+    expect(config.outputAudioTranscription).toBeUndefined();
+    expect(config.proactivity).toEqual({ proactiveAudio: true });
+  });
+});
@@ -0,0 +1,88 @@
+import { LiveConnectConfig, Modality } from '@google/genai';
+import { GlossaryTerm, LiveAssistantConfig, LiveResponseMode } from '../types';
+import { buildGlossaryPrompt } from './glossary';
+
+/** Native-audio live model, used for spoken replies and the silent scribe */
+export const DEFAULT_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+/** Half-cascade live model; native-audio models cannot answer in text */
+export const TEXT_LIVE_MODEL = 'gemini-live-2.5-flash-preview';
+
+/** Prebuilt voices available to the live models */
+export const LIVE_VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const DEFAULT_LIVE_ASSISTANT: LiveAssistantConfig = {
+  persona: "You are a helpful, concise assistant participating in a meeting or brainstorming session. Listen carefully. When you speak, be brief and professional.",
+  languages: ['English', 'Telugu', 'Hindi'],
+  voice: 'Puck',
+  responseMode: 'audio',
+};
+
+export const SILENT_SCRIBE_ASSISTANT: LiveAssistantConfig = {
+  ...DEFAULT_LIVE_ASSISTANT,
+  persona: "You are a silent scribe in a meeting. Your only job is to listen so the conversation is transcribed accurately.",
+  responseMode: 'silent',
+};
+
+export const ASSISTANT_PRESETS: { id: string; label: string; config: LiveAssistantConfig }[] = [
+  { id: 'assistant', label: 'Assistant', config: DEFAULT_LIVE_ASSISTANT },
+  { id: 'silent-scribe', label: 'Silent Scribe', config: SILENT_SCRIBE_ASSISTANT },
+];
+
+export const RESPONSE_MODES: LiveResponseMode[] = ['audio', 'text', 'silent'];
+
+/** Added in silent mode whatever the persona says, so a custom persona cannot make it talk */
+const SILENT_RULE = "Never reply, speak or make any sound, even when addressed directly.";
+
+/**
+ * Combines the persona, expected languages, glossary and response mode into the live system instruction.
+ */
+export const buildSystemInstruction = (assistant: LiveAssistantConfig, glossary: GlossaryTerm[] = []): string => {
+  const languages = assistant.languages.map(l => l.trim()).filter(Boolean);
+  return [
+    assistant.persona.trim(),
+    languages.length > 0 ? `Participants may speak ${languages.join(', ')}, and may switch between them.` : '',
+    buildGlossaryPrompt(glossary),
+    assistant.responseMode === 'silent' ? SILENT_RULE : '',
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * Model and session config for `ai.live.connect`.
+ *
+ * Silent mode keeps the native-audio model (it transcribes best) but enables proactive
+ * audio, which lets the model decline to answer, and requests no output transcription.
+ */
+export const buildLiveConnectParams = (
+  assistant: LiveAssistantConfig,
+  glossary: GlossaryTerm[] = []
+): { model: string; config: LiveConnectConfig } => {
+  const systemInstruction = buildSystemInstruction(assistant, glossary);
+  switch (assistant.responseMode) {
+    case 'text':
+      return {
+        model: TEXT_LIVE_MODEL,
+        config: { responseModalities: [Modality.TEXT], inputAudioTranscription: {}, systemInstruction },
+      };
+    case 'silent':
+      return {
+        model: DEFAULT_LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          proactivity: { proactiveAudio: true },
+          systemInstruction,
+        },
+      };
+    default:
+      return {
+        model: DEFAULT_LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: assistant.voice } } },
+          systemInstruction,
+        },
+      };
+  }
+};
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { createWebSocketLiveTransport, LiveTransportCallbacks, toLiveEvent } from './liveTransport';
+
+/** Minimal WebSocket stand-in driven by the test */
+class FakeWebSocket {
+  static OPEN = 1;
+  static last: FakeWebSocket;
+  readyState = 0;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((e: { data: string }) => void) | null = null;
+  onerror: ((e: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.last = this;
+  }
+  send(data: string) {
+    this.sent.push(data);
+  }
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const callbacks = (): LiveTransportCallbacks => ({
+  onOpen: vi.fn(),
+  onEvent: vi.fn(),
+  onClose: vi.fn(),
+  onError: vi.fn(),
+});
+
+describe('liveTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('extracts transcriptions, turn completion, interruptions and audio from server messages', () => {
+    const msg = {
+      serverContent: {
+        inputTranscription: { text: 'hello' },
+        turnComplete: true,
+        interrupted: true,
+        modelTurn: { parts: [{ inlineData: { data: 'AAAA', mimeType: 'audio/pcm;rate=24000' } }] },
+      },
+    } as LiveServerMessage;
+
+    expect(toLiveEvent(msg)).toEqual({
+      inputTranscription: 'hello',
+      outputTranscription: undefined,
+      turnComplete: true,
+      interrupted: true,
+      audio: 'AAAA',
+    });
+    expect(toLiveEvent({} as LiveServerMessage)).toEqual({});
+  });
+
+  it('joins text replies and skips thought summaries', () => {
+    const msg = {
+      serverContent: { modelTurn: { parts: [{ text: 'planning', thought: true }, { text: 'Noted, ' }, { text: 'Friday.' }] } },
+    } as LiveServerMessage;
+    expect(toLiveEvent(msg).text).toBe('Noted, Friday.');
+  });
+
+  it('reports the tokens billed for a turn', () => {
+    const msg = { usageMetadata: { promptTokenCount: 640, responseTokenCount: 90, totalTokenCount: 730 } } as LiveServerMessage;
+    expect(toLiveEvent(msg).usage).toEqual({ inputTokens: 640, outputTokens: 90 });
+  });
+
+  it('keeps only resumption handles the session can actually be resumed from', () => {
+    expect(toLiveEvent({ sessionResumptionUpdate: { newHandle: 'handle-1', resumable: true } } as LiveServerMessage).resumptionHandle)
+      .toBe('handle-1');
+    expect(toLiveEvent({ sessionResumptionUpdate: { newHandle: '', resumable: false } } as LiveServerMessage))
+      .not.toHaveProperty('resumptionHandle');
+  });
+
+  it('replays server messages from a WebSocket as live events', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const cb = callbacks();
+    const pending = createWebSocketLiveTransport('ws://localhost:8765').connect(cb);
+
+    FakeWebSocket.last.open();
+    const connection = await pending;
+    expect(cb.onOpen).toHaveBeenCalled();
+
+    FakeWebSocket.last.receive({ serverContent: { outputTranscription: { text: 'Noted.' } } });
+    expect(cb.onEvent).toHaveBeenCalledWith(expect.objectContaining({ outputTranscription: 'Noted.' }));
+
+    connection.sendAudio({ data: 'AAAA', mimeType: 'audio/pcm;rate=16000' });
+    connection.sendText('hi');
+    connection.endAudioStream();
+    expect(FakeWebSocket.last.sent.map(s => JSON.parse(s))).toEqual([
+      { type: 'audio', data: 'AAAA', mimeType: 'audio/pcm;rate=16000' },
+      { type: 'text', text: 'hi' },
+      { type: 'audioStreamEnd' },
+    ]);
+
+    connection.close();
+    expect(cb.onClose).toHaveBeenCalled();
+  });
+
+  it('ignores malformed messages', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const cb = callbacks();
+    const pending = createWebSocketLiveTransport('ws://localhost:8765').connect(cb);
+    FakeWebSocket.last.open();
+    await pending;
+
+    FakeWebSocket.last.onmessage?.({ data: 'not json' });
+    expect(cb.onEvent).not.toHaveBeenCalled();
+  });
+
+  it('rejects when the server cannot be reached', async () => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    const cb = callbacks();
+    const pending = createWebSocketLiveTransport('ws://localhost:1').connect(cb);
+
+    FakeWebSocket.last.onerror?.(new Event('error'));
+    FakeWebSocket.last.onclose?.();
+
+    await expect(pending).rejects.toThrow('Could not connect to ws://localhost:1');
+    expect(cb.onError).not.toHaveBeenCalled();
+    expect(cb.onClose).not.toHaveBeenCalled();
+  });
+});
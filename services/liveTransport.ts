@@ -0,0 +1,166 @@
+import { Blob as PcmBlob, GoogleGenAI, LiveServerMessage } from '@google/genai';
+import { GlossaryTerm, LiveAssistantConfig, TokenUsage } from '../types';
+import { buildLiveConnectParams, DEFAULT_LIVE_ASSISTANT } from './liveAssistant';
+
+/**
+ * Transport-neutral view of a server message: just the parts the live pipeline uses.
+ */
+export interface LiveEvent {
+  /** Transcription of the user's audio */
+  inputTranscription?: string;
+  /** Transcription of the model's spoken reply */
+  outputTranscription?: string;
+  turnComplete?: boolean;
+  /** The model stopped its reply because the user started talking over it */
+  interrupted?: boolean;
+  /** Base64 16-bit PCM (24kHz) of the model's spoken reply */
+  audio?: string;
+  /** The model's written reply, when the session uses the text modality */
+  text?: string;
+  /** Tokens billed for the turn, when the server reports them */
+  usage?: TokenUsage;
+  /** Latest handle a dropped session can be resumed from, with its conversation context */
+  resumptionHandle?: string;
+}
+
+export interface LiveTransportCallbacks {
+  onOpen: () => void;
+  onEvent: (event: LiveEvent) => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * An open live session. Sends are fire-and-forget, matching the Gemini Live SDK.
+ */
+export interface LiveConnection {
+  sendAudio: (chunk: PcmBlob) => void;
+  sendText: (text: string) => void;
+  /** Signals that no more audio follows (end of an uploaded recording) */
+  endAudioStream: () => void;
+  close: () => void;
+}
+
+export interface LiveConnectOptions {
+  /** Resumes the session this handle came from instead of starting a new conversation */
+  resumptionHandle?: string;
+}
+
+/**
+ * A way to open live sessions. `useGeminiLive` only talks to this interface, so the
+ * Gemini Live API can be swapped for the local mock server or an in-memory test double.
+ * Transports without session resumption ignore the resumption handle.
+ */
+export interface LiveTransport {
+  id: string;
+  connect: (callbacks: LiveTransportCallbacks, options?: LiveConnectOptions) => Promise<LiveConnection>;
+}
+
+/**
+ * Extracts the parts of a Gemini Live message the pipeline uses.
+ * The mock server speaks the same message format, so this is shared by both transports.
+ */
+export const toLiveEvent = (msg: LiveServerMessage): LiveEvent => {
+  const parts = msg.serverContent?.modelTurn?.parts ?? [];
+  // Thought summaries are not part of the reply
+  const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+  const usage = msg.usageMetadata;
+  const resumption = msg.sessionResumptionUpdate;
+  return {
+    inputTranscription: msg.serverContent?.inputTranscription?.text,
+    outputTranscription: msg.serverContent?.outputTranscription?.text,
+    turnComplete: msg.serverContent?.turnComplete,
+    interrupted: msg.serverContent?.interrupted,
+    audio: parts.find(p => p.inlineData?.data)?.inlineData?.data,
+    ...(text ? { text } : {}),
+    ...(usage ? { usage: { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.responseTokenCount ?? 0 } } : {}),
+    // Not resumable mid-reply; the previous handle stays the one to use
+    ...(resumption?.resumable && resumption.newHandle ? { resumptionHandle: resumption.newHandle } : {}),
+  };
+};
+
+/**
+ * The default transport: the Gemini Live API over the official SDK, configured
+ * with the given assistant persona, voice, response mode and glossary. Session
+ * resumption is always enabled, so the server keeps sending fresh handles.
+ */
+export const createGeminiLiveTransport = (
+  apiKey: string,
+  assistant: LiveAssistantConfig = DEFAULT_LIVE_ASSISTANT,
+  glossary: GlossaryTerm[] = []
+): LiveTransport => ({
+  id: `gemini:${buildLiveConnectParams(assistant).model}`,
+  connect: async ({ onOpen, onEvent, onClose, onError }, options = {}) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const { model, config } = buildLiveConnectParams(assistant, glossary);
+    const session = await ai.live.connect({
+      model,
+      config: { ...config, sessionResumption: options.resumptionHandle ? { handle: options.resumptionHandle } : {} },
+      callbacks: {
+        onopen: onOpen,
+        onmessage: (msg: LiveServerMessage) => onEvent(toLiveEvent(msg)),
+        onclose: onClose,
+        onerror: onError,
+      },
+    });
+
+    return {
+      sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+      sendText: (text) => session.sendRealtimeInput({ text }),
+      endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+      close: () => session.close(),
+    };
+  },
+});
+
+/**
+ * Client messages understood by the mock live server (`npm run mock-live`).
+ */
+export type MockClientMessage =
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'text'; text: string }
+  | { type: 'audioStreamEnd' };
+
+/**
+ * Connects to a WebSocket server that speaks Gemini Live's server message format,
+ * such as the scripted mock server used for offline demos and end-to-end runs in CI.
+ *
+ * @param url - e.g. "ws://localhost:8765"
+ */
+export const createWebSocketLiveTransport = (url: string): LiveTransport => ({
+  id: `websocket:${url}`,
+  connect: ({ onOpen, onEvent, onClose, onError }) =>
+    new Promise((resolve, reject) => {
+      const socket = new WebSocket(url);
+      let opened = false;
+
+      const send = (message: MockClientMessage) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        resolve({
+          sendAudio: (chunk) => send({ type: 'audio', data: chunk.data ?? '', mimeType: chunk.mimeType ?? '' }),
+          sendText: (text) => send({ type: 'text', text }),
+          endAudioStream: () => send({ type: 'audioStreamEnd' }),
+          close: () => socket.close(),
+        });
+        onOpen();
+      };
+      socket.onmessage = (e) => {
+        try {
+          onEvent(toLiveEvent(JSON.parse(String(e.data)) as LiveServerMessage));
+        } catch (err) {
+          console.warn("Ignoring malformed live message", err);
+        }
+      };
+      socket.onerror = (e) => {
+        if (opened) onError(e);
+        else reject(new Error(`Could not connect to ${url}`));
+      };
+      socket.onclose = () => {
+        if (opened) onClose();
+      };
+    }),
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { askMeeting } from './meetingChat';
+import { TranscriptSegment } from '../types';
+import { OrganizerProvider } from './organizerProvider';
+
+const mockGenerateJson = vi.fn();
+const provider: OrganizerProvider = { id: 'test', generateJson: mockGenerateJson };
+
+const segments: TranscriptSegment[] = [
+  { id: 'seg-a', sender: 'user', text: 'Welcome everyone', timestamp: new Date(), isPartial: false, speaker: 'Speaker A' },
+  { id: 'seg-empty', sender: 'user', text: '  ', timestamp: new Date(), isPartial: false },
+  { id: 'seg-b', sender: 'user', text: 'I will send the deck by Friday', timestamp: new Date(), isPartial: false, speaker: 'Speaker B' },
+];
+
+describe('meetingChat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not call the model without a question', async () => {
+    expect(await askMeeting(' ', segments, [], {}, [], provider)).toBeNull();
+    expect(mockGenerateJson).not.toHaveBeenCalled();
+  });
+
+  it('grounds the prompt in the transcript and maps citations to segment ids', async () => {
+    mockGenerateJson.mockResolvedValue(JSON.stringify({ answer: 'Priya will send the deck by Friday.', citations: ['S2', 'S2', 'S9'] }));
+
+    const result = await askMeeting('What did Priya commit to?', segments, [], { 'Speaker B': 'Priya' }, [], provider);
+    const contents = mockGenerateJson.mock.calls[0][0].prompt;
+
+    // Empty segments are skipped, so the second numbered line is seg-b
+    expect(contents).toContain('[S2]');
+    expect(contents).toContain('Priya: I will send the deck by Friday');
+    expect(result).toEqual({ answer: 'Priya will send the deck by Friday.', citations: ['seg-b'] });
+  });
+
+  it('returns null on API errors', async () => {
+    mockGenerateJson.mockRejectedValue(new Error('API Error'));
+    expect(await askMeeting('Anything?', segments, [], {}, [], provider)).toBeNull();
+  });
+});
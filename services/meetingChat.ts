@@ -0,0 +1,98 @@
+import { MeetingChatMessage, OrganizedNote, TranscriptSegment } from "../types";
+import { getSpeakerName } from "./speakers";
+import { generateStructured, JsonSchema, OrganizerProvider } from "./organizerProvider";
+
+// Earlier turns sent along with a question so follow-ups ("and when is it due?") resolve
+const MAX_HISTORY_TURNS = 6;
+
+const answerSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    answer: { type: "string", description: "The answer, based only on the transcript and notes" },
+    citations: {
+      type: "array",
+      items: { type: "string" },
+      description: "References (such as S3) of the transcript lines the answer relies on"
+    }
+  },
+  required: ["answer", "citations"]
+};
+
+/**
+ * Numbers transcript lines with short references (S1, S2...) the model can cite.
+ * Short references keep the prompt small and are mapped back to segment ids afterwards.
+ */
+const buildGrounding = (segments: TranscriptSegment[], notes: OrganizedNote[], speakerNames: Record<string, string>) => {
+  const cited = segments.filter(s => s.text.trim());
+  const transcript = cited
+    .map((s, i) => `[S${i + 1}] ${s.timestamp.toLocaleTimeString()} ${getSpeakerName(s, speakerNames)}: ${s.text.trim()}`)
+    .join('\n');
+
+  // Notes are newest-first in state; oldest-first reads as a timeline
+  const noteText = [...notes].reverse()
+    .map(note => [
+      `- ${note.title}: ${note.summary}`,
+      ...note.decisions.map(d => `  Decision: ${d}`),
+      ...note.actionItems.map(item => `  Action: ${item.text}${item.owner ? ` (owner: ${item.owner})` : ''}${item.dueDate ? ` (due ${item.dueDate})` : ''}`),
+    ].join('\n'))
+    .join('\n');
+
+  return { cited, transcript, noteText };
+};
+
+/**
+ * Answers a question about a session from its stored transcript and notes.
+ * Runs as a separate `generateContent` call, so nothing reaches the live model
+ * or the analysis buffer.
+ *
+ * @param question - The user's question.
+ * @param segments - The session transcript.
+ * @param notes - The session's organized notes.
+ * @param speakerNames - Display names for diarized speaker labels.
+ * @param history - Earlier Q&A turns, oldest first.
+ * @param provider - The organizer model backend.
+ * @returns The answer with the ids of the segments it cites, or null if failed.
+ */
+export const askMeeting = async (
+  question: string,
+  segments: TranscriptSegment[],
+  notes: OrganizedNote[],
+  speakerNames: Record<string, string>,
+  history: MeetingChatMessage[],
+  provider: OrganizerProvider | null
+): Promise<{ answer: string; citations: string[] } | null> => {
+  if (!provider || !question.trim()) return null;
+
+  try {
+    const { cited, transcript, noteText } = buildGrounding(segments, notes, speakerNames);
+    const previousTurns = history
+      .slice(-MAX_HISTORY_TURNS)
+      .map(m => `${m.role === 'user' ? 'Q' : 'A'}: ${m.text}`)
+      .join('\n');
+
+    const data = await generateStructured<{ answer: string; citations: string[] }>(provider, {
+      name: 'meeting_answer',
+      system: "You answer questions about a recorded meeting. Use only the transcript and notes provided. Cite the [S#] references of every transcript line you relied on. If the meeting does not contain the answer, say so plainly and cite nothing.",
+      prompt: [
+        `Transcript:\n${transcript || '(empty)'}`,
+        noteText && `Notes:\n${noteText}`,
+        previousTurns && `Conversation so far:\n${previousTurns}`,
+        `Question: ${question}`,
+      ].filter(Boolean).join('\n\n'),
+      schema: answerSchema,
+    });
+
+    // Map S# references back to segment ids, dropping anything the model made up
+    const citations = Array.from(new Set(
+      data.citations
+        .map(ref => cited[parseInt(ref.replace(/\D/g, ''), 10) - 1]?.id)
+        .filter((id): id is string => Boolean(id))
+    ));
+
+    return { answer: data.answer, citations };
+
+  } catch (error) {
+    console.error("Error answering question:", error);
+    return null;
+  }
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addMetrics,
+  AUDIO_TOKENS_PER_SECOND,
+  EMPTY_SESSION_METRICS,
+  estimateCost,
+  formatCost,
+  isOverBudget,
+  ORGANIZER_PRICING,
+  organizerCallMetrics,
+} from './metrics';
+
+describe('metrics', () => {
+  it('adds counters without touching the others', () => {
+    const totals = addMetrics(addMetrics(EMPTY_SESSION_METRICS, { audioSecondsSent: 1.5, reconnects: 1 }), { audioSecondsSent: 2 });
+    expect(totals).toEqual({ ...EMPTY_SESSION_METRICS, audioSecondsSent: 3.5, reconnects: 1 });
+    expect(addMetrics(totals, organizerCallMetrics(800, { inputTokens: 1000, outputTokens: 200 }))).toMatchObject({
+      organizerCalls: 1,
+      organizerLatencyMs: 800,
+      organizerInputTokens: 1000,
+      organizerOutputTokens: 200,
+    });
+  });
+
+  it('prices reported tokens per million', () => {
+    const metrics = { ...EMPTY_SESSION_METRICS, organizerInputTokens: 1_000_000, organizerOutputTokens: 1_000_000 };
+    expect(estimateCost(metrics, ORGANIZER_PRICING.gemini).organizer).toBeCloseTo(2.8);
+    expect(estimateCost(metrics, ORGANIZER_PRICING.ollama).total).toBe(0);
+  });
+
+  it('estimates live input from audio sent when the transport reports no usage', () => {
+    const audioOnly = { ...EMPTY_SESSION_METRICS, audioSecondsSent: 1000 };
+    const pricing = { inputPerMillion: 1, outputPerMillion: 0 };
+    expect(estimateCost(audioOnly, ORGANIZER_PRICING.gemini, pricing).live).toBeCloseTo(1000 * AUDIO_TOKENS_PER_SECOND / 1_000_000);
+    expect(estimateCost({ ...audioOnly, liveInputTokens: 500 }, ORGANIZER_PRICING.gemini, pricing).live).toBeCloseTo(0.0005);
+  });
+
+  it('only enforces a budget when one is set', () => {
+    const cost = { live: 0.4, organizer: 0.1, total: 0.5 };
+    expect(isOverBudget(cost, 0)).toBe(false);
+    expect(isOverBudget(cost, 1)).toBe(false);
+    expect(isOverBudget(cost, 0.5)).toBe(true);
+    expect(formatCost(0.0123)).toBe('$0.0123');
+    expect(formatCost(1.5)).toBe('$1.50');
+  });
+});
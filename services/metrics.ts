@@ -0,0 +1,84 @@
+import { OrganizerBackend, SessionMetrics, TokenUsage } from "../types";
+
+/**
+ * Usage accounting and cost estimates for a session.
+ *
+ * Prices are list prices in USD per million tokens and only meant to show
+ * roughly what a session costs; the provider's bill is authoritative.
+ */
+
+export const EMPTY_SESSION_METRICS: SessionMetrics = {
+  audioSecondsSent: 0,
+  liveInputTokens: 0,
+  liveOutputTokens: 0,
+  organizerCalls: 0,
+  organizerLatencyMs: 0,
+  organizerInputTokens: 0,
+  organizerOutputTokens: 0,
+  reconnects: 0,
+  droppedSends: 0,
+};
+
+export interface TokenPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/** Native-audio live models, which bill audio in and out */
+export const LIVE_PRICING: TokenPricing = { inputPerMillion: 3, outputPerMillion: 12 };
+
+export const ORGANIZER_PRICING: Record<OrganizerBackend, TokenPricing> = {
+  gemini: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  // The endpoint could be anything; priced like a small hosted model
+  openai: { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  // Runs on this machine
+  ollama: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/** Tokens per second of input audio, for transports that report no usage (e.g. the mock server) */
+export const AUDIO_TOKENS_PER_SECOND = 32;
+
+export interface CostEstimate {
+  live: number;
+  organizer: number;
+  total: number;
+}
+
+/** Adds the counters in `delta` to `totals` */
+export const addMetrics = (totals: SessionMetrics, delta: Partial<SessionMetrics>): SessionMetrics => {
+  const next = { ...totals };
+  (Object.keys(delta) as (keyof SessionMetrics)[]).forEach(key => {
+    next[key] += delta[key] ?? 0;
+  });
+  return next;
+};
+
+/** Counters for one organizer request */
+export const organizerCallMetrics = (latencyMs: number, usage?: TokenUsage): Partial<SessionMetrics> => ({
+  organizerCalls: 1,
+  organizerLatencyMs: latencyMs,
+  organizerInputTokens: usage?.inputTokens ?? 0,
+  organizerOutputTokens: usage?.outputTokens ?? 0,
+});
+
+const tokenCost = (inputTokens: number, outputTokens: number, pricing: TokenPricing) =>
+  (inputTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000;
+
+export const estimateCost = (
+  metrics: SessionMetrics,
+  organizerPricing: TokenPricing,
+  livePricing: TokenPricing = LIVE_PRICING
+): CostEstimate => {
+  const liveInputTokens = metrics.liveInputTokens || metrics.audioSecondsSent * AUDIO_TOKENS_PER_SECOND;
+  const live = tokenCost(liveInputTokens, metrics.liveOutputTokens, livePricing);
+  const organizer = tokenCost(metrics.organizerInputTokens, metrics.organizerOutputTokens, organizerPricing);
+  return { live, organizer, total: live + organizer };
+};
+
+/** Whether a session has used up its budget; a budget of 0 means no cap */
+export const isOverBudget = (cost: CostEstimate, budgetUsd: number): boolean =>
+  budgetUsd > 0 && cost.total >= budgetUsd;
+
+/** Dollar amount with enough digits that small sessions do not read as $0.00 */
+export const formatCost = (usd: number): string =>
+  `$${usd > 0 && usd < 0.1 ? usd.toFixed(4) : usd.toFixed(2)}`;
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { BUILT_IN_TEMPLATES, findTemplate, toFieldKey, validateTemplate } from './noteTemplates';
+import { NoteTemplate } from '../types';
+
+const template = (overrides: Partial<NoteTemplate> = {}): NoteTemplate => ({
+  id: 'custom',
+  name: 'Design Review',
+  instruction: 'Take notes at a design review.',
+  fields: [{ key: 'risks', label: 'Risks', description: '', type: 'list' }],
+  ...overrides,
+});
+
+describe('noteTemplates', () => {
+  it('derives camelCase keys from labels', () => {
+    expect(toFieldKey('Customer pain points')).toBe('customerPainPoints');
+    expect(toFieldKey('  Quotes! ')).toBe('quotes');
+    expect(toFieldKey('???')).toBe('');
+  });
+
+  it('falls back to the business template for unknown ids', () => {
+    expect(findTemplate(BUILT_IN_TEMPLATES, 'missing').id).toBe('business');
+    expect(findTemplate(BUILT_IN_TEMPLATES, 'standup').name).toBe('Standup');
+  });
+
+  it('accepts every built-in template', () => {
+    BUILT_IN_TEMPLATES.forEach(t => expect(validateTemplate(t)).toBeNull());
+  });
+
+  it('rejects duplicate and reserved field keys', () => {
+    const risks = template().fields[0];
+    expect(validateTemplate(template({ fields: [risks, { ...risks, label: 'risks' }] }))).toContain('defined twice');
+    expect(validateTemplate(template({ fields: [{ ...risks, key: 'summary', label: 'Summary' }] }))).toContain('standard note section');
+    expect(validateTemplate(template({ name: ' ' }))).toContain('name');
+  });
+});
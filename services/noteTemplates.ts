@@ -0,0 +1,114 @@
+import { NoteTemplate, TemplateField } from "../types";
+
+export const DEFAULT_TEMPLATE_ID = 'business';
+
+// Standard sections every note has; custom fields may not reuse these names
+const RESERVED_KEYS = ['title', 'summary', 'topics', 'actionItems', 'decisions', 'sentiment', 'fields'];
+
+/**
+ * Templates shipped with the app. "Business Notes" matches the original organizer behaviour.
+ */
+export const BUILT_IN_TEMPLATES: NoteTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Business Notes',
+    instruction: "You are an expert executive assistant. Your job is to listen to transcripts and organize them into clear, actionable business notes.",
+    fields: [],
+    builtIn: true,
+  },
+  {
+    id: 'standup',
+    name: 'Standup',
+    instruction: "You are a scrum master taking notes at a daily standup. Capture what each person finished, what they are working on next and anything blocking them.",
+    fields: [
+      { key: 'done', label: 'Done', description: "Work reported as finished since the last standup, prefixed with the person's name", type: 'list' },
+      { key: 'next', label: 'Next', description: "Work each person plans to do next, prefixed with their name", type: 'list' },
+      { key: 'blockers', label: 'Blockers', description: "Anything preventing progress, with who is blocked", type: 'list' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'customer-interview',
+    name: 'Customer Interview',
+    instruction: "You are a product researcher taking notes during a customer interview. Focus on the customer's problems, goals and exact wording rather than on the interviewer.",
+    fields: [
+      { key: 'painPoints', label: 'Customer Pain Points', description: "Problems or frustrations the customer described", type: 'list' },
+      { key: 'quotes', label: 'Quotes', description: "Verbatim customer quotes worth sharing with the team", type: 'list' },
+      { key: 'featureRequests', label: 'Feature Requests', description: "Capabilities the customer asked for or implied", type: 'list' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'lecture',
+    name: 'Lecture',
+    instruction: "You are a diligent student taking study notes from a lecture. Explain concepts clearly and keep definitions precise.",
+    fields: [
+      { key: 'keyConcepts', label: 'Key Concepts', description: "Concepts introduced, each with a one-sentence explanation", type: 'list' },
+      { key: 'definitions', label: 'Definitions', description: "Terms defined in the lecture, as 'term: definition'", type: 'list' },
+      { key: 'reviewQuestions', label: 'Review Questions', description: "Questions a student could use to test their understanding", type: 'list' },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'incident-retro',
+    name: 'Incident Retro',
+    instruction: "You are an SRE facilitating a blameless incident retrospective. Record facts, timings and systemic causes; never assign blame to individuals.",
+    fields: [
+      { key: 'timeline', label: 'Timeline', description: "Chronological events as 'HH:MM - what happened', using times mentioned in the discussion", type: 'list' },
+      { key: 'impact', label: 'Impact', description: "Who or what was affected and for how long", type: 'text' },
+      { key: 'rootCause', label: 'Root Cause', description: "The underlying cause identified, if any", type: 'text' },
+      { key: 'contributingFactors', label: 'Contributing Factors', description: "Conditions that made the incident more likely or worse", type: 'list' },
+    ],
+    builtIn: true,
+  },
+];
+
+/**
+ * Finds a template by id, falling back to the default business template.
+ */
+export const findTemplate = (templates: NoteTemplate[], id: string | undefined): NoteTemplate =>
+  templates.find(t => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+
+/**
+ * Derives a schema property name from a field label, e.g. "Customer pain points" -> "customerPainPoints".
+ */
+export const toFieldKey = (label: string): string => {
+  const words = label
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  return words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join('');
+};
+
+/**
+ * Checks a user-defined template before it is saved.
+ *
+ * @returns A human-readable problem, or null if the template is valid.
+ */
+export const validateTemplate = (template: NoteTemplate): string | null => {
+  if (!template.name.trim()) return "Template name is required.";
+  if (!template.instruction.trim()) return "Describe how the organizer should read the conversation.";
+
+  const seen = new Set<string>();
+  for (const field of template.fields) {
+    if (!field.label.trim()) return "Every field needs a label.";
+    if (!field.key) return `"${field.label}" needs a label with letters or numbers.`;
+    if (RESERVED_KEYS.includes(field.key)) return `"${field.label}" clashes with a standard note section.`;
+    if (seen.has(field.key)) return `"${field.label}" is defined twice.`;
+    seen.add(field.key);
+  }
+  return null;
+};
+
+/**
+ * Builds an empty custom field with a label-derived key.
+ */
+export const createTemplateField = (label: string, type: TemplateField['type'] = 'list'): TemplateField => ({
+  key: toFieldKey(label),
+  label,
+  description: '',
+  type,
+});
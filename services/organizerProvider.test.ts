@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createMockProvider,
+  createOllamaProvider,
+  createOpenAICompatibleProvider,
+  createOrganizerProvider,
+  generateStructured,
+  isRetryableOrganizerError,
+  JsonSchema,
+  OrganizerHttpError,
+  OrganizerValidationError,
+  toGeminiSchema,
+  validateAgainstSchema,
+} from './organizerProvider';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    mood: { type: 'string', enum: ['good', 'bad'] },
+  },
+  required: ['title', 'tags'],
+};
+
+const request = { name: 'test', system: 'Be brief.', prompt: 'Hello', schema };
+
+describe('organizerProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('validates values against the schema with a path to the problem', () => {
+    expect(() => validateAgainstSchema({ title: 'x', tags: [] }, schema)).not.toThrow();
+    expect(() => validateAgainstSchema({ title: 'x' }, schema)).toThrow('$.tags: is required');
+    expect(() => validateAgainstSchema({ title: 'x', tags: [1] }, schema)).toThrow('$.tags[0]: expected text');
+    expect(() => validateAgainstSchema({ title: 'x', tags: [], mood: 'meh' }, schema)).toThrow(OrganizerValidationError);
+  });
+
+  it('parses fenced JSON from local models', async () => {
+    const provider = { id: 'fenced', generateJson: async () => '```json\n{"title":"x","tags":[]}\n```' };
+    await expect(generateStructured(provider, request)).resolves.toEqual({ title: 'x', tags: [] });
+  });
+
+  it('rejects invalid JSON and schema mismatches from any provider', async () => {
+    await expect(generateStructured({ id: 'bad', generateJson: async () => 'Sure! Here you go' }, request)).rejects.toThrow('not valid JSON');
+    await expect(generateStructured(createMockProvider(() => ({ title: 3, tags: [] })), request)).rejects.toThrow('$.title');
+  });
+
+  it('translates JSON Schema types for Gemini', () => {
+    expect(toGeminiSchema(schema)).toMatchObject({
+      type: 'OBJECT',
+      properties: {
+        tags: { items: { type: 'STRING' } },
+        mood: { enum: ['good', 'bad'] },
+      },
+    });
+  });
+
+  it('calls OpenAI-compatible endpoints with a json_schema response format', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: '{"title":"x","tags":[]}' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const onMetrics = vi.fn();
+
+    const provider = createOpenAICompatibleProvider('http://localhost:8080/v1/', 'llama-3', 'secret', onMetrics);
+    await expect(generateStructured(provider, request)).resolves.toEqual({ title: 'x', tags: [] });
+    expect(onMetrics).toHaveBeenCalledWith({ latencyMs: expect.any(Number), usage: { inputTokens: 120, outputTokens: 30 } });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(body.response_format.json_schema).toEqual({ name: 'test', schema });
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+  });
+
+  it('calls Ollama with the schema as format and surfaces HTTP errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ message: { content: '{"title":"x","tags":["a"]}' } }) })
+      .mockResolvedValueOnce({ ok: false, status: 404 });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createOllamaProvider('llama3.1');
+    await expect(generateStructured(provider, request)).resolves.toEqual({ title: 'x', tags: ['a'] });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ model: 'llama3.1', stream: false, format: schema });
+
+    await expect(provider.generateJson(request)).rejects.toThrow('404');
+  });
+
+  it('retries rate limits, server errors and bad output but not client errors', () => {
+    expect(isRetryableOrganizerError(new OrganizerHttpError(429, 'busy'))).toBe(true);
+    expect(isRetryableOrganizerError(new OrganizerHttpError(503, 'down'))).toBe(true);
+    expect(isRetryableOrganizerError(new OrganizerValidationError('$', 'empty response'))).toBe(true);
+    expect(isRetryableOrganizerError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableOrganizerError(new OrganizerHttpError(401, 'unauthorized'))).toBe(false);
+    expect(isRetryableOrganizerError({ status: 400, message: 'invalid model' })).toBe(false);
+  });
+
+  it('only builds providers that are fully configured', () => {
+    expect(createOrganizerProvider({ backend: 'gemini', model: '' }, '')).toBeNull();
+    expect(createOrganizerProvider({ backend: 'openai', model: 'gpt-4o-mini' }, 'key')).toBeNull();
+    expect(createOrganizerProvider({ backend: 'ollama', model: 'llama3.1' }, '')?.id).toBe('ollama:llama3.1');
+  });
+});
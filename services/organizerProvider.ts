@@ -0,0 +1,296 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { OrganizerConfig, TokenUsage } from "../types";
+
+/**
+ * Subset of JSON Schema used to describe organizer output. Written once and
+ * translated per provider (Gemini's `Type` schema, OpenAI `json_schema`, Ollama `format`).
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+/**
+ * One structured-output call: instructions, the user prompt and the JSON shape to return.
+ */
+export interface StructuredRequest {
+  /** Short identifier for the schema, required by OpenAI-style `json_schema` */
+  name: string;
+  system: string;
+  prompt: string;
+  schema: JsonSchema;
+}
+
+/**
+ * A model backend for the organizer. Implementations only fetch JSON text;
+ * `generateStructured` parses and validates it so every backend yields the same shape.
+ */
+export interface OrganizerProvider {
+  id: string;
+  /** Sends the request and returns the raw JSON text produced by the model */
+  generateJson: (request: StructuredRequest) => Promise<string>;
+}
+
+/**
+ * Thrown when a model's output does not match the requested schema.
+ */
+export class OrganizerValidationError extends Error {
+  constructor(public readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'OrganizerValidationError';
+  }
+}
+
+/**
+ * Thrown when an organizer endpoint answers with an HTTP error status.
+ */
+export class OrganizerHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'OrganizerHttpError';
+  }
+}
+
+/**
+ * Whether a failed organizer request is worth repeating. Rate limits, server
+ * errors, network failures and malformed model output usually pass; bad
+ * requests, auth failures and unknown models do not.
+ */
+export const isRetryableOrganizerError = (error: unknown): boolean => {
+  // OrganizerHttpError, and the Gemini SDK's ApiError, carry the HTTP status
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status !== 'number') return true;
+  return status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * What one organizer request took, reported by the provider once the model answered.
+ */
+export interface OrganizerCallMetrics {
+  latencyMs: number;
+  /** Absent when the backend does not report token counts */
+  usage?: TokenUsage;
+}
+
+export type OrganizerMetricsListener = (call: OrganizerCallMetrics) => void;
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+/**
+ * Checks a parsed value against a schema. Unknown object properties are kept;
+ * missing required properties, wrong types and out-of-enum values are rejected.
+ */
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema, path = '$'): void => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new OrganizerValidationError(path, 'expected an object');
+      }
+      const record = value as Record<string, unknown>;
+      (schema.required ?? []).forEach(key => {
+        if (record[key] === undefined) throw new OrganizerValidationError(`${path}.${key}`, 'is required');
+      });
+      Object.entries(schema.properties ?? {}).forEach(([key, child]) => {
+        if (record[key] !== undefined) validateAgainstSchema(record[key], child, `${path}.${key}`);
+      });
+      return;
+    }
+    case 'array':
+      if (!Array.isArray(value)) throw new OrganizerValidationError(path, 'expected a list');
+      value.forEach((item, i) => schema.items && validateAgainstSchema(item, schema.items, `${path}[${i}]`));
+      return;
+    case 'string':
+      if (typeof value !== 'string') throw new OrganizerValidationError(path, 'expected text');
+      if (schema.enum && !schema.enum.includes(value)) {
+        throw new OrganizerValidationError(path, `expected one of ${schema.enum.join(', ')}`);
+      }
+      return;
+    case 'integer':
+      if (!Number.isInteger(value)) throw new OrganizerValidationError(path, 'expected an integer');
+      return;
+    case 'number':
+      if (typeof value !== 'number') throw new OrganizerValidationError(path, 'expected a number');
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') throw new OrganizerValidationError(path, 'expected true or false');
+      return;
+  }
+};
+
+/**
+ * Runs a structured request on any provider and returns the validated result.
+ * Local models sometimes wrap JSON in a Markdown code fence; that is stripped first.
+ */
+export const generateStructured = async <T>(provider: OrganizerProvider, request: StructuredRequest): Promise<T> => {
+  const text = (await provider.generateJson(request)).trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  if (!text) throw new OrganizerValidationError('$', 'empty response');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new OrganizerValidationError('$', 'response is not valid JSON');
+  }
+  validateAgainstSchema(data, request.schema);
+  return data as T;
+};
+
+const GEMINI_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+/**
+ * Translates a JSON Schema into Gemini's `responseSchema` format.
+ */
+export const toGeminiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  ...schema,
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.properties
+    ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)])) }
+    : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+});
+
+/**
+ * Google Gemini via `generateContent` with a response schema.
+ */
+export const createGeminiProvider = (apiKey: string, model = DEFAULT_GEMINI_MODEL, onMetrics?: OrganizerMetricsListener): OrganizerProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: `gemini:${model}`,
+    generateJson: async ({ system, prompt, schema }) => {
+      const startedAt = Date.now();
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          systemInstruction: system,
+        }
+      });
+      const usage = response.usageMetadata;
+      onMetrics?.({
+        latencyMs: Date.now() - startedAt,
+        // Thinking tokens are billed as output
+        usage: usage && {
+          inputTokens: usage.promptTokenCount ?? 0,
+          outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (OpenAI, Azure OpenAI, vLLM,
+ * LM Studio, or a llama.cpp server started with `--api`).
+ *
+ * @param baseUrl - API root including the version, e.g. "https://api.openai.com/v1".
+ */
+export const createOpenAICompatibleProvider = (
+  baseUrl: string,
+  model: string,
+  apiKey?: string,
+  onMetrics?: OrganizerMetricsListener
+): OrganizerProvider => ({
+  id: `openai:${model}`,
+  generateJson: async ({ name, system, prompt, schema }) => {
+    const startedAt = Date.now();
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_schema', json_schema: { name, schema } },
+      }),
+    });
+    if (!response.ok) throw new OrganizerHttpError(response.status, `Organizer endpoint returned ${response.status}`);
+    const data = await response.json();
+    onMetrics?.({
+      latencyMs: Date.now() - startedAt,
+      usage: data.usage && { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 },
+    });
+    return data.choices?.[0]?.message?.content ?? '';
+  },
+});
+
+/**
+ * A local Ollama server. The schema is passed as `format`, which Ollama uses to constrain decoding.
+ */
+export const createOllamaProvider = (model: string, baseUrl = DEFAULT_OLLAMA_URL, onMetrics?: OrganizerMetricsListener): OrganizerProvider => ({
+  id: `ollama:${model}`,
+  generateJson: async ({ system, prompt, schema }) => {
+    const startedAt = Date.now();
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        stream: false,
+        format: schema,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+    if (!response.ok) throw new OrganizerHttpError(response.status, `Ollama returned ${response.status}`);
+    const data = await response.json();
+    onMetrics?.({
+      latencyMs: Date.now() - startedAt,
+      usage: { inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 },
+    });
+    return data.message?.content ?? '';
+  },
+});
+
+/**
+ * Offline provider that answers from a callback. Used by tests, and handy for
+ * UI work without network access.
+ */
+export const createMockProvider = (respond: (request: StructuredRequest) => unknown): OrganizerProvider => ({
+  id: 'mock',
+  generateJson: async (request) => JSON.stringify(respond(request)),
+});
+
+/**
+ * Builds the provider selected in settings.
+ *
+ * @param config - The organizer settings.
+ * @param geminiApiKey - Key used when the Gemini backend is selected.
+ * @param onMetrics - Called with the latency and token usage of every answered request.
+ * @returns The provider, or null if it is not fully configured.
+ */
+export const createOrganizerProvider = (
+  config: OrganizerConfig,
+  geminiApiKey: string,
+  onMetrics?: OrganizerMetricsListener
+): OrganizerProvider | null => {
+  switch (config.backend) {
+    case 'gemini':
+      return geminiApiKey ? createGeminiProvider(geminiApiKey, config.model || DEFAULT_GEMINI_MODEL, onMetrics) : null;
+    case 'openai':
+      return config.baseUrl && config.model ? createOpenAICompatibleProvider(config.baseUrl, config.model, config.apiKey, onMetrics) : null;
+    case 'ollama':
+      return config.model ? createOllamaProvider(config.model, config.baseUrl || DEFAULT_OLLAMA_URL, onMetrics) : null;
+  }
+};
@@ -1,23 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { organizeTranscript } from './organizerService';
-
-// Mock the GoogleGenAI library
-const mockGenerateContent = vi.fn();
-
-vi.mock('@google/genai', () => {
-  return {
-    GoogleGenAI: vi.fn().mockImplementation(() => ({
-      models: {
-        generateContent: mockGenerateContent,
-      },
-    })),
-    Type: {
-      OBJECT: 'OBJECT',
-      STRING: 'STRING',
-      ARRAY: 'ARRAY',
-    },
-  };
-});
+import { organizeTranscript, updateMeetingSummary } from './organizerService';
+import { BUILT_IN_TEMPLATES } from './noteTemplates';
+import { OrganizerProvider } from './organizerProvider';
+
+// Deterministic in-memory provider; each test sets what the "model" returns
+const mockGenerateJson = vi.fn();
+const provider: OrganizerProvider = { id: 'test', generateJson: mockGenerateJson };
 
 describe('organizerService', () => {
   beforeEach(() => {
@@ -25,13 +13,13 @@ describe('organizerService', () => {
   });
 
   it('should return null if transcript is empty', async () => {
-    const result = await organizeTranscript('', 'fake-key');
+    const result = await organizeTranscript('', provider);
     expect(result).toBeNull();
-    expect(mockGenerateContent).not.toHaveBeenCalled();
+    expect(mockGenerateJson).not.toHaveBeenCalled();
   });
 
-  it('should return null if apiKey is missing', async () => {
-    const result = await organizeTranscript('some text', '');
+  it('should return null if no provider is configured', async () => {
+    const result = await organizeTranscript('some text', null);
     expect(result).toBeNull();
   });
 
@@ -40,28 +28,89 @@ describe('organizerService', () => {
       title: "Test Note",
       summary: "Summary text",
       topics: ["Tag1"],
-      actionItems: ["Do this"],
+      actionItems: [{ text: "Do this", owner: "Sam", priority: "high" }],
       decisions: ["Decided that"],
       sentiment: "positive"
     };
 
-    mockGenerateContent.mockResolvedValue({
-      text: JSON.stringify(mockResponse)
-    });
+    mockGenerateJson.mockResolvedValue(JSON.stringify(mockResponse));
 
-    const result = await organizeTranscript('some transcript text', 'fake-key');
+    const result = await organizeTranscript('some transcript text', provider);
 
     expect(result).not.toBeNull();
     expect(result?.title).toBe("Test Note");
     expect(result?.topics).toHaveLength(1);
     expect(result?.timestamp).toBeDefined(); // Service adds timestamp
+    expect(result?.actionItems[0]).toMatchObject({ text: "Do this", owner: "Sam", status: "open", sourceNoteId: result?.id });
+  });
+
+  it('should extract a template\'s custom fields with their labels', async () => {
+    const standup = BUILT_IN_TEMPLATES.find(t => t.id === 'standup')!;
+    mockGenerateJson.mockResolvedValue(JSON.stringify({
+      title: "Standup",
+      summary: "Daily sync",
+      topics: [],
+      actionItems: [],
+      decisions: [],
+      sentiment: "neutral",
+      fields: { done: ["Sam: shipped login"], next: [], blockers: ["Priya: waiting on API keys"] }
+    }));
+
+    const result = await organizeTranscript('standup transcript', provider, standup);
+    const request = mockGenerateJson.mock.calls[0][0];
+
+    expect(request.schema.properties.fields.required).toEqual(['done', 'next', 'blockers']);
+    expect(request.system).toContain('scrum master');
+    expect(result?.templateId).toBe('standup');
+    // Empty fields are dropped
+    expect(result?.fields).toEqual([
+      { key: 'done', label: 'Done', value: ["Sam: shipped login"] },
+      { key: 'blockers', label: 'Blockers', value: ["Priya: waiting on API keys"] },
+    ]);
+  });
+
+  it('should give the organizer the glossary spellings', async () => {
+    mockGenerateJson.mockResolvedValue(JSON.stringify({ title: "T", summary: "s", topics: [], actionItems: [], decisions: [], sentiment: "neutral" }));
+    await organizeTranscript('text', provider, undefined, [{ id: '1', term: 'VibeNote', variants: ['vibe note'], definition: 'Our app' }]);
+    expect(mockGenerateJson.mock.calls[0][0].system).toContain('- VibeNote (may sound like "vibe note"): Our app');
+  });
+
+  it('should reject output that does not match the note shape', async () => {
+    // e.g. a local model that ignored the schema
+    mockGenerateJson.mockResolvedValue(JSON.stringify({ title: "Test", summary: "s", topics: "none" }));
+    const result = await organizeTranscript('text', provider);
+    expect(result).toBeNull();
   });
 
   it('should handle API errors gracefully', async () => {
-    mockGenerateContent.mockRejectedValue(new Error("API Error"));
+    mockGenerateJson.mockRejectedValue(new Error("API Error"));
     
     // Should not throw, but return null (and log error)
-    const result = await organizeTranscript('text', 'key');
+    const result = await organizeTranscript('text', provider);
+    expect(result).toBeNull();
+  });
+
+  it('should fold a new buffer into the previous meeting summary', async () => {
+    mockGenerateJson.mockResolvedValue(JSON.stringify({ overview: "Roadmap and pricing", decisions: ["Ship Friday", "Raise price"], openQuestions: [] }));
+
+    const previous = {
+      overview: "Roadmap",
+      decisions: ["Ship Friday"],
+      openQuestions: ["Pricing?"],
+      revision: 1,
+      updatedAt: new Date().toISOString()
+    };
+    const result = await updateMeetingSummary(previous, 'we will raise the price', provider);
+
+    expect(result?.decisions).toEqual(["Ship Friday", "Raise price"]);
+    expect(result?.revision).toBe(2);
+    // The previous summary is part of the prompt so the model can merge into it
+    expect(mockGenerateJson.mock.calls[0][0].prompt).toContain('Pricing?');
+  });
+
+  it('should keep the caller\'s summary when the update fails', async () => {
+    mockGenerateJson.mockRejectedValue(new Error("API Error"));
+    const result = await updateMeetingSummary(null, 'text', provider);
     expect(result).toBeNull();
   });
-});
\ No newline at end of file
+});
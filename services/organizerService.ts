@@ -1,30 +1,44 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { OrganizedNote } from "../types";
+import { ActionItem, GlossaryTerm, MeetingSummary, NoteField, NoteTemplate, OrganizedNote, TranscriptSegment } from "../types";
+import { getSpeakerName } from "./speakers";
+import { normalizeActionItem } from "./actionItems";
+import { BUILT_IN_TEMPLATES } from "./noteTemplates";
+import { buildGlossaryPrompt } from "./glossary";
+import { generateStructured, JsonSchema, OrganizerProvider } from "./organizerProvider";
 
 // Schema definition for the organizer
-// This enforces the Gemini model to return a strictly structured JSON object.
-const noteSchema = {
-  type: Type.OBJECT,
+// Providers constrain the model to it and `generateStructured` validates the result,
+// so every backend returns the same OrganizedNote shape.
+const noteSchema: JsonSchema = {
+  type: "object",
   properties: {
-    title: { type: Type.STRING, description: "A concise title for the conversation segment" },
-    summary: { type: Type.STRING, description: "A brief summary of what was discussed" },
+    title: { type: "string", description: "A concise title for the conversation segment" },
+    summary: { type: "string", description: "A brief summary of what was discussed" },
     topics: { 
-      type: Type.ARRAY, 
-      items: { type: Type.STRING },
+      type: "array", 
+      items: { type: "string" },
       description: "Key topics or tags identified" 
     },
     actionItems: { 
-      type: Type.ARRAY, 
-      items: { type: Type.STRING },
+      type: "array", 
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string", description: "The task, phrased as an instruction" },
+          owner: { type: "string", description: "Person responsible, if named. Omit otherwise" },
+          dueDate: { type: "string", description: "Due date as YYYY-MM-DD, if stated. Omit otherwise" },
+          priority: { type: "string", enum: ["low", "medium", "high"], description: "Urgency implied by the conversation" }
+        },
+        required: ["text", "priority"]
+      },
       description: "Specific tasks or to-dos assigned or mentioned"
     },
     decisions: { 
-      type: Type.ARRAY, 
-      items: { type: Type.STRING },
+      type: "array", 
+      items: { type: "string" },
       description: "Key decisions made during the discussion"
     },
     sentiment: {
-      type: Type.STRING,
+      type: "string",
       enum: ["positive", "neutral", "negative"],
       description: "The general sentiment of the conversation"
     }
@@ -33,42 +47,230 @@ const noteSchema = {
 };
 
 /**
- * Analyzes a raw text transcript using Gemini Flash 2.5 and extracts structured business insights.
+ * Extends the standard note schema with a template's custom fields, nested under `fields`.
+ */
+const buildNoteSchema = (template: NoteTemplate): JsonSchema => {
+  if (template.fields.length === 0) return noteSchema;
+
+  const properties = Object.fromEntries(template.fields.map((field): [string, JsonSchema] => [
+    field.key,
+    field.type === 'list'
+      ? { type: "array", items: { type: "string" }, description: field.description || field.label }
+      : { type: "string", description: field.description || field.label }
+  ]));
+
+  return {
+    ...noteSchema,
+    properties: {
+      ...noteSchema.properties,
+      fields: { type: "object", properties, required: template.fields.map(f => f.key) }
+    },
+    required: [...(noteSchema.required ?? []), "fields"]
+  };
+};
+
+/**
+ * Pairs the model's custom field values with the template labels, skipping empty ones.
+ */
+const toNoteFields = (template: NoteTemplate, values: Record<string, unknown> | undefined): NoteField[] =>
+  template.fields.flatMap<NoteField>(field => {
+    const value = values?.[field.key];
+    if (Array.isArray(value)) {
+      const items = value.filter((v): v is string => typeof v === 'string' && v.trim() !== '');
+      return items.length > 0 ? [{ key: field.key, label: field.label, value: items }] : [];
+    }
+    return typeof value === 'string' && value.trim() ? [{ key: field.key, label: field.label, value }] : [];
+  });
+
+/** Raw organizer output as validated against `noteSchema` */
+type NoteResponse = Pick<OrganizedNote, 'title' | 'summary' | 'topics' | 'decisions' | 'sentiment'> & {
+  actionItems: unknown[];
+  fields?: Record<string, unknown>;
+};
+
+/**
+ * Asks the organizer for a structured note shaped by a note template.
+ * Unlike `organizeTranscript` it lets failures through, so callers can tell
+ * a rate limit worth retrying from a request that will never succeed.
+ *
+ * @throws OrganizerHttpError, OrganizerValidationError or a network error
+ */
+export const requestOrganizedNote = async (
+  transcript: string,
+  provider: OrganizerProvider,
+  template: NoteTemplate = BUILT_IN_TEMPLATES[0],
+  glossary: GlossaryTerm[] = []
+): Promise<OrganizedNote> => {
+  const data = await generateStructured<NoteResponse>(provider, {
+    name: 'organized_note',
+    system: [
+      `${template.instruction} Lines may start with a speaker name followed by a colon; when they do, attribute action items and decisions to that person.`,
+      buildGlossaryPrompt(glossary),
+    ].filter(Boolean).join('\n\n'),
+    prompt: `Today is ${new Date().toISOString().slice(0, 10)}. Analyze the following transcript and extract structured notes:\n\n${transcript}`,
+    schema: buildNoteSchema(template),
+  });
+
+  const timestamp = new Date().toISOString();
+  const id = `note-${Date.now()}`;
+  const noteFields = toNoteFields(template, data.fields);
+  
+  return {
+    id,
+    title: data.title,
+    summary: data.summary,
+    topics: data.topics,
+    // Items get ids and an open status here; the model only supplies their content
+    actionItems: data.actionItems
+      .map((item, i) => normalizeActionItem(item, id, i))
+      .filter((item): item is ActionItem => item !== null),
+    decisions: data.decisions,
+    sentiment: data.sentiment,
+    timestamp,
+    templateId: template.id,
+    ...(noteFields.length > 0 ? { fields: noteFields } : {}),
+  };
+};
+
+/**
+ * Analyzes a raw text transcript and extracts structured notes shaped by a
+ * note template (business notes by default).
  * 
  * @param transcript - The raw text accumulated from the live session.
- * @param apiKey - The Google Generative AI API Key.
+ * @param provider - The organizer model backend (Gemini, OpenAI-compatible, Ollama...).
+ * @param template - Instruction and custom fields to extract; defaults to Business Notes.
+ * @param glossary - Team terms the notes should spell correctly.
  * @returns A promise resolving to an OrganizedNote object or null if failed.
  */
-export const organizeTranscript = async (transcript: string, apiKey: string): Promise<OrganizedNote | null> => {
-  if (!apiKey || !transcript.trim()) return null;
+export const organizeTranscript = async (
+  transcript: string,
+  provider: OrganizerProvider | null,
+  template: NoteTemplate = BUILT_IN_TEMPLATES[0],
+  glossary: GlossaryTerm[] = []
+): Promise<OrganizedNote | null> => {
+  if (!provider || !transcript.trim()) return null;
 
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    
-    // We use the standard Flash model for this distinct cognitive task
-    // It is cheaper and faster for pure text processing than the multimodal live session model
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Analyze the following transcript and extract structured notes:\n\n${transcript}`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: noteSchema,
-        systemInstruction: "You are an expert executive assistant. Your job is to listen to transcripts and organize them into clear, actionable business notes.",
+    return await requestOrganizedNote(transcript, provider, template, glossary);
+  } catch (error) {
+    console.error("Error organizing notes:", error);
+    return null;
+  }
+};
+
+// Schema for the speaker-labelling pass: one label per numbered transcript line
+const speakerSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    labels: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          line: { type: "integer", description: "The line number from the transcript" },
+          speaker: { type: "string", description: "Speaker label such as 'Speaker A', or a name if the speaker is clearly identified" }
+        },
+        required: ["line", "speaker"]
       }
+    }
+  },
+  required: ["labels"]
+};
+
+/**
+ * Optional diarization pass: asks the organizer model to tell speakers apart within the
+ * user's side of the transcript using content cues (names, turn-taking, references).
+ * The Me/Remote channel tag is passed along as a strong hint.
+ *
+ * @param segments - The session transcript
+ * @param provider - The organizer model backend.
+ * @returns A map of segment id to speaker label, or null if failed.
+ */
+export const labelSpeakers = async (segments: TranscriptSegment[], provider: OrganizerProvider | null): Promise<Record<string, string> | null> => {
+  const userSegments = segments.filter(s => s.sender === 'user' && s.text.trim());
+  if (!provider || userSegments.length === 0) return null;
+
+  try {
+    const numbered = userSegments
+      .map((s, i) => `${i + 1}. [${getSpeakerName({ ...s, speaker: undefined })}] ${s.text.trim()}`)
+      .join('\n');
+
+    const data = await generateStructured<{ labels: { line: number; speaker: string }[] }>(provider, {
+      name: 'speaker_labels',
+      system: "You are a diarization assistant. Lines tagged [Me] come from the local microphone and [Remote] from call audio; different tags are never the same person. Label distinct speakers 'Speaker A', 'Speaker B', 'Speaker C' and so on, reusing a label whenever the same person speaks again.",
+      prompt: `Assign a speaker to every numbered line of this meeting transcript:\n\n${numbered}`,
+      schema: speakerSchema,
     });
+    const result: Record<string, string> = {};
+    data.labels.forEach(({ line, speaker }) => {
+      const segment = userSegments[line - 1];
+      if (segment && speaker.trim()) result[segment.id] = speaker.trim();
+    });
+    return result;
 
-    const jsonText = response.text;
-    if (!jsonText) return null;
+  } catch (error) {
+    console.error("Error labelling speakers:", error);
+    return null;
+  }
+};
+
+// Schema for the rolling meeting summary
+const summarySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    overview: { type: "string", description: "A cohesive summary of the entire meeting so far" },
+    decisions: {
+      type: "array",
+      items: { type: "string" },
+      description: "All decisions made so far, merged and de-duplicated"
+    },
+    openQuestions: {
+      type: "array",
+      items: { type: "string" },
+      description: "Questions raised that have not been answered yet"
+    }
+  },
+  required: ["overview", "decisions", "openQuestions"]
+};
+
+/**
+ * Meeting Summary mode: folds a new transcript buffer into the previous consolidated
+ * summary so a long meeting yields one evolving document instead of many fragments.
+ *
+ * @param previous - The current summary, or null for the first buffer.
+ * @param transcript - The newest transcript buffer.
+ * @param provider - The organizer model backend.
+ * @returns A promise resolving to the updated MeetingSummary or null if failed.
+ */
+export const updateMeetingSummary = async (
+  previous: MeetingSummary | null,
+  transcript: string,
+  provider: OrganizerProvider | null
+): Promise<MeetingSummary | null> => {
+  if (!provider || !transcript.trim()) return null;
+
+  try {
+    const previousText = previous
+      ? `Current summary:\n${JSON.stringify({ overview: previous.overview, decisions: previous.decisions, openQuestions: previous.openQuestions })}`
+      : "There is no summary yet; this is the start of the meeting.";
+
+    const data = await generateStructured<Pick<MeetingSummary, 'overview' | 'decisions' | 'openQuestions'>>(provider, {
+      name: 'meeting_summary',
+      system: "You maintain the running minutes of a meeting. Merge the new transcript into the current summary: rewrite the overview to cover the whole meeting, keep every earlier decision unless it was explicitly reversed, and remove open questions once they are answered.",
+      prompt: `${previousText}\n\nNew transcript:\n${transcript}`,
+      schema: summarySchema,
+    });
 
-    const data = JSON.parse(jsonText);
-    
     return {
-      ...data,
-      timestamp: new Date().toISOString()
+      overview: data.overview,
+      decisions: data.decisions,
+      openQuestions: data.openQuestions,
+      revision: (previous?.revision ?? 0) + 1,
+      updatedAt: new Date().toISOString()
     };
 
   } catch (error) {
-    console.error("Error organizing notes:", error);
+    console.error("Error updating meeting summary:", error);
     return null;
   }
-};
\ No newline at end of file
+};
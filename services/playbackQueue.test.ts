@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createPlaybackQueue, enqueuePlayback, flushPlayback, queuedPlaybackSeconds, setPlaybackRate, setPlaybackVolume } from './playbackQueue';
+
+const createFakeContext = () => {
+  const sources: { start: ReturnType<typeof vi.fn>; stop: ReturnType<typeof vi.fn>; playbackRate: { value: number } }[] = [];
+  const gain = { setTargetAtTime: vi.fn() };
+  const ctx = {
+    currentTime: 0,
+    destination: {},
+    createGain: () => ({ gain, connect: vi.fn() }),
+    createBufferSource: () => {
+      const source = { buffer: null, playbackRate: { value: 1 }, onended: null, connect: vi.fn(), start: vi.fn(), stop: vi.fn() };
+      sources.push(source);
+      return source;
+    },
+  };
+  return { ctx: ctx as unknown as AudioContext & { currentTime: number }, sources, gain };
+};
+
+const buffer = (duration: number) => ({ duration }) as AudioBuffer;
+
+describe('playbackQueue', () => {
+  it('schedules chunks back to back on a running cursor', () => {
+    const { ctx } = createFakeContext();
+    const queue = createPlaybackQueue(ctx);
+
+    expect(enqueuePlayback(queue, buffer(0.5))).toBeCloseTo(0.05);
+    expect(enqueuePlayback(queue, buffer(0.5))).toBeCloseTo(0.55);
+    expect(enqueuePlayback(queue, buffer(0.25))).toBeCloseTo(1.05);
+    expect(queue.sources.size).toBe(3);
+    expect(queuedPlaybackSeconds(queue)).toBeCloseTo(1.3);
+  });
+
+  it('starts from now again after playback has gone idle', () => {
+    const { ctx } = createFakeContext();
+    const queue = createPlaybackQueue(ctx);
+    enqueuePlayback(queue, buffer(0.5));
+
+    ctx.currentTime = 3;
+    expect(enqueuePlayback(queue, buffer(0.5))).toBeCloseTo(3.05);
+  });
+
+  it('flushes queued chunks on interruption', () => {
+    const { ctx, sources } = createFakeContext();
+    const queue = createPlaybackQueue(ctx);
+    enqueuePlayback(queue, buffer(1));
+    enqueuePlayback(queue, buffer(1));
+
+    flushPlayback(queue);
+    sources.forEach(source => expect(source.stop).toHaveBeenCalled());
+    expect(queue.sources.size).toBe(0);
+    expect(queuedPlaybackSeconds(queue)).toBe(0);
+
+    ctx.currentTime = 0.5;
+    expect(enqueuePlayback(queue, buffer(1))).toBeCloseTo(0.55);
+  });
+
+  it('applies speed to the schedule and clamps it', () => {
+    const { ctx, sources } = createFakeContext();
+    const queue = createPlaybackQueue(ctx);
+    setPlaybackRate(queue, 2);
+    enqueuePlayback(queue, buffer(1));
+    expect(sources[0].playbackRate.value).toBe(2);
+    expect(enqueuePlayback(queue, buffer(1))).toBeCloseTo(0.55);
+
+    setPlaybackRate(queue, 10);
+    expect(queue.rate).toBe(2);
+  });
+
+  it('ramps the output gain for volume changes', () => {
+    const { ctx, gain } = createFakeContext();
+    const queue = createPlaybackQueue(ctx);
+    setPlaybackVolume(queue, 0.3);
+    expect(gain.setTargetAtTime).toHaveBeenCalledWith(0.3, 0, expect.any(Number));
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Scheduler for the model's spoken replies.
+ *
+ * Audio arrives as many short chunks. Each one is scheduled on a running
+ * `nextStartTime` cursor, so chunks play back to back without gaps or overlap,
+ * and all of them go through one gain node for volume control. Interruptions
+ * stop everything still queued.
+ */
+
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+/** Delay before the first chunk after an idle period, so it is not scheduled in the past */
+const START_LEAD_SECONDS = 0.05;
+/** Time constant for volume changes, short enough to feel instant without clicks */
+const VOLUME_RAMP_SECONDS = 0.02;
+
+export interface PlaybackQueue {
+  ctx: AudioContext;
+  output: GainNode;
+  /** Context time at which the next chunk starts; 0 when nothing has been scheduled */
+  nextStartTime: number;
+  /** Speed applied to chunks as they are scheduled (pitch shifts with it) */
+  rate: number;
+  /** Chunks that are playing or scheduled */
+  sources: Set<AudioBufferSourceNode>;
+}
+
+export const createPlaybackQueue = (ctx: AudioContext, destination: AudioNode = ctx.destination): PlaybackQueue => {
+  const output = ctx.createGain();
+  output.connect(destination);
+  return { ctx, output, nextStartTime: 0, rate: 1, sources: new Set() };
+};
+
+/**
+ * Schedules a chunk right after the previous one, or shortly from now if
+ * playback has gone idle. Returns the context time it starts at.
+ */
+export const enqueuePlayback = (queue: PlaybackQueue, buffer: AudioBuffer): number => {
+  const source = queue.ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = queue.rate;
+  source.connect(queue.output);
+  source.onended = () => {
+    queue.sources.delete(source);
+  };
+
+  const startAt = Math.max(queue.nextStartTime, queue.ctx.currentTime + START_LEAD_SECONDS);
+  source.start(startAt);
+  queue.sources.add(source);
+  queue.nextStartTime = startAt + buffer.duration / queue.rate;
+  return startAt;
+};
+
+/**
+ * Stops the chunk that is playing and drops everything scheduled after it.
+ */
+export const flushPlayback = (queue: PlaybackQueue) => {
+  queue.sources.forEach(source => {
+    source.onended = null;
+    try {
+      source.stop();
+    } catch (e) { /* not started yet or already stopped */ }
+  });
+  queue.sources.clear();
+  queue.nextStartTime = 0;
+};
+
+/** Seconds of queued audio still to play */
+export const queuedPlaybackSeconds = (queue: PlaybackQueue): number =>
+  Math.max(0, queue.nextStartTime - queue.ctx.currentTime);
+
+export const setPlaybackVolume = (queue: PlaybackQueue, volume: number) => {
+  queue.output.gain.setTargetAtTime(Math.max(0, volume), queue.ctx.currentTime, VOLUME_RAMP_SECONDS);
+};
+
+/**
+ * Changes the speed of chunks scheduled from now on. Chunks already queued keep
+ * their speed, so the cursor they were scheduled on stays correct.
+ */
+export const setPlaybackRate = (queue: PlaybackQueue, rate: number) => {
+  queue.rate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+};
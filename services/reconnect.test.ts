@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  backoffDelay,
+  bufferOutageAudio,
+  createOutageBuffer,
+  drainOutageBuffer,
+  formatGapDuration,
+} from './reconnect';
+
+const chunk = (data: string) => ({ data, mimeType: 'audio/pcm;rate=16000' });
+
+describe('reconnect', () => {
+  it('backs off exponentially up to the cap', () => {
+    const options = { baseMs: 1000, maxMs: 10000, jitter: 0 };
+    expect([0, 1, 2, 3, 4, 10].map(n => backoffDelay(n, options))).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+  });
+
+  it('randomizes only the jitter fraction of the delay', () => {
+    const options = { baseMs: 1000, maxMs: 10000, jitter: 0.5 };
+    expect(backoffDelay(2, options, () => 0)).toBe(4000);
+    expect(backoffDelay(2, options, () => 1)).toBe(2000);
+    expect(backoffDelay(20, options, () => 0)).toBe(10000);
+  });
+
+  it('buffers outage audio and drops the oldest chunks beyond the limit', () => {
+    const buffer = createOutageBuffer(1000);
+    const start = new Date('2025-01-01T10:00:00Z');
+    ['a', 'b', 'c', 'd'].forEach(data => bufferOutageAudio(buffer, chunk(data), 400, start));
+
+    const drained = drainOutageBuffer(buffer);
+    expect(drained.chunks.map(c => c.data)).toEqual(['c', 'd']);
+    expect(drained.bufferedMs).toBe(800);
+    expect(drained.droppedMs).toBe(800);
+    expect(drained.startedAt).toEqual(start);
+
+    expect(drainOutageBuffer(buffer)).toEqual({ chunks: [], bufferedMs: 0, droppedMs: 0, startedAt: null });
+  });
+
+  it('formats gap durations', () => {
+    expect(formatGapDuration(200)).toBe('1s');
+    expect(formatGapDuration(12400)).toBe('12s');
+    expect(formatGapDuration(125000)).toBe('2m 5s');
+    expect(formatGapDuration(180000)).toBe('3m');
+  });
+});
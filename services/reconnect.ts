@@ -0,0 +1,88 @@
+import { Blob as PcmBlob } from '@google/genai';
+
+export interface BackoffOptions {
+  /** Delay before the first retry */
+  baseMs: number;
+  /** Upper bound for any single delay */
+  maxMs: number;
+  /** Fraction (0-1) of each delay that is randomized, so clients don't retry in lockstep */
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = { baseMs: 1000, maxMs: 30000, jitter: 0.5 };
+
+/** Retries before the session gives up and reports an error */
+export const MAX_RECONNECT_ATTEMPTS = 8;
+
+/** Audio kept while disconnected and replayed on reconnect; older audio becomes a gap */
+export const MAX_OUTAGE_BUFFER_MS = 15000;
+
+/**
+ * Delay before reconnection attempt `attempt` (0-based): exponential, capped,
+ * with the top `jitter` fraction randomized.
+ */
+export const backoffDelay = (attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random = Math.random): number => {
+  const capped = Math.min(options.maxMs, options.baseMs * 2 ** attempt);
+  return Math.round(capped * (1 - options.jitter * random()));
+};
+
+/**
+ * Audio captured while the live session is down. Holds at most `maxMs`;
+ * when full the oldest chunks are dropped and counted in `droppedMs`.
+ */
+export interface OutageBuffer {
+  chunks: { blob: PcmBlob; durationMs: number }[];
+  bufferedMs: number;
+  droppedMs: number;
+  maxMs: number;
+  /** When the first chunk was buffered, i.e. roughly when the connection dropped */
+  startedAt: Date | null;
+}
+
+export const createOutageBuffer = (maxMs = MAX_OUTAGE_BUFFER_MS): OutageBuffer => ({
+  chunks: [],
+  bufferedMs: 0,
+  droppedMs: 0,
+  maxMs,
+  startedAt: null,
+});
+
+export const bufferOutageAudio = (buffer: OutageBuffer, blob: PcmBlob, durationMs: number, now = new Date()): void => {
+  if (!buffer.startedAt) buffer.startedAt = now;
+  buffer.chunks.push({ blob, durationMs });
+  buffer.bufferedMs += durationMs;
+
+  while (buffer.bufferedMs > buffer.maxMs && buffer.chunks.length > 1) {
+    const dropped = buffer.chunks.shift()!;
+    buffer.bufferedMs -= dropped.durationMs;
+    buffer.droppedMs += dropped.durationMs;
+  }
+};
+
+/**
+ * Empties the buffer, returning the audio to replay and how much was lost.
+ * Dropped audio always precedes the replayed audio, so the gap starts at `startedAt`.
+ */
+export const drainOutageBuffer = (buffer: OutageBuffer) => {
+  const drained = {
+    chunks: buffer.chunks.map(c => c.blob),
+    bufferedMs: buffer.bufferedMs,
+    droppedMs: buffer.droppedMs,
+    startedAt: buffer.startedAt,
+  };
+  buffer.chunks = [];
+  buffer.bufferedMs = 0;
+  buffer.droppedMs = 0;
+  buffer.startedAt = null;
+  return drained;
+};
+
+/**
+ * Short human description of a gap, e.g. "12s" or "2m 5s".
+ */
+export const formatGapDuration = (ms: number): string => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const rest = seconds % 60;
+  return rest ? `${Math.floor(seconds / 60)}m ${rest}s` : `${seconds / 60}m`;
+};
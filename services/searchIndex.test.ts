@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, excerpt, findHighlights, indexSession, removeSessionFromIndex, searchIndex, tokenizeForSearch } from './searchIndex';
+import { Session } from '../types';
+
+const session = (id: string, startedAt: string, texts: string[], decisions: string[] = []): Session => ({
+  id,
+  name: id,
+  startedAt: new Date(startedAt),
+  audioConfig: { latencyMode: 'balanced', noiseGateThreshold: 0.01 },
+  segments: texts.map((text, i) => ({ id: `${id}-s${i}`, sender: 'user', text, timestamp: new Date(startedAt), isPartial: false })),
+  notes: decisions.length > 0 ? [{
+    id: `${id}-note`,
+    title: 'Notes',
+    summary: '',
+    topics: [],
+    actionItems: [],
+    decisions,
+    sentiment: 'neutral',
+    timestamp: startedAt,
+  }] : [],
+});
+
+describe('searchIndex', () => {
+  it('drops stop words and plural endings', () => {
+    expect(tokenizeForSearch('What did we decide about the prices?')).toEqual(['decide', 'price']);
+  });
+
+  it('ranks documents matching more query terms first', () => {
+    const index = createSearchIndex();
+    indexSession(index, session('a', '2025-03-01T10:00:00Z', ['Pricing is too high', 'The roadmap slipped'], ['Keep pricing flat for enterprise']));
+
+    const results = searchIndex(index, 'enterprise pricing');
+    expect(results[0].document).toMatchObject({ kind: 'note', field: 'Decisions', targetId: 'a-note' });
+    expect(results.map(r => r.document.targetId)).toContain('a-s0');
+    expect(results.map(r => r.document.targetId)).not.toContain('a-s1');
+  });
+
+  it('treats the last term as a prefix', () => {
+    const index = createSearchIndex();
+    indexSession(index, session('a', '2025-03-01T10:00:00Z', ['Pricing is too high']));
+    expect(searchIndex(index, 'pric')).toHaveLength(1);
+    expect(searchIndex(index, 'pric high')).toHaveLength(1);
+    expect(searchIndex(index, 'pric hig')).toHaveLength(1);
+  });
+
+  it('filters by date and forgets removed sessions', () => {
+    const index = createSearchIndex();
+    indexSession(index, session('old', '2025-01-01T10:00:00Z', ['pricing review']));
+    indexSession(index, session('new', '2025-03-01T10:00:00Z', ['pricing review']));
+
+    expect(searchIndex(index, 'pricing', { since: new Date('2025-02-01') }).map(r => r.document.sessionId)).toEqual(['new']);
+
+    removeSessionFromIndex(index, 'new');
+    expect(searchIndex(index, 'pricing').map(r => r.document.sessionId)).toEqual(['old']);
+    expect(index.postings.get('pricing')?.size).toBe(1);
+  });
+
+  it('re-indexing a session replaces its documents', () => {
+    const index = createSearchIndex();
+    indexSession(index, session('a', '2025-03-01T10:00:00Z', ['pricing']));
+    indexSession(index, session('a', '2025-03-01T10:00:00Z', ['pricing', 'pricing again']));
+    expect(index.documents.size).toBe(2);
+    expect(index.totalLength).toBe(3);
+  });
+
+  it('finds highlight ranges and excerpts around the first match', () => {
+    expect(findHighlights('New prices, same pricing.', ['price'])).toEqual([[4, 10]]);
+    const long = `${'filler '.repeat(40)}pricing ${'filler '.repeat(40)}`;
+    const snippet = excerpt(long, ['pricing'], 20);
+    expect(snippet).toContain('pricing');
+    expect(snippet.startsWith('…')).toBe(true);
+  });
+});
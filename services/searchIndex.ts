@@ -0,0 +1,241 @@
+import { Session } from "../types";
+import { getSpeakerName } from "./speakers";
+
+/**
+ * One searchable piece of text: a transcript segment or a single field of a note.
+ */
+export interface SearchDocument {
+  /** Unique across the library, e.g. "session-1:segment:abc" */
+  id: string;
+  sessionId: string;
+  sessionName: string;
+  kind: 'segment' | 'note';
+  /** Id of the segment or note to jump to */
+  targetId: string;
+  /** What was matched: "Transcript", or a note section such as "Decisions" */
+  field: string;
+  text: string;
+  timestamp: Date;
+  /** Display name of the speaker, for segments */
+  speaker?: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  /** Normalized query terms, used to highlight matches */
+  terms: string[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /** Only return documents from this moment onwards */
+  since?: Date;
+}
+
+/**
+ * Local inverted index over documents from every stored session.
+ * Build with `createSearchIndex`; mutate only through `indexSession` / `removeSessionFromIndex`.
+ */
+export interface SearchIndex {
+  documents: Map<string, SearchDocument>;
+  /** term -> document id -> term frequency */
+  postings: Map<string, Map<string, number>>;
+  /** Token count per document, for length normalization */
+  lengths: Map<string, number>;
+  totalLength: number;
+}
+
+// BM25 parameters; the usual defaults work well for short conversational text
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const DEFAULT_RESULT_LIMIT = 50;
+
+// Question words and fillers that would otherwise match most of a transcript
+const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'did', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'last', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+/**
+ * Reduces a word to its index form: lowercase, without a plural "s".
+ */
+const normalizeTerm = (word: string): string => {
+  const lower = word.toLowerCase();
+  return lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Splits text into normalized index terms, dropping stop words.
+ */
+export const tokenizeForSearch = (text: string): string[] =>
+  (text.match(WORD_PATTERN) ?? [])
+    .map(normalizeTerm)
+    .filter(term => !STOP_WORDS.has(term));
+
+/**
+ * Flattens a session into search documents: every segment plus every note section.
+ */
+export const buildSearchDocuments = (session: Session): SearchDocument[] => {
+  const base = { sessionId: session.id, sessionName: session.name };
+  const documents: SearchDocument[] = session.segments
+    .filter(segment => segment.text.trim())
+    .map(segment => ({
+      ...base,
+      id: `${session.id}:segment:${segment.id}`,
+      kind: 'segment',
+      targetId: segment.id,
+      field: 'Transcript',
+      text: segment.text.trim(),
+      timestamp: segment.timestamp,
+      speaker: getSpeakerName(segment, session.speakerNames),
+    }));
+
+  session.notes.forEach(note => {
+    const sections: [string, string][] = [
+      ['Title', note.title],
+      ['Summary', note.summary],
+      ['Topics', note.topics.join(', ')],
+      ['Action Items', note.actionItems.map(item => item.text).join('\n')],
+      ['Decisions', note.decisions.join('\n')],
+      ...(note.fields ?? []).map((field): [string, string] => [
+        field.label,
+        Array.isArray(field.value) ? field.value.join('\n') : field.value,
+      ]),
+    ];
+    sections
+      .filter(([, text]) => text.trim())
+      .forEach(([field, text]) => documents.push({
+        ...base,
+        id: `${session.id}:note:${note.id}:${field}`,
+        kind: 'note',
+        targetId: note.id,
+        field,
+        text,
+        timestamp: new Date(note.timestamp),
+      }));
+  });
+
+  return documents;
+};
+
+export const createSearchIndex = (): SearchIndex => ({
+  documents: new Map(),
+  postings: new Map(),
+  lengths: new Map(),
+  totalLength: 0,
+});
+
+/**
+ * Drops every document belonging to a session from the index.
+ */
+export const removeSessionFromIndex = (index: SearchIndex, sessionId: string): void => {
+  index.documents.forEach((document, id) => {
+    if (document.sessionId !== sessionId) return;
+    index.documents.delete(id);
+    index.totalLength -= index.lengths.get(id) ?? 0;
+    index.lengths.delete(id);
+  });
+  index.postings.forEach((docs, term) => {
+    docs.forEach((_, id) => {
+      if (!index.documents.has(id)) docs.delete(id);
+    });
+    if (docs.size === 0) index.postings.delete(term);
+  });
+};
+
+/**
+ * Adds (or re-indexes) a session. Previous documents for the session are replaced.
+ */
+export const indexSession = (index: SearchIndex, session: Session): void => {
+  removeSessionFromIndex(index, session.id);
+
+  buildSearchDocuments(session).forEach(document => {
+    const terms = tokenizeForSearch(document.text);
+    index.documents.set(document.id, document);
+    index.lengths.set(document.id, terms.length);
+    index.totalLength += terms.length;
+
+    terms.forEach(term => {
+      const docs = index.postings.get(term) ?? new Map<string, number>();
+      docs.set(document.id, (docs.get(document.id) ?? 0) + 1);
+      index.postings.set(term, docs);
+    });
+  });
+};
+
+/**
+ * Index terms a query term should match. The last query term is treated as a prefix
+ * so results update while the user is still typing.
+ */
+const expandTerm = (index: SearchIndex, term: string, isPrefix: boolean): string[] => {
+  if (!isPrefix) return index.postings.has(term) ? [term] : [];
+  return Array.from(index.postings.keys()).filter(candidate => candidate.startsWith(term));
+};
+
+/**
+ * Ranks documents against a keyword query using BM25.
+ * Documents matching more distinct query terms always rank above those matching fewer.
+ */
+export const searchIndex = (index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] => {
+  const terms = tokenizeForSearch(query);
+  if (terms.length === 0 || index.documents.size === 0) return [];
+
+  const averageLength = index.totalLength / index.documents.size || 1;
+  const scores = new Map<string, { score: number; matched: number }>();
+
+  terms.forEach((term, i) => {
+    expandTerm(index, term, i === terms.length - 1).forEach(indexTerm => {
+      const docs = index.postings.get(indexTerm)!;
+      const idf = Math.log(1 + (index.documents.size - docs.size + 0.5) / (docs.size + 0.5));
+
+      docs.forEach((frequency, id) => {
+        const length = index.lengths.get(id) ?? 0;
+        const weight = idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+        const entry = scores.get(id) ?? { score: 0, matched: 0 };
+        entry.score += weight;
+        entry.matched++;
+        scores.set(id, entry);
+      });
+    });
+  });
+
+  return Array.from(scores.entries())
+    .map(([id, { score, matched }]) => ({ document: index.documents.get(id)!, score: matched * 1000 + score, terms }))
+    .filter(result => !options.since || result.document.timestamp >= options.since)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_RESULT_LIMIT);
+};
+
+/**
+ * Character ranges of words in `text` that match any of the (normalized) terms,
+ * including prefix matches, for highlighting.
+ */
+export const findHighlights = (text: string, terms: string[]): [number, number][] => {
+  if (terms.length === 0) return [];
+  const ranges: [number, number][] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = normalizeTerm(match[0]);
+    if (terms.some(term => word.startsWith(term))) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  return ranges;
+};
+
+/**
+ * Cuts long text down to a window around the first highlighted match.
+ */
+export const excerpt = (text: string, terms: string[], radius = 80): string => {
+  if (text.length <= radius * 2) return text;
+  const [first] = findHighlights(text, terms);
+  const center = first ? first[0] : 0;
+  const start = Math.max(0, center - radius);
+  const end = Math.min(text.length, center + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import { cosineSimilarity, EmbeddingProvider, semanticSearch } from './semanticSearch';
+import { SearchDocument } from './searchIndex';
+
+const document = (id: string, text: string): SearchDocument => ({
+  id,
+  sessionId: 's',
+  sessionName: 's',
+  kind: 'segment',
+  targetId: id,
+  field: 'Transcript',
+  text,
+  timestamp: new Date('2025-03-01T10:00:00Z'),
+});
+
+// Toy embedding: [mentions money, mentions schedule]
+const fakeProvider = (): EmbeddingProvider => ({
+  id: 'fake',
+  embed: vi.fn(async (texts: string[]) =>
+    texts.map(text => [/pric|charge|\$/i.test(text) ? 1 : 0, /deadline|friday/i.test(text) ? 1 : 0])
+  ),
+});
+
+describe('semanticSearch', () => {
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+  });
+
+  it('ranks by meaning and only embeds uncached documents', async () => {
+    const provider = fakeProvider();
+    const cache = new Map<string, number[]>();
+    const documents = [document('a', "We'll charge $20 per seat"), document('b', 'Ship it by Friday')];
+
+    const results = await semanticSearch('what did we decide about pricing', documents, provider, cache);
+    expect(results.map(r => r.document.id)).toEqual(['a']);
+
+    await semanticSearch('pricing', documents, provider, cache);
+    // Documents once, then only the query on the second search
+    expect(provider.embed).toHaveBeenCalledTimes(3);
+    expect((provider.embed as ReturnType<typeof vi.fn>).mock.calls[2][0]).toEqual(['pricing']);
+  });
+});
@@ -0,0 +1,103 @@
+import { GoogleGenAI } from "@google/genai";
+import { SearchDocument, SearchResult, SearchOptions, tokenizeForSearch } from "./searchIndex";
+
+/**
+ * Turns text into embedding vectors. Implement this to plug in another model
+ * (a local one, or a different API) for semantic search.
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier; cached vectors are only reused for the same provider */
+  id: string;
+  /** Returns one vector per input text, in order */
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+/**
+ * Vectors already computed, keyed by provider, document and text.
+ * Kept by the caller so re-running a search does not re-embed the library.
+ */
+export type EmbeddingCache = Map<string, number[]>;
+
+// Gemini accepts up to 100 texts per embedding request
+const EMBED_BATCH_SIZE = 100;
+
+/** Results below this cosine similarity are treated as unrelated */
+const MIN_SIMILARITY = 0.55;
+
+const DEFAULT_RESULT_LIMIT = 20;
+
+/**
+ * Embedding provider backed by the Gemini embedding model.
+ *
+ * @param apiKey - The Google Generative AI API Key.
+ */
+export const createGeminiEmbeddingProvider = (apiKey: string): EmbeddingProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini-embedding-001',
+    embed: async (texts) => {
+      const response = await ai.models.embedContent({
+        model: 'gemini-embedding-001',
+        contents: texts,
+        config: { taskType: 'SEMANTIC_SIMILARITY' },
+      });
+      return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+    },
+  };
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Text is part of the key so edited segments are re-embedded
+const cacheKey = (provider: EmbeddingProvider, document: SearchDocument) =>
+  `${provider.id}\u0000${document.id}\u0000${document.text}`;
+
+/**
+ * Ranks documents by meaning rather than exact words, so "what did we decide about pricing"
+ * also finds "we'll charge $20 per seat". Only documents missing from the cache are embedded.
+ */
+export const semanticSearch = async (
+  query: string,
+  documents: SearchDocument[],
+  provider: EmbeddingProvider,
+  cache: EmbeddingCache,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> => {
+  if (!query.trim()) return [];
+  const candidates = options.since ? documents.filter(d => d.timestamp >= options.since!) : documents;
+  if (candidates.length === 0) return [];
+
+  const missing = candidates.filter(document => !cache.has(cacheKey(provider, document)));
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const vectors = await provider.embed(batch.map(document => document.text));
+    batch.forEach((document, j) => {
+      if (vectors[j]) cache.set(cacheKey(provider, document), vectors[j]);
+    });
+  }
+
+  const [queryVector] = await provider.embed([query]);
+  if (!queryVector) return [];
+  const terms = tokenizeForSearch(query);
+
+  return candidates
+    .map(document => ({
+      document,
+      score: cosineSimilarity(queryVector, cache.get(cacheKey(provider, document)) ?? []),
+      terms,
+    }))
+    .filter(result => result.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_RESULT_LIMIT);
+};
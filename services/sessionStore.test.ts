@@ -0,0 +1,68 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import {
+  createSession,
+  deleteSession,
+  getRecording,
+  getSession,
+  listSessions,
+  renameSession,
+  saveRecording,
+  saveSession,
+} from './sessionStore';
+import { AudioConfig, SessionRecording } from '../types';
+
+const audioConfig: AudioConfig = { latencyMode: 'interactive', noiseGateThreshold: 0.01 };
+
+const recording = (id: string, sessionId: string): SessionRecording => ({
+  id,
+  sessionId,
+  blob: new Blob(['audio'], { type: 'audio/webm' }),
+  mimeType: 'audio/webm',
+  startedAt: new Date(),
+  durationMs: 1000,
+});
+
+describe('sessionStore', () => {
+  it('saves, lists, loads, renames and deletes a session', async () => {
+    const session = {
+      ...createSession(audioConfig),
+      id: 'session-1',
+      segments: [{ id: 's1', sender: 'user' as const, text: 'Hello', timestamp: new Date(1000), isPartial: false }],
+    };
+    await saveSession(session);
+
+    expect(await listSessions()).toEqual([
+      { id: 'session-1', name: session.name, startedAt: session.startedAt, endedAt: undefined, segmentCount: 1, noteCount: 0 },
+    ]);
+    const loaded = await getSession('session-1');
+    expect(loaded?.segments[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded?.segments[0].text).toBe('Hello');
+
+    await renameSession('session-1', 'Standup');
+    expect((await getSession('session-1'))?.name).toBe('Standup');
+    await renameSession('missing', 'Nothing');
+    expect(await listSessions()).toHaveLength(1);
+
+    await deleteSession('session-1');
+    expect(await getSession('session-1')).toBeNull();
+    expect(await listSessions()).toEqual([]);
+  });
+
+  it('keeps recordings per session and deletes them with their session', async () => {
+    await saveSession({ ...createSession(audioConfig), id: 'session-a' });
+    await saveSession({ ...createSession(audioConfig), id: 'session-b' });
+    await saveRecording(recording('rec-2', 'session-a'));
+    await saveRecording(recording('rec-1', 'session-a'));
+    await saveRecording(recording('rec-3', 'session-b'));
+
+    expect((await getRecording('rec-1'))?.sessionId).toBe('session-a');
+    expect((await getRecording('rec-3'))?.sessionId).toBe('session-b');
+    expect(await getRecording('missing')).toBeNull();
+
+    await deleteSession('session-a');
+    expect(await getRecording('rec-1')).toBeNull();
+    expect(await getRecording('rec-2')).toBeNull();
+    expect((await getRecording('rec-3'))?.sessionId).toBe('session-b');
+  });
+});
@@ -0,0 +1,203 @@
+import { AudioConfig, GlossaryTerm, NoteTemplate, Session, SessionRecording, SessionSummary } from "../types";
+import { normalizeNote } from "./actionItems";
+
+const DB_NAME = 'vibenote';
+const DB_VERSION = 4;
+const SESSION_STORE = 'sessions';
+const RECORDING_STORE = 'recordings';
+const TEMPLATE_STORE = 'templates';
+const GLOSSARY_STORE = 'glossary';
+
+type StoreName = typeof SESSION_STORE | typeof RECORDING_STORE | typeof TEMPLATE_STORE | typeof GLOSSARY_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily upgrades) the VibeNote IndexedDB database.
+ * The connection is cached so every store call shares a single handle.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+      // v2: locally recorded input audio, looked up by owning session
+      if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+        const store = db.createObjectStore(RECORDING_STORE, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId');
+      }
+      // v3: user-defined note templates
+      if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+        db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+      }
+      // v4: team glossary of names and terms
+      if (!db.objectStoreNames.contains(GLOSSARY_STORE)) {
+        db.createObjectStore(GLOSSARY_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Allow a later call to retry instead of caching the failure forever
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps a single-store IndexedDB request in a promise.
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: StoreName = SESSION_STORE
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Builds a fresh, empty session. Not persisted until passed to `saveSession`.
+ */
+export const createSession = (audioConfig: AudioConfig): Session => {
+  const startedAt = new Date();
+  return {
+    id: `session-${startedAt.getTime()}`,
+    name: `Session ${startedAt.toLocaleString()}`,
+    startedAt,
+    segments: [],
+    notes: [],
+    audioConfig,
+  };
+};
+
+/**
+ * Inserts or replaces a session. Dates survive via IndexedDB's structured clone.
+ */
+export const saveSession = async (session: Session): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(session));
+};
+
+/**
+ * Loads a full session (segments and notes included), or null if it does not exist.
+ */
+export const getSession = async (id: string): Promise<Session | null> => {
+  const session = await withStore<Session | undefined>('readonly', (store) => store.get(id));
+  // Sessions saved by older versions may predate note ids and structured action items
+  return session ? { ...session, notes: session.notes.map(normalizeNote) } : null;
+};
+
+/**
+ * Lists all stored sessions, newest first, without their heavy payloads.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const sessions = await withStore<Session[]>('readonly', (store) => store.getAll());
+  return sessions
+    .map((s) => ({
+      id: s.id,
+      name: s.name,
+      startedAt: s.startedAt,
+      endedAt: s.endedAt,
+      segmentCount: s.segments.length,
+      noteCount: s.notes.length,
+    }))
+    .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+};
+
+/**
+ * Renames a stored session. No-op if the session no longer exists.
+ */
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name });
+};
+
+/**
+ * Permanently removes a session and its recordings from the library.
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+  const recordingKeys = await withStore<IDBValidKey[]>(
+    'readonly',
+    (store) => store.index('sessionId').getAllKeys(id),
+    RECORDING_STORE
+  );
+  for (const key of recordingKeys) {
+    await withStore('readwrite', (store) => store.delete(key), RECORDING_STORE);
+  }
+};
+
+/**
+ * Stores a finished recording of a session's processed input audio.
+ */
+export const saveRecording = async (recording: SessionRecording): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(recording), RECORDING_STORE);
+};
+
+/**
+ * Loads a recording by id, or null if it was never saved (e.g. recording unsupported).
+ */
+export const getRecording = async (id: string): Promise<SessionRecording | null> => {
+  const recording = await withStore<SessionRecording | undefined>('readonly', (store) => store.get(id), RECORDING_STORE);
+  return recording ?? null;
+};
+
+/**
+ * Lists the user's custom note templates. Built-in templates are not stored.
+ */
+export const listTemplates = async (): Promise<NoteTemplate[]> => {
+  const templates = await withStore<NoteTemplate[]>('readonly', (store) => store.getAll(), TEMPLATE_STORE);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Inserts or replaces a custom note template.
+ */
+export const saveTemplate = async (template: NoteTemplate): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(template), TEMPLATE_STORE);
+};
+
+/**
+ * Removes a custom note template. Notes already extracted with it keep their fields.
+ */
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id), TEMPLATE_STORE);
+};
+
+/**
+ * Lists the glossary terms, alphabetically.
+ */
+export const listGlossary = async (): Promise<GlossaryTerm[]> => {
+  const terms = await withStore<GlossaryTerm[]>('readonly', (store) => store.getAll(), GLOSSARY_STORE);
+  return terms.sort((a, b) => a.term.localeCompare(b.term));
+};
+
+/**
+ * Inserts or replaces a glossary term.
+ */
+export const saveGlossaryTerm = async (term: GlossaryTerm): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(term), GLOSSARY_STORE);
+};
+
+/**
+ * Removes a glossary term. Transcripts it already corrected keep the correction.
+ */
+export const deleteGlossaryTerm = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id), GLOSSARY_STORE);
+};
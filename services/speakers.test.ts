@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { attributeSource, updateSourceEnergy, getSpeakerName, formatAttributedTranscript, EMPTY_SOURCE_ENERGY } from './speakers';
+import { TranscriptSegment } from '../types';
+
+const segment = (overrides: Partial<TranscriptSegment>): TranscriptSegment => ({
+  id: '1',
+  sender: 'user',
+  text: 'Hello',
+  timestamp: new Date(),
+  isPartial: false,
+  ...overrides,
+});
+
+describe('speakers', () => {
+  it('attributes to the mic when channels are silent or balanced', () => {
+    expect(attributeSource(EMPTY_SOURCE_ENERGY)).toBe('mic');
+    expect(attributeSource({ mic: 0.1, system: 0.11 })).toBe('mic');
+  });
+
+  it('attributes to system audio once it dominates the smoothed energy', () => {
+    let energy = EMPTY_SOURCE_ENERGY;
+    for (let i = 0; i < 20; i++) {
+      energy = updateSourceEnergy(energy, 0.01, 0.2, 80);
+    }
+    expect(attributeSource(energy)).toBe('system');
+  });
+
+  it('smooths over the same time span whatever the chunk length', () => {
+    const after = (chunkMs: number, totalMs: number) => {
+      let energy = { mic: 1, system: 0 };
+      for (let t = 0; t < totalMs; t += chunkMs) energy = updateSourceEnergy(energy, 0, 0, chunkMs);
+      return energy.mic;
+    };
+    expect(after(80, 960)).toBeCloseTo(after(160, 960), 10);
+    expect(after(320, 960)).toBeCloseTo(after(80, 960), 10);
+  });
+
+  it('resolves display names from edited names, labels and channels', () => {
+    expect(getSpeakerName(segment({ source: 'mic' }))).toBe('Me');
+    expect(getSpeakerName(segment({ source: 'system' }))).toBe('Remote');
+    expect(getSpeakerName(segment({ speaker: 'Speaker A' }))).toBe('Speaker A');
+    expect(getSpeakerName(segment({ speaker: 'Speaker A' }), { 'Speaker A': 'Priya' })).toBe('Priya');
+    expect(getSpeakerName(segment({ sender: 'model' }))).toBe('Assistant');
+  });
+
+  it('formats an attributed transcript one line per segment', () => {
+    const text = formatAttributedTranscript([
+      segment({ source: 'mic', text: 'I will send the deck' }),
+      segment({ source: 'system', text: ' Thanks ' }),
+    ]);
+    expect(text).toBe('Me: I will send the deck\nRemote: Thanks');
+  });
+});
@@ -0,0 +1,62 @@
+import { AudioSource, TranscriptSegment } from "../types";
+
+/**
+ * Smoothed per-source signal energy used to decide who is speaking.
+ */
+export interface SourceEnergy {
+  mic: number;
+  system: number;
+}
+
+/**
+ * Time constant of the energy smoothing. About 0.8s of memory, which roughly
+ * matches the lag between speech and its transcription arriving. Chunk length
+ * depends on the latency mode, so the per-chunk decay is derived from it.
+ */
+export const SOURCE_ENERGY_TAU_MS = 800;
+
+/**
+ * How much louder the system channel must be before a segment is attributed to it.
+ * Biased towards the mic because echo of remote speech leaks into it less than the reverse.
+ */
+const SYSTEM_DOMINANCE_RATIO = 1.2;
+
+export const EMPTY_SOURCE_ENERGY: SourceEnergy = { mic: 0, system: 0 };
+
+/**
+ * Folds the RMS of the latest chunk, `chunkMs` long, into the running per-source energy.
+ */
+export function updateSourceEnergy(prev: SourceEnergy, micRms: number, systemRms: number, chunkMs: number): SourceEnergy {
+  const decay = Math.exp(-chunkMs / SOURCE_ENERGY_TAU_MS);
+  return {
+    mic: prev.mic * decay + micRms * (1 - decay),
+    system: prev.system * decay + systemRms * (1 - decay),
+  };
+}
+
+/**
+ * Picks the channel that was dominant over the recent window.
+ */
+export function attributeSource(energy: SourceEnergy): AudioSource {
+  return energy.system > energy.mic * SYSTEM_DOMINANCE_RATIO ? 'system' : 'mic';
+}
+
+/**
+ * Resolves the display name for a segment.
+ * Order: user-edited name for the diarized label, the label itself, then the capture channel.
+ */
+export function getSpeakerName(segment: TranscriptSegment, speakerNames: Record<string, string> = {}): string {
+  if (segment.sender === 'model') return 'Assistant';
+  if (segment.speaker) return speakerNames[segment.speaker] || segment.speaker;
+  return segment.source === 'system' ? 'Remote' : 'Me';
+}
+
+/**
+ * Renders segments as "Speaker: text" lines so the organizer can attribute items to people.
+ */
+export function formatAttributedTranscript(segments: TranscriptSegment[], speakerNames: Record<string, string> = {}): string {
+  return segments
+    .filter(s => s.text.trim())
+    .map(s => `${getSpeakerName(s, speakerNames)}: ${s.text.trim()}`)
+    .join('\n');
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deleteSegment,
+  editSegmentText,
+  flagOutdatedNotes,
+  getPendingTranscript,
+  markAllOrganized,
+  mergeWithNext,
+  remapOrganizedOffsets,
+  splitSegment,
+  undoEdit,
+} from './transcriptEditing';
+import { OrganizedNote, TranscriptSegment } from '../types';
+
+const segment = (id: string, text: string, overrides: Partial<TranscriptSegment> = {}): TranscriptSegment => ({
+  id,
+  sender: 'user',
+  text,
+  timestamp: new Date(2025, 0, 1, 10, 0, Number(id)),
+  isPartial: false,
+  source: 'mic',
+  ...overrides,
+});
+
+const note = (segmentIds: string[]): OrganizedNote => ({
+  id: 'note-1',
+  title: 'Budget',
+  summary: '',
+  topics: [],
+  actionItems: [],
+  decisions: [],
+  sentiment: 'neutral',
+  timestamp: '2025-01-01T10:00:00.000Z',
+  segmentIds,
+});
+
+describe('transcriptEditing', () => {
+  it('returns only text the organizer has not seen, including growth of streaming segments', () => {
+    const segments = [segment('1', 'Hello there'), segment('2', 'We need a budget', { source: 'system', isPartial: true })];
+    const first = getPendingTranscript(segments, {});
+    expect(first.text).toBe('Me: Hello there\nRemote: We need a budget');
+    expect(first.segmentIds).toEqual(['1', '2']);
+
+    const grown = [segments[0], { ...segments[1], text: 'We need a budget by Friday' }];
+    const second = getPendingTranscript(grown, first.offsets);
+    expect(second.text).toBe('Remote: by Friday');
+    expect(second.segmentIds).toEqual(['2']);
+
+    expect(getPendingTranscript(grown, markAllOrganized(grown)).text).toBe('');
+  });
+
+  it('edits text and ignores no-op or streaming edits', () => {
+    const segments = [segment('1', 'the bujet is approved'), segment('2', 'still talking', { isPartial: true })];
+    const result = editSegmentText(segments, '1', ' the budget is approved ');
+    expect(result?.segments[0].text).toBe('the budget is approved');
+    expect(result?.edit).toMatchObject({ kind: 'edit', before: [segments[0]], afterIds: ['1'] });
+
+    expect(editSegmentText(segments, '1', 'the bujet is approved')).toBeNull();
+    expect(editSegmentText(segments, '2', 'changed')).toBeNull();
+  });
+
+  it('splits and merges segments in place', () => {
+    const segments = [segment('1', 'Ship it. Agreed, ship it.'), segment('2', 'Next topic')];
+    const split = splitSegment(segments, '1', 8)!;
+    expect(split.segments.map(s => s.text)).toEqual(['Ship it.', 'Agreed, ship it.', 'Next topic']);
+    expect(split.edit.afterIds).toHaveLength(2);
+    expect(splitSegment(segments, '1', 0)).toBeNull();
+
+    const merged = mergeWithNext(split.segments, '1')!;
+    expect(merged.segments.map(s => s.text)).toEqual(['Ship it. Agreed, ship it.', 'Next topic']);
+    expect(mergeWithNext([segment('1', 'a'), segment('2', 'b', { sender: 'model' })], '1')).toBeNull();
+  });
+
+  it('undoes edits, including deletes', () => {
+    const segments = [segment('1', 'one'), segment('2', 'two'), segment('3', 'three')];
+    const deleted = deleteSegment(segments, '2')!;
+    expect(deleted.segments.map(s => s.id)).toEqual(['1', '3']);
+    expect(undoEdit(deleted.segments, deleted.edit)).toEqual(segments);
+
+    const split = splitSegment(segments, '3', 2)!;
+    expect(undoEdit(split.segments, split.edit)).toEqual(segments);
+  });
+
+  it('keeps organized text organized across an edit, and re-queues unorganized text', () => {
+    const segments = [segment('1', 'the bujet'), segment('2', 'more')];
+    const organized = markAllOrganized(segments);
+    const edit = editSegmentText(segments, '1', 'the budget')!;
+    const after = edit.segments.filter(s => edit.edit.afterIds.includes(s.id));
+
+    const kept = remapOrganizedOffsets(organized, edit.edit.before, after);
+    expect(getPendingTranscript(edit.segments, kept).text).toBe('');
+
+    const requeued = remapOrganizedOffsets({}, edit.edit.before, after);
+    expect(getPendingTranscript(edit.segments, requeued).text).toBe('Me: the budget\nMe: more');
+  });
+
+  it('flags notes written from edited segments as outdated', () => {
+    const notes = [note(['1', '2']), { ...note(['3']), id: 'note-2' }];
+    const flagged = flagOutdatedNotes(notes, ['2'], ['2', '2-split']);
+    expect(flagged[0]).toMatchObject({ outdated: true, segmentIds: ['1', '2', '2-split'] });
+    expect(flagged[1]).toBe(notes[1]);
+
+    expect(flagOutdatedNotes(notes, ['3'], [])[1]).toMatchObject({ outdated: true, segmentIds: [] });
+  });
+});
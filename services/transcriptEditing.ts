@@ -0,0 +1,191 @@
+import { OrganizedNote, TranscriptEdit, TranscriptSegment } from "../types";
+import { getSpeakerName } from "./speakers";
+
+/**
+ * Corrections to the transcript feed, and the bookkeeping that keeps the
+ * organizer in step with them.
+ *
+ * Every edit replaces a contiguous run of segments with new ones and records
+ * what it replaced, so it can be undone and so notes written from the old text
+ * can be flagged as outdated.
+ */
+
+/** Characters of each segment's text that have already gone to the organizer, by segment id */
+export type OrganizedOffsets = Record<string, number>;
+
+export interface PendingTranscript {
+  /** "Speaker: text" lines the organizer has not seen yet */
+  text: string;
+  /** Segments that contributed to `text` */
+  segmentIds: string[];
+  /** Offsets to store once `text` has been organized */
+  offsets: OrganizedOffsets;
+}
+
+export interface TranscriptEditResult {
+  segments: TranscriptSegment[];
+  edit: TranscriptEdit;
+}
+
+/**
+ * Collects the text added to each segment since it was last organized.
+ * Segments that are still streaming contribute what they have so far.
+ */
+export function getPendingTranscript(
+  segments: TranscriptSegment[],
+  offsets: OrganizedOffsets,
+  speakerNames: Record<string, string> = {}
+): PendingTranscript {
+  const lines: string[] = [];
+  const segmentIds: string[] = [];
+  const nextOffsets: OrganizedOffsets = { ...offsets };
+
+  segments.forEach(segment => {
+    const tail = segment.text.slice(offsets[segment.id] ?? 0).trim();
+    if (!tail) return;
+    lines.push(`${getSpeakerName(segment, speakerNames)}: ${tail}`);
+    segmentIds.push(segment.id);
+    nextOffsets[segment.id] = segment.text.length;
+  });
+
+  return { text: lines.join('\n'), segmentIds, offsets: nextOffsets };
+}
+
+/** Offsets for a transcript that has been organized as a whole, e.g. a reopened session */
+export function markAllOrganized(segments: TranscriptSegment[]): OrganizedOffsets {
+  return Object.fromEntries(segments.map(s => [s.id, s.text.length]));
+}
+
+const isEditable = (segment: TranscriptSegment | undefined): segment is TranscriptSegment =>
+  !!segment && !segment.isPartial && segment.gapMs === undefined;
+
+/** Swaps the run starting at `before[0]` for `after`, leaving everything else in place */
+const replaceRun = (segments: TranscriptSegment[], before: TranscriptSegment[], after: TranscriptSegment[]) => {
+  const index = segments.findIndex(s => s.id === before[0].id);
+  const removed = new Set(before.map(s => s.id));
+  return [
+    ...segments.slice(0, index),
+    ...after,
+    ...segments.slice(index).filter(s => !removed.has(s.id)),
+  ];
+};
+
+const applyEdit = (
+  segments: TranscriptSegment[],
+  kind: TranscriptEdit['kind'],
+  before: TranscriptSegment[],
+  after: TranscriptSegment[]
+): TranscriptEditResult => ({
+  segments: replaceRun(segments, before, after),
+  edit: {
+    id: `edit-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    editedAt: new Date().toISOString(),
+    before,
+    afterIds: after.map(s => s.id),
+  },
+});
+
+/**
+ * Replaces a segment's text. Returns null when nothing changed, or when the
+ * text was cleared (use `deleteSegment` for that).
+ */
+export function editSegmentText(segments: TranscriptSegment[], id: string, text: string): TranscriptEditResult | null {
+  const segment = segments.find(s => s.id === id);
+  const trimmed = text.trim();
+  if (!isEditable(segment) || !trimmed || trimmed === segment.text.trim()) return null;
+  return applyEdit(segments, 'edit', [segment], [{ ...segment, text: trimmed }]);
+}
+
+/**
+ * Splits a segment in two at a character position, e.g. where a second speaker
+ * started talking. Both halves keep the original's speaker and timing.
+ */
+export function splitSegment(segments: TranscriptSegment[], id: string, at: number): TranscriptEditResult | null {
+  const segment = segments.find(s => s.id === id);
+  if (!isEditable(segment)) return null;
+  const head = segment.text.slice(0, at).trim();
+  const tail = segment.text.slice(at).trim();
+  if (!head || !tail) return null;
+  return applyEdit(segments, 'split', [segment], [
+    { ...segment, text: head },
+    { ...segment, id: `${segment.id}-split-${Date.now()}`, text: tail },
+  ]);
+}
+
+/** Whether the segment at `index` and the one after it can be merged */
+export function canMergeWithNext(segments: TranscriptSegment[], index: number): boolean {
+  const first = segments[index];
+  const second = segments[index + 1];
+  return isEditable(first) && isEditable(second) && first.sender === second.sender;
+}
+
+/**
+ * Joins a segment with the one after it. Only segments from the same side of the
+ * conversation can be merged; the result keeps the first one's id and speaker.
+ */
+export function mergeWithNext(segments: TranscriptSegment[], id: string): TranscriptEditResult | null {
+  const index = segments.findIndex(s => s.id === id);
+  if (index < 0 || !canMergeWithNext(segments, index)) return null;
+  const first = segments[index];
+  const second = segments[index + 1];
+  return applyEdit(segments, 'merge', [first, second], [
+    { ...first, text: `${first.text.trim()} ${second.text.trim()}` },
+  ]);
+}
+
+export function deleteSegment(segments: TranscriptSegment[], id: string): TranscriptEditResult | null {
+  const segment = segments.find(s => s.id === id);
+  if (!isEditable(segment)) return null;
+  return applyEdit(segments, 'delete', [segment], []);
+}
+
+/**
+ * Puts back the segments an edit replaced. Deleted segments return to the
+ * position of the first segment with a later timestamp.
+ */
+export function undoEdit(segments: TranscriptSegment[], edit: TranscriptEdit): TranscriptSegment[] {
+  const afterIds = new Set(edit.afterIds);
+  const index = edit.afterIds.length > 0
+    ? segments.findIndex(s => afterIds.has(s.id))
+    : segments.findIndex(s => s.timestamp.getTime() > edit.before[0].timestamp.getTime());
+  const remaining = segments.filter(s => !afterIds.has(s.id));
+  const at = index < 0 ? remaining.length : Math.min(index, remaining.length);
+  return [...remaining.slice(0, at), ...edit.before, ...remaining.slice(at)];
+}
+
+/**
+ * Carries organized offsets across an edit. Text replacing fully organized
+ * segments counts as organized (the notes are flagged outdated instead);
+ * anything touching unorganized text goes back to the organizer whole.
+ */
+export function remapOrganizedOffsets(
+  offsets: OrganizedOffsets,
+  before: TranscriptSegment[],
+  after: TranscriptSegment[]
+): OrganizedOffsets {
+  const organized = before.every(s => (offsets[s.id] ?? 0) >= s.text.length);
+  const next = { ...offsets };
+  before.forEach(s => delete next[s.id]);
+  after.forEach(s => {
+    next[s.id] = organized ? s.text.length : 0;
+  });
+  return next;
+}
+
+/**
+ * Flags notes written from any of `fromIds` as outdated and points them at the
+ * segments that replaced them.
+ */
+export function flagOutdatedNotes(notes: OrganizedNote[], fromIds: string[], toIds: string[]): OrganizedNote[] {
+  const replaced = new Set(fromIds);
+  return notes.map(note => {
+    if (!note.segmentIds?.some(id => replaced.has(id))) return note;
+    const segmentIds: string[] = [];
+    note.segmentIds.forEach(id => {
+      if (!replaced.has(id)) segmentIds.push(id);
+      else segmentIds.push(...toIds.filter(t => !segmentIds.includes(t)));
+    });
+    return { ...note, segmentIds, outdated: true };
+  });
+}
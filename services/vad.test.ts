@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFrame, createVad, processVad, VAD_FRAME_SIZE, VadBlock } from './vad';
+
+const RATE = 16000;
+const samples = (ms: number) => Math.round(RATE * ms / 1000);
+
+/** Voiced-speech stand-in: harmonics of a 180Hz fundamental */
+const voiced = (ms: number, amplitude = 0.1) =>
+  Float32Array.from({ length: samples(ms) }, (_, i) => {
+    let v = 0;
+    for (let k = 1; k * 180 < 3500; k++) v += Math.sin(2 * Math.PI * 180 * k * i / RATE) / k;
+    return v * amplitude;
+  });
+
+/** Deterministic white noise, like a fan or air conditioning */
+const noise = (ms: number, amplitude: number, seed = 1) => {
+  let state = seed;
+  return Float32Array.from({ length: samples(ms) }, () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return (state / 0x7fffffff * 2 - 1) * amplitude;
+  });
+};
+
+const silence = (ms: number) => new Float32Array(samples(ms));
+
+const concat = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const speechMs = (blocks: VadBlock[]) =>
+  blocks.filter(b => b.speech).reduce((n, b) => n + b.samples.length, 0) / RATE * 1000;
+
+describe('vad', () => {
+  it('separates tonal speech from broadband noise spectrally', () => {
+    const speech = analyzeFrame(voiced(16).subarray(0, VAD_FRAME_SIZE), RATE);
+    const fan = analyzeFrame(noise(16, 0.1).subarray(0, VAD_FRAME_SIZE), RATE);
+    expect(speech.flatness).toBeLessThan(0.2);
+    expect(fan.flatness).toBeGreaterThan(0.5);
+  });
+
+  it('stays silent for silence and for a loud fan', () => {
+    const vad = createVad();
+    const blocks = processVad(vad, concat(silence(500), noise(2000, 0.1)));
+    expect(speechMs(blocks)).toBe(0);
+    expect(vad.isSpeech).toBe(false);
+  });
+
+  it('detects speech over background noise and keeps the pre-roll', () => {
+    const vad = createVad({ preRollMs: 192 });
+    const background = noise(1000, 0.005);
+    const blocks = processVad(vad, concat(background, voiced(500)));
+
+    expect(vad.isSpeech).toBe(true);
+    // All of the speech, plus up to the pre-roll before it
+    expect(speechMs(blocks)).toBeGreaterThanOrEqual(480);
+    expect(speechMs(blocks)).toBeLessThanOrEqual(500 + 192 + 16);
+  });
+
+  it('holds speech through short pauses and releases after the hangover', () => {
+    const vad = createVad({ hangoverMs: 320 });
+    processVad(vad, concat(silence(200), voiced(400)));
+    expect(vad.isSpeech).toBe(true);
+
+    processVad(vad, silence(160));
+    expect(vad.isSpeech).toBe(true);
+
+    processVad(vad, silence(400));
+    expect(vad.isSpeech).toBe(false);
+  });
+
+  it('ignores speech-like sound below the minimum level', () => {
+    const vad = createVad({ minSpeechRms: 0.05 });
+    processVad(vad, concat(silence(200), voiced(500, 0.01)));
+    expect(vad.isSpeech).toBe(false);
+  });
+
+  it('never loses or reorders samples', () => {
+    const vad = createVad();
+    const input = concat(silence(300), voiced(300), silence(700));
+    const output = processVad(vad, input).flatMap(b => Array.from(b.samples));
+    const held = vad.preRoll.reduce((n, f) => n + f.length, 0) + vad.pendingLength;
+    expect(output.length + held).toBe(input.length);
+    expect(output).toEqual(Array.from(input.subarray(0, output.length)));
+  });
+});
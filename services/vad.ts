@@ -0,0 +1,259 @@
+/**
+ * Voice activity detection for the 16kHz capture stream.
+ *
+ * Each 16ms frame is classified from its energy relative to an adaptive noise
+ * floor and from two spectral features: spectral flatness (tonal speech vs
+ * broadband fan/air-con noise) and the share of energy in the speech band.
+ * Decisions are smoothed with an attack (frames needed to enter speech) and a
+ * hangover (time speech is held after the last speech-like frame). While not
+ * speaking, recent frames are held back as pre-roll and released when speech
+ * starts, so soft word onsets are kept.
+ */
+
+export interface VadOptions {
+  sampleRate: number;
+  /** Absolute minimum RMS for a frame to count as speech */
+  minSpeechRms: number;
+  /** How far above the noise floor a frame must be, in dB */
+  thresholdDb: number;
+  /** Frames flatter than this (0 = pure tone, 1 = white noise) are treated as noise; compared after smoothing across frames */
+  maxFlatness: number;
+  /** Minimum share of energy between 200Hz and 4kHz (rejects rumble and hiss) */
+  minSpeechBandRatio: number;
+  attackMs: number;
+  hangoverMs: number;
+  preRollMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  sampleRate: 16000,
+  minSpeechRms: 0.01,
+  thresholdDb: 9,
+  maxFlatness: 0.35,
+  minSpeechBandRatio: 0.3,
+  attackMs: 32,
+  hangoverMs: 320,
+  preRollMs: 192,
+};
+
+/** Samples per analysis frame (16ms at 16kHz); a power of two for the FFT */
+export const VAD_FRAME_SIZE = 256;
+
+/** Floor for the noise estimate, so digital silence does not make every sound look loud */
+const MIN_NOISE_FLOOR_DB = -90;
+
+export interface VadState {
+  options: VadOptions;
+  attackFrames: number;
+  hangoverFrames: number;
+  preRollFrames: number;
+  /** Samples waiting for a full frame */
+  pending: Float32Array;
+  pendingLength: number;
+  noiseFloorDb: number | null;
+  /** Flatness smoothed across frames; a single noise frame's estimate is too jumpy */
+  flatness: number;
+  /** Consecutive speech-like frames */
+  speechRun: number;
+  /** Frames of hangover left while in speech */
+  hangoverLeft: number;
+  isSpeech: boolean;
+  /** Frames held back while not speaking */
+  preRoll: Float32Array[];
+}
+
+/**
+ * A run of output audio with its decision.
+ */
+export interface VadBlock {
+  samples: Float32Array;
+  speech: boolean;
+}
+
+export interface VadFeatures {
+  rms: number;
+  energyDb: number;
+  flatness: number;
+  speechBandRatio: number;
+}
+
+export const createVad = (options: Partial<VadOptions> = {}): VadState => {
+  const merged = { ...DEFAULT_VAD_OPTIONS, ...options };
+  const frameMs = VAD_FRAME_SIZE / merged.sampleRate * 1000;
+  return {
+    options: merged,
+    attackFrames: Math.max(1, Math.ceil(merged.attackMs / frameMs)),
+    hangoverFrames: Math.ceil(merged.hangoverMs / frameMs),
+    preRollFrames: Math.ceil(merged.preRollMs / frameMs),
+    pending: new Float32Array(VAD_FRAME_SIZE),
+    pendingLength: 0,
+    noiseFloorDb: null,
+    flatness: 1,
+    speechRun: 0,
+    hangoverLeft: 0,
+    isSpeech: false,
+    preRoll: [],
+  };
+};
+
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must have the same power-of-two length.
+ */
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+};
+
+/**
+ * Energy and spectral features of one frame.
+ */
+export const analyzeFrame = (frame: Float32Array, sampleRate: number): VadFeatures => {
+  const n = frame.length;
+  let sumSquares = 0;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    sumSquares += frame[i] * frame[i];
+    // Hann window to limit spectral leakage
+    re[i] = frame[i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (n - 1)));
+  }
+  const rms = Math.sqrt(sumSquares / n);
+  fft(re, im);
+
+  const binHz = sampleRate / n;
+  let total = 0;
+  let band = 0;
+  let logSum = 0;
+  let linSum = 0;
+  let flatBins = 0;
+  for (let k = 1; k < n / 2; k++) {
+    const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+    const hz = k * binHz;
+    total += power;
+    if (hz >= 200 && hz <= 4000) band += power;
+    if (hz >= 250 && hz <= 4000) {
+      logSum += Math.log(power);
+      linSum += power;
+      flatBins++;
+    }
+  }
+
+  return {
+    rms,
+    energyDb: 20 * Math.log10(rms + 1e-10),
+    flatness: flatBins ? Math.exp(logSum / flatBins) / (linSum / flatBins) : 1,
+    speechBandRatio: total ? band / total : 0,
+  };
+};
+
+const isSpeechLike = (vad: VadState, features: VadFeatures): boolean => {
+  const { minSpeechRms, thresholdDb, maxFlatness, minSpeechBandRatio } = vad.options;
+  const floor = vad.noiseFloorDb ?? features.energyDb;
+  return features.rms >= minSpeechRms
+    && features.energyDb - floor >= thresholdDb
+    && vad.flatness <= maxFlatness
+    && features.speechBandRatio >= minSpeechBandRatio;
+};
+
+/**
+ * Tracks background level: falls quickly to quieter frames, rises slowly so
+ * sustained noise (a fan switching on) is absorbed within a few seconds. Speech-like
+ * frames pull it up far more slowly, so only a tone that never pauses is absorbed.
+ */
+const updateNoiseFloor = (vad: VadState, energyDb: number, speechLike: boolean) => {
+  const level = Math.max(energyDb, MIN_NOISE_FLOOR_DB);
+  if (vad.noiseFloorDb === null) {
+    vad.noiseFloorDb = level;
+    return;
+  }
+  const rate = level < vad.noiseFloorDb ? 0.3 : speechLike ? 0.002 : 0.02;
+  vad.noiseFloorDb += (level - vad.noiseFloorDb) * rate;
+};
+
+const pushBlock = (blocks: VadBlock[], samples: Float32Array, speech: boolean) => {
+  const last = blocks[blocks.length - 1];
+  if (last && last.speech === speech) {
+    const merged = new Float32Array(last.samples.length + samples.length);
+    merged.set(last.samples);
+    merged.set(samples, last.samples.length);
+    last.samples = merged;
+  } else {
+    blocks.push({ samples, speech });
+  }
+};
+
+const processFrame = (vad: VadState, frame: Float32Array, blocks: VadBlock[]) => {
+  const features = analyzeFrame(frame, vad.options.sampleRate);
+  vad.flatness += (features.flatness - vad.flatness) * 0.5;
+  const likely = isSpeechLike(vad, features);
+  vad.speechRun = likely ? vad.speechRun + 1 : 0;
+  updateNoiseFloor(vad, features.energyDb, likely);
+
+  if (!vad.isSpeech) {
+    vad.preRoll.push(frame);
+    if (vad.speechRun >= vad.attackFrames) {
+      vad.isSpeech = true;
+      vad.hangoverLeft = vad.hangoverFrames;
+      vad.preRoll.forEach(f => pushBlock(blocks, f, true));
+      vad.preRoll = [];
+    } else if (vad.preRoll.length > vad.preRollFrames) {
+      pushBlock(blocks, vad.preRoll.shift()!, false);
+    }
+    return;
+  }
+
+  vad.hangoverLeft = likely ? vad.hangoverFrames : vad.hangoverLeft - 1;
+  if (vad.hangoverLeft > 0) {
+    pushBlock(blocks, frame, true);
+    return;
+  }
+  // Released: this frame may turn out to be the pre-roll of the next utterance
+  vad.isSpeech = false;
+  vad.preRoll.push(frame);
+};
+
+/**
+ * Feeds samples through the detector and returns the audio that is ready, in order,
+ * labelled speech or non-speech. Output is delayed by up to the pre-roll while not
+ * speaking and passes straight through during speech; no samples are lost.
+ */
+export const processVad = (vad: VadState, samples: Float32Array): VadBlock[] => {
+  const blocks: VadBlock[] = [];
+  let offset = 0;
+  while (offset < samples.length) {
+    const take = Math.min(VAD_FRAME_SIZE - vad.pendingLength, samples.length - offset);
+    vad.pending.set(samples.subarray(offset, offset + take), vad.pendingLength);
+    vad.pendingLength += take;
+    offset += take;
+    if (vad.pendingLength === VAD_FRAME_SIZE) {
+      processFrame(vad, vad.pending.slice(), blocks);
+      vad.pendingLength = 0;
+    }
+  }
+  return blocks;
+};
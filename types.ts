@@ -8,6 +8,12 @@ export enum StreamStatus {
   ERROR = 'ERROR',
 }
 
+/**
+ * Capture channel an input segment was attributed to.
+ * 'mic' is the local user ("Me"), 'system' is shared tab/call audio ("Remote").
+ */
+export type AudioSource = 'mic' | 'system';
+
 /**
  * Represents a single segment of the transcript conversation.
  * Can be a user input or a model response.
@@ -19,19 +25,150 @@ export interface TranscriptSegment {
   timestamp: Date;
   /** Indicates if the segment is currently being streamed/generated */
   isPartial: boolean;
+  /** Id of the local recording that captured this segment's audio, if any */
+  recordingId?: string;
+  /** Position of this segment within that recording, in milliseconds */
+  recordingOffsetMs?: number;
+  /** Capture channel that was dominant when this user segment was heard */
+  source?: AudioSource;
+  /** Diarized label (e.g. "Speaker A") assigned by the speaker-labelling pass */
+  speaker?: string;
+  /** Set on marker segments (with empty text) for audio that was lost while reconnecting */
+  gapMs?: number;
+}
+
+/**
+ * One user correction of the transcript. `before` holds the segments as they were,
+ * `afterIds` the segments that replaced them, so the edit can be undone.
+ */
+export interface TranscriptEdit {
+  id: string;
+  kind: 'edit' | 'split' | 'merge' | 'delete';
+  /** ISO timestamp of the edit */
+  editedAt: string;
+  before: TranscriptSegment[];
+  afterIds: string[];
+}
+
+/**
+ * A task extracted from the conversation by the Note Organizer.
+ */
+export interface ActionItem {
+  id: string;
+  text: string;
+  /** Person responsible, if one was named */
+  owner?: string;
+  /** Due date as YYYY-MM-DD, if one was stated */
+  dueDate?: string;
+  priority: 'low' | 'medium' | 'high';
+  status: 'open' | 'done';
+  /** Id of the OrganizedNote this item was extracted from */
+  sourceNoteId: string;
 }
 
 /**
  * Structured output generated by the Note Organizer service.
  */
 export interface OrganizedNote {
+  id: string;
   title: string;
   summary: string;
   topics: string[];
-  actionItems: string[];
+  actionItems: ActionItem[];
   decisions: string[];
   sentiment: 'positive' | 'neutral' | 'negative';
   timestamp: string;
+  /** Id of the NoteTemplate the note was extracted with */
+  templateId?: string;
+  /** Values of the template's custom fields, in template order */
+  fields?: NoteField[];
+  /** Transcript segments the note was organized from */
+  segmentIds?: string[];
+  /** Set when one of those segments was corrected after the note was written */
+  outdated?: boolean;
+}
+
+/**
+ * Value type of a custom template field: free text or a bullet list.
+ */
+export type TemplateFieldType = 'text' | 'list';
+
+/**
+ * A custom field the organizer extracts in addition to the standard note sections.
+ */
+export interface TemplateField {
+  /** Property name in the extraction schema, e.g. "blockers" */
+  key: string;
+  /** Heading shown on the note, e.g. "Blockers" */
+  label: string;
+  /** Extraction hint passed to the model */
+  description: string;
+  type: TemplateFieldType;
+}
+
+/**
+ * A named note template: how the organizer should read the conversation and
+ * which custom fields it should extract (standups, interviews, retros...).
+ */
+export interface NoteTemplate {
+  id: string;
+  name: string;
+  /** System instruction for the organizer */
+  instruction: string;
+  fields: TemplateField[];
+  /** Shipped with the app; cannot be edited or deleted */
+  builtIn?: boolean;
+}
+
+/**
+ * A team glossary entry: a name, acronym or product term the models should spell
+ * exactly, plus the ways the live model tends to mis-hear it.
+ */
+export interface GlossaryTerm {
+  id: string;
+  /** Correct spelling, e.g. "VibeNote" */
+  term: string;
+  /** Mis-hearings rewritten to `term` in the transcript, e.g. ["vibe note"] */
+  variants: string[];
+  /** What the term means, given to the models as context */
+  definition?: string;
+}
+
+/**
+ * A custom field value on an OrganizedNote. The label is copied from the template
+ * so the note still renders if the template is later edited or deleted.
+ */
+export interface NoteField {
+  key: string;
+  label: string;
+  value: string | string[];
+}
+
+/**
+ * A turn in the ask-the-meeting Q&A panel. Kept apart from the live conversation.
+ */
+export interface MeetingChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  /** Ids of the transcript segments an answer was based on */
+  citations?: string[];
+  timestamp: string;
+}
+
+/**
+ * Consolidated, continuously updated summary of the whole meeting.
+ * Each analysis merges the newest buffer into the previous version.
+ */
+export interface MeetingSummary {
+  overview: string;
+  /** Every decision made so far, de-duplicated */
+  decisions: string[];
+  /** Questions raised and not yet resolved */
+  openQuestions: string[];
+  /** Number of transcript buffers folded into this summary */
+  revision: number;
+  updatedAt: string;
 }
 
 /**
@@ -60,8 +197,147 @@ export interface AudioConfig {
    */
   latencyMode: 'interactive' | 'balanced' | 'playback';
   /** 
-   * RMS threshold (0.0 - 0.05). Audio below this level is silenced.
-   * Helps prevent background noise from triggering the model.
+   * Minimum speech level as RMS (0.0 - 0.05). The voice activity detector never
+   * treats quieter audio as speech; non-speech is silenced before streaming.
    */
   noiseGateThreshold: number; 
-}
\ No newline at end of file
+  /** Stop streaming non-speech audio entirely, saving bandwidth and tokens */
+  skipSilence?: boolean;
+  /** Preferred microphone (`MediaDeviceInfo.deviceId`); the system default when unset */
+  micDeviceId?: string;
+  /** Gain per capture channel, applied before the channels are mixed (0-2, 1 is unity) */
+  sourceGains?: Record<AudioSource, number>;
+}
+
+/**
+ * How the live assistant answers:
+ * 'audio': spoken replies (played when AI Voice Response is on).
+ * 'text': written replies shown in the transcript, using a text-capable live model.
+ * 'silent': "silent scribe" that never answers but still transcribes.
+ */
+export type LiveResponseMode = 'audio' | 'text' | 'silent';
+
+/**
+ * Persona and output settings for the live model, stored with each session.
+ */
+export interface LiveAssistantConfig {
+  /** Persona and instructions, used as the live system instruction */
+  persona: string;
+  /** Languages participants are expected to speak, e.g. ["English", "Telugu"] */
+  languages: string[];
+  /** Prebuilt output voice, e.g. "Kore" */
+  voice: string;
+  responseMode: LiveResponseMode;
+}
+
+/**
+ * Which model backend the Note Organizer (notes, summaries, Q&A, speaker labels) uses.
+ * 'openai' covers any OpenAI-compatible endpoint, including llama.cpp and vLLM servers.
+ */
+export type OrganizerBackend = 'gemini' | 'openai' | 'ollama';
+
+/**
+ * User-configurable settings for the organizer backend.
+ */
+export interface OrganizerConfig {
+  backend: OrganizerBackend;
+  model: string;
+  /** Endpoint root for 'openai' (e.g. https://api.openai.com/v1) and 'ollama' */
+  baseUrl?: string;
+  /** Bearer token for 'openai' endpoints that need one */
+  apiKey?: string;
+}
+
+/**
+ * When the organizer runs automatically. Any enabled trigger fires once at least
+ * `minChars` of finished segments are waiting; `maxChars` fires regardless.
+ */
+export interface AnalysisPolicy {
+  /** Analyze when a conversational turn completes */
+  onTurnComplete: boolean;
+  /** Analyze after this long without new transcript; 0 disables */
+  silenceMs: number;
+  /** Analyze at least this often while text is waiting; 0 disables */
+  intervalMs: number;
+  /** Analyze the previous topic as soon as the conversation moves on */
+  onTopicShift: boolean;
+  /** Smallest transcript sent to the organizer automatically, in characters */
+  minChars: number;
+  /** Largest transcript sent in one request, in characters */
+  maxChars: number;
+}
+
+/**
+ * Tokens billed for one model response.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Running usage totals for a session, used to estimate what it cost.
+ */
+export interface SessionMetrics {
+  /** Audio streamed to the live model, in seconds */
+  audioSecondsSent: number;
+  /** Tokens reported by the live model's usage metadata */
+  liveInputTokens: number;
+  liveOutputTokens: number;
+  /** Organizer requests that returned, and their combined latency */
+  organizerCalls: number;
+  organizerLatencyMs: number;
+  organizerInputTokens: number;
+  organizerOutputTokens: number;
+  /** Reconnection attempts after the live connection dropped */
+  reconnects: number;
+  /** Audio or text the live connection refused to send */
+  droppedSends: number;
+}
+
+/**
+ * A persisted recording session.
+ * Stored in IndexedDB so transcripts and notes survive reloads and tab crashes.
+ */
+export interface Session {
+  id: string;
+  /** User-editable display name shown in the session library */
+  name: string;
+  startedAt: Date;
+  /** Undefined while the session is still being recorded */
+  endedAt?: Date;
+  segments: TranscriptSegment[];
+  notes: OrganizedNote[];
+  audioConfig: AudioConfig;
+  /** User-edited display names keyed by diarized label, e.g. { "Speaker A": "Priya" } */
+  speakerNames?: Record<string, string>;
+  /** Rolling summary maintained in Meeting Summary mode */
+  meetingSummary?: MeetingSummary;
+  /** Live assistant persona and voice; the defaults for sessions saved before it existed */
+  assistantConfig?: LiveAssistantConfig;
+  /** Transcript corrections, oldest first */
+  transcriptEdits?: TranscriptEdit[];
+  /** Usage totals; absent for sessions saved before they were recorded */
+  metrics?: SessionMetrics;
+}
+
+/**
+ * Lightweight listing entry for the session library sidebar.
+ */
+export type SessionSummary = Pick<Session, 'id' | 'name' | 'startedAt' | 'endedAt'> & {
+  segmentCount: number;
+  noteCount: number;
+};
+
+/**
+ * Locally recorded copy of the processed input audio (the same mix sent to the model).
+ * A session can own several recordings, e.g. one per reconnect.
+ */
+export interface SessionRecording {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+  mimeType: string;
+  startedAt: Date;
+  durationMs: number;
+}